@@ -0,0 +1,68 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises"
+import path from "path"
+
+// Development stand-in for the attachments bucket: stores files under
+// .attachments/ in the project. Disabled in production builds.
+
+const ROOT = path.join(process.cwd(), ".attachments")
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".webp": "image/webp",
+  ".svg": "image/svg+xml",
+  ".pdf": "application/pdf",
+  ".txt": "text/plain",
+}
+
+interface RouteContext {
+  params: { path: string[] }
+}
+
+// Only "<document id>" or "<document id>/<file name>", without traversal
+function resolvePath(segments: string[]) {
+  if (process.env.NODE_ENV === "production") return null
+  if (segments.length < 1 || segments.length > 2) return null
+  if (!segments.every((segment) => /^[\w-]+(\.[\w]+)?$/.test(segment))) return null
+  return path.join(ROOT, ...segments)
+}
+
+export async function GET(_request: Request, { params }: RouteContext) {
+  const file = params.path.length === 2 ? resolvePath(params.path) : null
+  if (!file) return new Response("Not found", { status: 404 })
+
+  try {
+    const data = await readFile(file)
+    const type = CONTENT_TYPES[path.extname(file).toLowerCase()] || "application/octet-stream"
+    return new Response(data, {
+      headers: {
+        "Content-Type": type,
+        "Cache-Control": "public, max-age=31536000, immutable",
+        // Uploaded SVGs must not run scripts when opened directly
+        "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'",
+      },
+    })
+  } catch {
+    return new Response("Not found", { status: 404 })
+  }
+}
+
+export async function PUT(request: Request, { params }: RouteContext) {
+  const file = params.path.length === 2 ? resolvePath(params.path) : null
+  if (!file) return new Response("Not found", { status: 404 })
+
+  await mkdir(path.dirname(file), { recursive: true })
+  await writeFile(file, Buffer.from(await request.arrayBuffer()))
+  return new Response(null, { status: 201 })
+}
+
+// Removes every attachment of a document
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const folder = params.path.length === 1 ? resolvePath(params.path) : null
+  if (!folder) return new Response("Not found", { status: 404 })
+
+  await rm(folder, { recursive: true, force: true })
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,43 @@
+import { createUserClient } from "@/lib/supabase-server"
+import { sendInvitationEmail } from "@/lib/invitations-server"
+
+// Sends a pending invitation again and gives it a fresh expiry period
+
+const VALID_FOR_DAYS = 14
+
+interface RouteContext {
+  params: { id: string }
+}
+
+export async function POST(request: Request, { params }: RouteContext) {
+  const auth = createUserClient(request)
+  const { data: user } = auth ? await auth.client.auth.getUser(auth.token) : { data: null }
+  if (!auth || !user?.user) return Response.json({ error: "Sign in to manage invitations." }, { status: 401 })
+
+  const now = new Date()
+  const { data: invitation, error } = await auth.client
+    .from("document_invitations")
+    .update({
+      sent_at: now.toISOString(),
+      expires_at: new Date(now.getTime() + VALID_FOR_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .eq("id", params.id)
+    .is("accepted_at", null)
+    .select("id, document_id, email, role, sent_at, expires_at")
+    .maybeSingle()
+
+  if (error) return Response.json({ error: error.message }, { status: 500 })
+  // Row level security hides invitations to documents the caller does not own
+  if (!invitation) {
+    return Response.json({ error: "This invitation was already accepted or revoked." }, { status: 404 })
+  }
+
+  try {
+    await sendInvitationEmail(auth.client, request, user.user, invitation)
+  } catch (mailError: any) {
+    console.error("Error sending invitation email:", mailError)
+    return Response.json({ error: `The email could not be sent (${mailError.message}).` }, { status: 502 })
+  }
+
+  return Response.json({ invitation })
+}
@@ -0,0 +1,78 @@
+import { createServiceClient, createUserClient } from "@/lib/supabase-server"
+import { verifyInvitationToken } from "@/lib/invitations-server"
+
+// Accepts an invitation for the signed-in user. The invitee is not a member
+// yet, so row level security would hide both the invitation and the
+// permissions table from them: after checking the signed token and that the
+// account's email matches the invited address, the service role adds them.
+
+const ROLE_RANK: Record<string, number> = { viewer: 0, commenter: 1, editor: 2, owner: 3 }
+
+export async function POST(request: Request) {
+  const auth = createUserClient(request)
+  const service = createServiceClient()
+  if (!service) {
+    return Response.json({ error: "Invitations are not configured on this server." }, { status: 500 })
+  }
+
+  const { data: user } = auth ? await service.auth.getUser(auth.token) : { data: null }
+  if (!user?.user) return Response.json({ error: "Sign in to accept this invitation." }, { status: 401 })
+
+  const { token } = await request.json().catch(() => ({}))
+  const invitationId = typeof token === "string" ? verifyInvitationToken(token) : null
+  if (!invitationId) return Response.json({ error: "This invitation link is not valid." }, { status: 400 })
+
+  const { data: invitation, error } = await service
+    .from("document_invitations")
+    .select("id, document_id, email, role, expires_at, accepted_by, accepted_at")
+    .eq("id", invitationId)
+    .maybeSingle()
+
+  if (error) return Response.json({ error: error.message }, { status: 500 })
+  if (!invitation) {
+    return Response.json({ error: "This invitation was revoked by the owner of the document." }, { status: 404 })
+  }
+  // Opening the link again after accepting just goes to the document
+  if (invitation.accepted_at) {
+    if (invitation.accepted_by === user.user.id) return Response.json({ documentId: invitation.document_id })
+    return Response.json({ error: "This invitation has already been used." }, { status: 410 })
+  }
+  if (new Date(invitation.expires_at).getTime() <= Date.now()) {
+    return Response.json(
+      { error: "This invitation has expired. Ask the owner of the document to send a new one." },
+      { status: 410 },
+    )
+  }
+  if (invitation.email.toLowerCase() !== user.user.email?.toLowerCase()) {
+    return Response.json(
+      { error: `This invitation was sent to ${invitation.email}. Sign in with that address to accept it.` },
+      { status: 403 },
+    )
+  }
+
+  const { data: existing } = await service
+    .from("document_permissions")
+    .select("role")
+    .eq("document_id", invitation.document_id)
+    .eq("user_id", user.user.id)
+    .maybeSingle()
+
+  // Never lower a role the user already has, e.g. through a folder
+  if (!existing || ROLE_RANK[existing.role] < ROLE_RANK[invitation.role]) {
+    const { error: grantError } = await service.from("document_permissions").upsert({
+      document_id: invitation.document_id,
+      user_id: user.user.id,
+      role: invitation.role,
+      inherited_from: null,
+    })
+    if (grantError) return Response.json({ error: grantError.message }, { status: 500 })
+  }
+
+  const { error: acceptError } = await service
+    .from("document_invitations")
+    .update({ accepted_by: user.user.id, accepted_at: new Date().toISOString() })
+    .eq("id", invitation.id)
+  if (acceptError) return Response.json({ error: acceptError.message }, { status: 500 })
+
+  return Response.json({ documentId: invitation.document_id })
+}
@@ -0,0 +1,70 @@
+import { createUserClient } from "@/lib/supabase-server"
+import { sendInvitationEmail, signInvitationNotification } from "@/lib/invitations-server"
+
+// Invites an email address to a document. The insert runs as the caller, so
+// row level security limits it to the document's owner.
+
+const ROLES = ["editor", "commenter", "viewer"]
+
+// Postgres error codes
+const UNIQUE_VIOLATION = "23505"
+const RLS_VIOLATION = "42501"
+
+export async function POST(request: Request) {
+  const auth = createUserClient(request)
+  const { data: user } = auth ? await auth.client.auth.getUser(auth.token) : { data: null }
+  if (!auth || !user?.user) return Response.json({ error: "Sign in to invite people." }, { status: 401 })
+
+  const { documentId, email, role } = await request.json().catch(() => ({}))
+  const address = typeof email === "string" ? email.trim().toLowerCase() : ""
+  if (typeof documentId !== "string" || !/^[^\s@]+@[^\s@]+$/.test(address) || !ROLES.includes(role)) {
+    return Response.json({ error: "Enter a valid email address and role." }, { status: 400 })
+  }
+
+  const { data: members } = await auth.client
+    .from("document_permissions")
+    .select("user:users_data(email)")
+    .eq("document_id", documentId)
+  const memberEmails = ((members ?? []) as unknown as { user: { email: string } | null }[]).map((row) =>
+    row.user?.email.toLowerCase(),
+  )
+  if (memberEmails.includes(address)) {
+    return Response.json({ error: `${address} already has access to this document.` }, { status: 409 })
+  }
+
+  const { data: invitation, error } = await auth.client
+    .from("document_invitations")
+    .insert({ document_id: documentId, email: address, role })
+    .select("id, document_id, email, role, sent_at, expires_at")
+    .single()
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    return Response.json(
+      { error: `${address} has already been invited. Resend the invitation from the list instead.` },
+      { status: 409 },
+    )
+  }
+  if (error?.code === RLS_VIOLATION) {
+    return Response.json({ error: "Only the owner of the document can invite people." }, { status: 403 })
+  }
+  if (error) return Response.json({ error: error.message }, { status: 500 })
+
+  // Without the token the in-app notification has no link; the email still works
+  try {
+    await signInvitationNotification(invitation.id)
+  } catch (linkError) {
+    console.error("Error linking invitation notification:", linkError)
+  }
+
+  try {
+    await sendInvitationEmail(auth.client, request, user.user, invitation)
+  } catch (mailError: any) {
+    console.error("Error sending invitation email:", mailError)
+    return Response.json(
+      { error: `The invitation was saved but the email could not be sent (${mailError.message}). Try resending it.` },
+      { status: 502 },
+    )
+  }
+
+  return Response.json({ invitation }, { status: 201 })
+}
@@ -0,0 +1,23 @@
+import { createServiceClient } from "@/lib/supabase-server"
+import { purgeExpiredDocuments } from "@/lib/trash-server"
+
+// Deletes documents that have been in the trash too long. Called nightly by
+// the purge-expired-trash job (supabase/migrations/20261019001600_trash_purge.sql)
+// with CRON_SECRET as its bearer token.
+
+export async function POST(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return Response.json({ error: "Not allowed." }, { status: 401 })
+  }
+
+  const client = createServiceClient()
+  if (!client) return Response.json({ error: "SUPABASE_SERVICE_ROLE_KEY is not configured." }, { status: 500 })
+
+  try {
+    return Response.json({ purged: await purgeExpiredDocuments(client) })
+  } catch (error: any) {
+    console.error("Error purging the trash:", error)
+    return Response.json({ error: error.message }, { status: 500 })
+  }
+}
@@ -12,6 +12,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { useAuth } from "@/components/auth-provider"
 import { FileText, Loader2, ArrowLeft, Mail, Lock } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { returnPath } from "@/lib/utils"
 
 interface LoginForm {
   email: string
@@ -33,7 +34,8 @@ export default function LoginPage() {
         title: "Welcome back!",
         description: "You've been successfully logged in.",
       })
-      router.push("/")
+      // Share links send people here with the page to return to
+      router.push(returnPath(window.location.search, window.location.origin))
     } catch (error) {
       toast({
         title: "Login failed",
@@ -12,6 +12,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { useAuth } from "@/components/auth-provider"
 import { FileText, Loader2, ArrowLeft, Mail, Lock, User } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
+import { returnPath } from "@/lib/utils"
 
 interface RegisterForm {
   email: string
@@ -45,7 +46,8 @@ export default function RegisterPage() {
         title: "Account created!",
         description: "Welcome to DocuWrite!",
       })
-      router.push("/")
+      // Share links send people here with the page to return to
+      router.push(returnPath(window.location.search, window.location.origin))
     } catch (error) {
       toast({
         title: "Registration failed",
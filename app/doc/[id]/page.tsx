@@ -7,14 +7,31 @@ import { useAuth } from "@/components/auth-provider";
 import { Loader2 } from "lucide-react";
 import { supabase } from "@/lib/supabase";
 import { useToast } from "@/hooks/use-toast";
+import { useOnlineStatus } from "@/hooks/use-online-status";
+import { createRevision } from "@/lib/revisions";
+import type { PageSettings } from "@/lib/page-layout";
+import {
+  cacheDocument,
+  loadCachedDocument,
+  resolveDocumentConflict,
+  saveDocumentChanges,
+  syncDocumentChanges,
+  syncQueuedChanges,
+  type DocumentConflict,
+  type SaveResult,
+} from "@/lib/offline";
 
 interface Document {
   id: string;
+  owner_id: string;
   title: string;
   content: string;
   createdAt: Date;
   updatedAt: Date;
   collaborators: string[];
+  page_settings?: PageSettings | null;
+  // Bumped by the server on every save; missing from older offline copies
+  version?: number;
 }
 
 export default function DocumentPage() {
@@ -23,8 +40,13 @@ export default function DocumentPage() {
   const { user } = useAuth();
   const [document, setDocument] = useState<Document | null>(null);
   const [loading, setLoading] = useState(true);
+  const [conflict, setConflict] = useState<DocumentConflict<Document> | null>(
+    null
+  );
+  const isOnline = useOnlineStatus();
   const { toast } = useToast();
 
+  // Falls back to the copy saved the last time the document was opened
   const fetchCurrentDocument = async (docId: string) => {
     const { data, error } = await supabase
       .from("documents")
@@ -33,11 +55,21 @@ export default function DocumentPage() {
       .single();
     if (data) {
       setDocument(data as Document);
+      cacheDocument(data as Document).catch((error) =>
+        console.error("Error caching document:", error)
+      );
+      return;
     }
 
     if (error) {
       console.error("Error fetching document:", error);
-      return null;
+    }
+
+    try {
+      const cached = await loadCachedDocument<Document>(docId);
+      if (cached) setDocument(cached);
+    } catch (error) {
+      console.error("Error loading offline copy:", error);
     }
   };
 
@@ -49,23 +81,105 @@ export default function DocumentPage() {
 
     const docId = params.id as string;
 
-    fetchCurrentDocument(docId);
-    setLoading(false);
+    fetchCurrentDocument(docId).finally(() => setLoading(false));
   }, [params.id, user, router]);
 
+  // Applies the outcome of a save; returns whether it reached the server
+  const handleSaveResult = (result: SaveResult) => {
+    if (result.status === "conflict") {
+      setConflict(result.conflict as DocumentConflict<Document>);
+      return false;
+    }
+    if (result.status === "saved" && result.version !== undefined) {
+      const version = result.version;
+      setDocument((prev) => {
+        if (!prev) return prev;
+        const updated = { ...prev, version };
+        cacheDocument(updated).catch((error) =>
+          console.error("Error caching document:", error)
+        );
+        return updated;
+      });
+    }
+    return result.status === "saved";
+  };
+
+  // Replay edits made while offline, here and in other documents
+  useEffect(() => {
+    if (!isOnline || !document) return;
+    syncDocumentChanges(document.id)
+      .then(handleSaveResult)
+      .then(() => syncQueuedChanges())
+      .then((synced) => {
+        if (synced > 0) {
+          toast({
+            title: "Back online",
+            description: "Changes you made offline have been saved.",
+          });
+        }
+      })
+      .catch((error) => console.error("Error syncing offline changes:", error));
+  }, [isOnline, document?.id]);
+
+  // Resolves to whether the changes reached the server
   const updateDocument = async (updates: Partial<Document>) => {
-    if (!document) return;
-    const updatedDoc = { ...document, ...updates, updatedAt: new Date() };
-    setDocument(updatedDoc);
+    if (!document) return false;
+    const changes = { ...updates, updatedAt: new Date() };
+    const updated = { ...document, ...changes };
+    setDocument(updated);
+    cacheDocument(updated).catch((error) =>
+      console.error("Error caching document:", error)
+    );
 
-    const { data, error } = await supabase
-      .from("documents")
-      .update(updatedDoc)
-      .eq("id", document.id)
-      .select()
-      .single();
+    // Content edits are merged through the collaboration log; the `content`
+    // column is only a snapshot, so send just the fields that changed. Without
+    // a network the changes stay queued until the connection returns. The
+    // server rejects them if someone else saved since `document.version`.
+    try {
+      const result = await saveDocumentChanges(
+        document.id,
+        changes,
+        document.version
+      );
+      if (!handleSaveResult(result)) return false;
+    } catch (error: any) {
+      toast({
+        title: "Error updating document",
+        description: error.message,
+        variant: "destructive",
+      });
+      return false;
+    }
 
-    if (error) {
+    if (user && updates.content !== undefined && updates.content !== document.content) {
+      try {
+        await createRevision(document.id, user.id, {
+          title: updates.title ?? document.title,
+          content: updates.content,
+        });
+      } catch (error) {
+        console.error("Error recording revision:", error);
+      }
+    }
+    return true;
+  };
+
+  // `resolution` holds the fields to save on top of the server's copy, or
+  // null to discard local changes and take the server's copy as is
+  const resolveConflict = async (resolution: Partial<Document> | null) => {
+    if (!document || !conflict) return;
+    const { theirs } = conflict;
+    setConflict(null);
+    setDocument({ ...theirs, ...resolution });
+
+    try {
+      const result = await resolveDocumentConflict(
+        document.id,
+        resolution && { ...resolution, updatedAt: new Date() },
+        theirs.version
+      );
+      handleSaveResult(result);
+    } catch (error: any) {
       toast({
         title: "Error updating document",
         description: error.message,
@@ -97,5 +211,12 @@ export default function DocumentPage() {
     );
   }
 
-  return <DocumentEditor document={document} onUpdate={updateDocument} />;
+  return (
+    <DocumentEditor
+      document={document}
+      onUpdate={updateDocument}
+      conflict={conflict}
+      onResolveConflict={resolveConflict}
+    />
+  );
 }
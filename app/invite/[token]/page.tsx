@@ -0,0 +1,80 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAuth } from "@/components/auth-provider"
+import { Loader2, MailX, UserPlus } from "lucide-react"
+import { acceptInvitation } from "@/lib/invitations"
+
+export default function InvitePage() {
+  const params = useParams()
+  const router = useRouter()
+  const { user, loading, logout } = useAuth()
+  const [error, setError] = useState("")
+  const token = params.token as string
+
+  useEffect(() => {
+    if (loading || !user) return
+    setError("")
+    acceptInvitation(token)
+      .then((documentId) => router.replace(`/doc/${documentId}`))
+      .catch((error: any) => setError(error.message))
+  }, [loading, user?.id, token])
+
+  if (loading || (user && !error)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+        {!user ? (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <UserPlus className="h-5 w-5 text-blue-600" />
+                <span>You&apos;re invited to a document</span>
+              </CardTitle>
+              <CardDescription>
+                Sign in or create an account with the address the invitation was sent to.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex space-x-3">
+              <Button asChild className="flex-1">
+                <Link href={`/auth/login?next=/invite/${token}`}>Sign in</Link>
+              </Button>
+              <Button asChild variant="outline" className="flex-1">
+                <Link href={`/auth/register?next=/invite/${token}`}>Create account</Link>
+              </Button>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <MailX className="h-5 w-5 text-red-600" />
+                <span>This invitation can&apos;t be accepted</span>
+              </CardTitle>
+              <CardDescription>{error}</CardDescription>
+            </CardHeader>
+            <CardContent className="flex space-x-3">
+              <Button asChild variant="outline" className="flex-1">
+                <Link href="/">Go to your documents</Link>
+              </Button>
+              <Button variant="ghost" className="flex-1" onClick={logout}>
+                Switch account
+              </Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  )
+}
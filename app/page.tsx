@@ -1,20 +1,30 @@
 "use client"
 
+import { Suspense } from "react"
 import { useAuth } from "@/components/auth-provider"
 import { Dashboard } from "@/components/dashboard"
 import { LandingPage } from "@/components/landing-page"
 import { Loader2 } from "lucide-react"
 
+function Loading() {
+  return (
+    <div className="min-h-screen flex items-center justify-center">
+      <Loader2 className="h-8 w-8 animate-spin" />
+    </div>
+  )
+}
+
 export default function Home() {
   const { user, loading } = useAuth()
 
-  if (loading) {
-    return (
-      <div className="min-h-screen flex items-center justify-center">
-        <Loader2 className="h-8 w-8 animate-spin" />
-      </div>
-    )
-  }
+  if (loading) return <Loading />
 
-  return user ? <Dashboard /> : <LandingPage />
+  // The dashboard reads the view and folder from the query string
+  return user ? (
+    <Suspense fallback={<Loading />}>
+      <Dashboard />
+    </Suspense>
+  ) : (
+    <LandingPage />
+  )
 }
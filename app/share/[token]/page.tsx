@@ -0,0 +1,127 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useAuth } from "@/components/auth-provider"
+import { KeyRound, Link2Off, Loader2, LogIn } from "lucide-react"
+import { joinDocumentLink } from "@/lib/links"
+
+type ShareState = "joining" | "password" | "error"
+
+export default function SharePage() {
+  const params = useParams()
+  const router = useRouter()
+  const { user, loading } = useAuth()
+  const [state, setState] = useState<ShareState>("joining")
+  const [error, setError] = useState("")
+  const [password, setPassword] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const token = params.token as string
+
+  const join = async (attempt?: string) => {
+    setIsSubmitting(true)
+    try {
+      const result = await joinDocumentLink(token, attempt)
+      if ("passwordRequired" in result) {
+        setState("password")
+        setError(attempt ? "That password is not correct." : "")
+        return
+      }
+      router.replace(`/doc/${result.documentId}`)
+    } catch (error: any) {
+      setState("error")
+      setError(error.message)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  useEffect(() => {
+    if (!loading && user) join()
+  }, [loading, user?.id, token])
+
+  if (loading || (user && state === "joining")) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-indigo-50 flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-xl border-0 bg-white/80 backdrop-blur-sm">
+        {!user ? (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <LogIn className="h-5 w-5 text-blue-600" />
+                <span>Sign in to open this document</span>
+              </CardTitle>
+              <CardDescription>Someone shared a DocuWrite document with you.</CardDescription>
+            </CardHeader>
+            <CardContent className="flex space-x-3">
+              <Button asChild className="flex-1">
+                <Link href={`/auth/login?next=/share/${token}`}>Sign in</Link>
+              </Button>
+              <Button asChild variant="outline" className="flex-1">
+                <Link href={`/auth/register?next=/share/${token}`}>Create account</Link>
+              </Button>
+            </CardContent>
+          </>
+        ) : state === "password" ? (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <KeyRound className="h-5 w-5 text-blue-600" />
+                <span>This document is password protected</span>
+              </CardTitle>
+              <CardDescription>Enter the password you were given with the link.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault()
+                  if (password) join(password)
+                }}
+                className="space-y-3"
+              >
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder="Password"
+                  autoFocus
+                />
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <Button type="submit" className="w-full" disabled={!password || isSubmitting}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Open document
+                </Button>
+              </form>
+            </CardContent>
+          </>
+        ) : (
+          <>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <Link2Off className="h-5 w-5 text-red-600" />
+                <span>This link doesn&apos;t work</span>
+              </CardTitle>
+              <CardDescription>{error || "Ask the owner of the document for a new link."}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button asChild variant="outline" className="w-full">
+                <Link href="/">Go to your documents</Link>
+              </Button>
+            </CardContent>
+          </>
+        )}
+      </Card>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client";
 
 import { supabase } from "@/lib/supabase";
+import { cacheProfile, clearOfflineData, loadCachedProfile } from "@/lib/offline";
 import type React from "react";
 
 import { createContext, useContext, useEffect, useState } from "react";
@@ -48,6 +49,9 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   if (fetchError) {
     console.error("Error fetching user from users_data:", fetchError.message);
+    // Offline, keep working as the user who last signed in on this device
+    const cached = await loadCachedProfile(userId).catch(() => undefined);
+    if (cached) setUser(cached);
     setLoading(false);
     return;
   }
@@ -59,12 +63,16 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return;
   }
 
-  setUser({
+  const profile = {
     id: user.id,
     name: user.name,
     email: user.email,
     avatar: user.avatar,
-  });
+  };
+  setUser(profile);
+  cacheProfile(profile).catch((error) =>
+    console.error("Error caching profile:", error)
+  );
 
   setLoading(false);
 };
@@ -152,6 +160,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const logout = async () => {
     setUser(null);
+    // Offline copies belong to this account; don't leave them for the next one
+    await clearOfflineData().catch((error) =>
+      console.error("Error clearing offline data:", error)
+    );
     await supabase.auth.signOut();
   };
 
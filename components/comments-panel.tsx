@@ -0,0 +1,491 @@
+"use client"
+
+import type React from "react"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import type { Editor } from "@tiptap/react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Textarea } from "@/components/ui/textarea"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { MessageSquare, MessageSquarePlus, CheckCircle2, RotateCcw, Loader2 } from "lucide-react"
+import {
+  addComment,
+  createCommentThread,
+  extractMentions,
+  fetchCommentThreads,
+  setThreadResolved,
+  subscribeToComments,
+  type CommentThread,
+} from "@/lib/comments"
+import { commentThreadsAt, getCommentAnchors, type CommentAnchor } from "@/lib/extensions/comments"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+
+interface MentionCandidate {
+  id: string
+  name: string
+  avatar?: string
+}
+
+interface CommentsPanelProps {
+  documentId: string
+  editor: Editor | null
+  currentUserId?: string
+  // People who can be @-mentioned
+  members: MentionCandidate[]
+  canComment: boolean
+  // Thread to open once comments have loaded, e.g. from a notification
+  focusThreadId?: string | null
+}
+
+interface CommentComposerProps {
+  members: MentionCandidate[]
+  placeholder: string
+  submitLabel: string
+  autoFocus?: boolean
+  onSubmit: (body: string, mentions: string[]) => Promise<void>
+  onCancel?: () => void
+}
+
+// Textarea that offers collaborators when the word being typed starts with @
+function CommentComposer({ members, placeholder, submitLabel, autoFocus, onSubmit, onCancel }: CommentComposerProps) {
+  const [body, setBody] = useState("")
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  const candidates = useMemo(
+    () =>
+      mentionQuery === null
+        ? []
+        : members.filter((member) => member.name.toLowerCase().includes(mentionQuery.toLowerCase())).slice(0, 5),
+    [members, mentionQuery],
+  )
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    setBody(e.target.value)
+    const beforeCaret = e.target.value.slice(0, e.target.selectionStart)
+    const match = beforeCaret.match(/(?:^|\s)@([^\s@]*)$/)
+    setMentionQuery(match ? match[1] : null)
+  }
+
+  const insertMention = (member: MentionCandidate) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const caret = textarea.selectionStart
+    const start = body.slice(0, caret).lastIndexOf("@")
+    const next = `${body.slice(0, start)}@${member.name} ${body.slice(caret)}`
+    setBody(next)
+    setMentionQuery(null)
+    requestAnimationFrame(() => {
+      const position = start + member.name.length + 2
+      textarea.focus()
+      textarea.setSelectionRange(position, position)
+    })
+  }
+
+  const submit = async () => {
+    if (!body.trim() || submitting) return
+    setSubmitting(true)
+    try {
+      await onSubmit(body, extractMentions(body, members))
+      setBody("")
+    } catch {
+      // The caller has reported the failure; keep the draft so it can be retried
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (candidates.length > 0 && (e.key === "Enter" || e.key === "Tab")) {
+      e.preventDefault()
+      insertMention(candidates[0])
+    } else if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault()
+      submit()
+    } else if (e.key === "Escape") {
+      if (mentionQuery !== null) setMentionQuery(null)
+      else onCancel?.()
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={body}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          placeholder={placeholder}
+          autoFocus={autoFocus}
+          className="min-h-[64px] text-sm rounded-lg"
+        />
+        {candidates.length > 0 && (
+          <div className="absolute z-10 left-0 right-0 top-full mt-1 bg-white border border-gray-200 rounded-lg shadow-lg py-1">
+            {candidates.map((member) => (
+              <button
+                key={member.id}
+                type="button"
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  insertMention(member)
+                }}
+                className="w-full flex items-center space-x-2 px-3 py-1.5 text-sm hover:bg-gray-50"
+              >
+                <Avatar className="h-5 w-5">
+                  <AvatarImage src={member.avatar || "/placeholder.svg"} alt={member.name} />
+                  <AvatarFallback className="text-[10px]">{member.name.charAt(0)}</AvatarFallback>
+                </Avatar>
+                <span>{member.name}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <Button size="sm" variant="ghost" className="h-7 px-2 text-xs" onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button size="sm" className="h-7 px-3 text-xs" onClick={submit} disabled={!body.trim() || submitting}>
+          {submitting && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+// Highlights @-mentions of known members
+function CommentBody({ body, members }: { body: string; members: MentionCandidate[] }) {
+  const names = members.map((member) => member.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+  if (names.length === 0) return <p className="text-sm text-gray-700 whitespace-pre-wrap">{body}</p>
+
+  const parts = body.split(new RegExp(`(@(?:${names.join("|")}))`, "g"))
+  return (
+    <p className="text-sm text-gray-700 whitespace-pre-wrap">
+      {parts.map((part, index) =>
+        index % 2 === 1 ? (
+          <span key={index} className="text-blue-600 font-medium">
+            {part}
+          </span>
+        ) : (
+          part
+        ),
+      )}
+    </p>
+  )
+}
+
+export function CommentsPanel({
+  documentId,
+  editor,
+  currentUserId,
+  members,
+  canComment,
+  focusThreadId,
+}: CommentsPanelProps) {
+  const [threads, setThreads] = useState<CommentThread[]>([])
+  const [loading, setLoading] = useState(true)
+  const [view, setView] = useState<"open" | "resolved">("open")
+  const [anchors, setAnchors] = useState<Map<string, CommentAnchor>>(new Map())
+  const [activeThread, setActiveThread] = useState<string | null>(null)
+  // Thread being written; its mark is already in the document so it tracks edits
+  const [pendingThread, setPendingThread] = useState<{ id: string; quote: string } | null>(null)
+  const [hasSelection, setHasSelection] = useState(false)
+  const focusedThreadRef = useRef<string | null>(null)
+  const { toast } = useToast()
+
+  const loadThreads = useCallback(async () => {
+    try {
+      setThreads(await fetchCommentThreads(documentId))
+    } catch (error: any) {
+      toast({
+        title: "Error loading comments",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }, [documentId])
+
+  useEffect(() => {
+    loadThreads()
+    return subscribeToComments(documentId, loadThreads)
+  }, [documentId, loadThreads])
+
+  useEffect(() => {
+    if (!editor) return
+
+    const refreshAnchors = () => setAnchors(getCommentAnchors(editor.state.doc))
+    const trackSelection = () => {
+      const { from, empty } = editor.state.selection
+      setHasSelection(!empty)
+      const here = commentThreadsAt(editor.state.doc, from)
+      if (here.length > 0) setActiveThread(here[here.length - 1])
+    }
+
+    refreshAnchors()
+    editor.on("update", refreshAnchors)
+    editor.on("selectionUpdate", trackSelection)
+    return () => {
+      editor.off("update", refreshAnchors)
+      editor.off("selectionUpdate", trackSelection)
+    }
+  }, [editor])
+
+  // Only open threads are highlighted in the text
+  useEffect(() => {
+    if (!editor) return
+    const open = threads.filter((thread) => !thread.resolvedAt).map((thread) => thread.id)
+    if (pendingThread) open.push(pendingThread.id)
+    editor.storage.comment.openThreads = new Set(open)
+    editor.storage.comment.activeThread = pendingThread?.id ?? activeThread
+    editor.commands.refreshComments()
+  }, [editor, threads, activeThread, pendingThread])
+
+  const startThread = () => {
+    if (!editor) return
+    const { from, to, empty } = editor.state.selection
+    if (empty) return
+
+    const id = crypto.randomUUID()
+    const quote = editor.state.doc.textBetween(from, to, " ")
+    if (!editor.commands.setComment(id)) return
+    setPendingThread({ id, quote })
+    setView("open")
+  }
+
+  const cancelThread = () => {
+    if (!pendingThread) return
+    editor?.commands.unsetComment(pendingThread.id)
+    setPendingThread(null)
+  }
+
+  const submitThread = async (body: string, mentions: string[]) => {
+    if (!pendingThread || !currentUserId) return
+    try {
+      await createCommentThread(documentId, currentUserId, { ...pendingThread, body, mentions })
+      setActiveThread(pendingThread.id)
+      setPendingThread(null)
+      await loadThreads()
+    } catch (error: any) {
+      toast({
+        title: "Error adding comment",
+        description: error.message,
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
+  const reply = async (threadId: string, body: string, mentions: string[]) => {
+    if (!currentUserId) return
+    try {
+      await addComment(documentId, threadId, currentUserId, { body, mentions })
+      await loadThreads()
+    } catch (error: any) {
+      toast({
+        title: "Error sending reply",
+        description: error.message,
+        variant: "destructive",
+      })
+      throw error
+    }
+  }
+
+  const toggleResolved = async (thread: CommentThread) => {
+    if (!currentUserId) return
+    try {
+      await setThreadResolved(thread.id, thread.resolvedAt ? null : currentUserId)
+      await loadThreads()
+    } catch (error: any) {
+      toast({
+        title: thread.resolvedAt ? "Error reopening discussion" : "Error resolving discussion",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const focusThread = (threadId: string) => {
+    setActiveThread(threadId)
+    const anchor = anchors.get(threadId)
+    if (editor && anchor) {
+      editor.chain().focus().setTextSelection(anchor.from).scrollIntoView().run()
+    }
+  }
+
+  // Opens the requested thread once, after both the threads and the editor are ready
+  useEffect(() => {
+    if (!focusThreadId || focusedThreadRef.current === focusThreadId || loading || !editor) return
+    const thread = threads.find((t) => t.id === focusThreadId)
+    if (!thread) return
+
+    focusedThreadRef.current = focusThreadId
+    setView(thread.resolvedAt ? "resolved" : "open")
+    focusThread(thread.id)
+    requestAnimationFrame(() =>
+      document.getElementById(`comment-thread-${thread.id}`)?.scrollIntoView({ block: "nearest", behavior: "smooth" }),
+    )
+  }, [focusThreadId, threads, loading, editor, anchors])
+
+  const openThreads = threads.filter((thread) => !thread.resolvedAt)
+  const resolvedThreads = threads.filter((thread) => thread.resolvedAt)
+  // Listed in document order; threads whose text was deleted go last
+  const visibleThreads = (view === "open" ? openThreads : resolvedThreads).sort(
+    (a, b) => (anchors.get(a.id)?.from ?? Infinity) - (anchors.get(b.id)?.from ?? Infinity),
+  )
+
+  return (
+    <aside className="bg-white shadow-xl border border-gray-200 rounded-2xl overflow-hidden">
+      <div className="p-4 border-b border-gray-100 bg-gray-50 space-y-3">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <MessageSquare className="h-4 w-4 text-amber-600" />
+            <h3 className="text-sm font-semibold text-gray-900">Comments</h3>
+            <Badge variant="secondary">{openThreads.length}</Badge>
+          </div>
+          {canComment && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={startThread}
+              disabled={!hasSelection || !!pendingThread}
+              title={hasSelection ? "Comment on the selected text" : "Select text to comment on it"}
+            >
+              <MessageSquarePlus className="h-3 w-3 mr-1" />
+              Comment
+            </Button>
+          )}
+        </div>
+        <Tabs value={view} onValueChange={(value) => setView(value as "open" | "resolved")}>
+          <TabsList className="grid w-full grid-cols-2 h-8">
+            <TabsTrigger value="open" className="text-xs">
+              Open
+            </TabsTrigger>
+            <TabsTrigger value="resolved" className="text-xs">
+              Resolved ({resolvedThreads.length})
+            </TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="max-h-[600px] overflow-y-auto divide-y divide-gray-100">
+        {pendingThread && (
+          <div className="p-4 bg-amber-50/60">
+            <p className="text-xs text-gray-500 border-l-2 border-amber-300 pl-2 mb-3 line-clamp-2">
+              {pendingThread.quote}
+            </p>
+            <CommentComposer
+              members={members}
+              placeholder="Add a comment. Use @ to mention someone."
+              submitLabel="Comment"
+              autoFocus
+              onSubmit={submitThread}
+              onCancel={cancelThread}
+            />
+          </div>
+        )}
+
+        {loading ? (
+          <div className="p-6 flex items-center justify-center text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : visibleThreads.length === 0 && !pendingThread ? (
+          <p className="p-6 text-sm text-gray-500 text-center">
+            {view === "open"
+              ? canComment
+                ? "Select text and click Comment to start a discussion."
+                : "No open discussions."
+              : "No resolved discussions."}
+          </p>
+        ) : (
+          visibleThreads.map((thread) => (
+            <div
+              key={thread.id}
+              id={`comment-thread-${thread.id}`}
+              className={cn("p-4 cursor-pointer", thread.id === activeThread ? "bg-amber-50/60" : "hover:bg-gray-50")}
+              onClick={() => focusThread(thread.id)}
+            >
+              <div className="flex items-start justify-between mb-2">
+                <p className="text-xs text-gray-500 border-l-2 border-amber-300 pl-2 line-clamp-2 flex-1">
+                  {thread.quote}
+                </p>
+                {canComment && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 px-2 ml-2 text-xs"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      toggleResolved(thread)
+                    }}
+                  >
+                    {thread.resolvedAt ? (
+                      <>
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        Reopen
+                      </>
+                    ) : (
+                      <>
+                        <CheckCircle2 className="h-3 w-3 mr-1 text-green-600" />
+                        Resolve
+                      </>
+                    )}
+                  </Button>
+                )}
+              </div>
+              {!anchors.has(thread.id) && (
+                <p className="text-xs italic text-gray-400 mb-2">The commented text was removed.</p>
+              )}
+
+              <div className="space-y-3">
+                {thread.comments.map((comment) => (
+                  <div key={comment.id} className="flex space-x-2">
+                    <Avatar className="h-6 w-6">
+                      <AvatarImage src={comment.author?.avatar || "/placeholder.svg"} alt={comment.author?.name} />
+                      <AvatarFallback className="text-[10px]">{comment.author?.name?.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium text-gray-900 truncate">
+                          {comment.author?.name || "Unknown"}
+                        </p>
+                        <p className="text-xs text-gray-400 shrink-0 ml-2">{comment.createdAt.toLocaleString()}</p>
+                      </div>
+                      <CommentBody body={comment.body} members={members} />
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {thread.resolvedAt && (
+                <p className="text-xs text-gray-400 mt-3">
+                  Resolved by {thread.resolvedBy?.name || "Unknown"} on {thread.resolvedAt.toLocaleString()}
+                </p>
+              )}
+
+              {canComment && !thread.resolvedAt && thread.id === activeThread && (
+                <div className="mt-3" onClick={(e) => e.stopPropagation()}>
+                  <CommentComposer
+                    members={members}
+                    placeholder="Reply..."
+                    submitLabel="Reply"
+                    onSubmit={(body, mentions) => reply(thread.id, body, mentions)}
+                  />
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </aside>
+  )
+}
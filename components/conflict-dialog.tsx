@@ -0,0 +1,178 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { DocumentDiff } from "@/components/document-diff"
+import { Columns2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { PAGE_SIZES, normalizePageSettings, type PageSettings } from "@/lib/page-layout"
+import type { DocumentConflict } from "@/lib/offline"
+
+// Text edits are merged through the collaboration log, so only the fields
+// stored on the document row itself can conflict
+export type ConflictField = "title" | "page_settings"
+
+export type ConflictSide = "mine" | "theirs"
+
+export type ConflictChoices = Partial<Record<ConflictField, ConflictSide>>
+
+export interface ConflictingDocument {
+  title: string
+  content: string
+  page_settings?: PageSettings | null
+}
+
+const FIELD_LABELS: Record<ConflictField, string> = {
+  title: "Title",
+  page_settings: "Page setup",
+}
+
+function describeField(field: ConflictField, document: Partial<ConflictingDocument>) {
+  if (field === "title") return document.title || "Untitled Document"
+
+  const settings = normalizePageSettings(document.page_settings)
+  const size = PAGE_SIZES[settings.size].label.split(" (")[0]
+  const layout = settings.layout === "paged" ? "Paged" : "Pageless"
+  return `${layout}, ${size}, ${settings.orientation}`
+}
+
+function sameValue(a: unknown, b: unknown) {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null)
+}
+
+// Fields the local changes set to something other than what is on the server
+export function conflictingFields(conflict: DocumentConflict<ConflictingDocument>): ConflictField[] {
+  return (Object.keys(FIELD_LABELS) as ConflictField[]).filter(
+    (field) => field in conflict.mine && !sameValue(conflict.mine[field], conflict.theirs[field]),
+  )
+}
+
+interface ConflictDialogProps {
+  conflict: DocumentConflict<ConflictingDocument> | null
+  // Which version of each conflicting field to keep
+  onResolve: (choices: ConflictChoices) => void
+}
+
+export function ConflictDialog({ conflict, onResolve }: ConflictDialogProps) {
+  const fields = useMemo(() => (conflict ? conflictingFields(conflict) : []), [conflict])
+  const [isMerging, setIsMerging] = useState(false)
+  const [choices, setChoices] = useState<ConflictChoices>({})
+
+  useEffect(() => {
+    setIsMerging(false)
+    setChoices({})
+  }, [conflict])
+
+  const chooseAll = (side: ConflictSide) => onResolve(Object.fromEntries(fields.map((field) => [field, side])))
+
+  const contentDiffers =
+    conflict && conflict.mine.content !== undefined && conflict.mine.content !== conflict.theirs.content
+
+  return (
+    <AlertDialog open={fields.length > 0}>
+      <AlertDialogContent className={cn(isMerging && "max-w-4xl")}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>This document was changed by someone else</AlertDialogTitle>
+          <AlertDialogDescription>
+            Your changes were based on an older version and have not been saved yet. Choose which version to keep.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {conflict && !isMerging && (
+          <div className="space-y-2">
+            {fields.map((field) => (
+              <div key={field} className="rounded-lg border border-gray-200 px-3 py-2 text-sm">
+                <p className="font-semibold text-gray-900">{FIELD_LABELS[field]}</p>
+                <p className="text-gray-600 truncate">Yours: {describeField(field, conflict.mine)}</p>
+                <p className="text-gray-600 truncate">Theirs: {describeField(field, conflict.theirs)}</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {conflict && isMerging && (
+          <div className="max-h-[60vh] overflow-y-auto space-y-4">
+            <div className="grid grid-cols-2 gap-3 text-xs font-semibold uppercase tracking-wide text-gray-500">
+              <span>Your version</span>
+              <span>Their version</span>
+            </div>
+            {fields.map((field) => (
+              <div key={field} className="space-y-1">
+                <p className="text-sm font-semibold text-gray-900">{FIELD_LABELS[field]}</p>
+                <div className="grid grid-cols-2 gap-3">
+                  {(["mine", "theirs"] as const).map((side) => (
+                    <button
+                      key={side}
+                      type="button"
+                      onClick={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+                      className={cn(
+                        "rounded-lg border px-3 py-2 text-left text-sm",
+                        (choices[field] ?? "mine") === side
+                          ? "border-blue-500 bg-blue-50 text-blue-900"
+                          : "border-gray-200 hover:bg-gray-50",
+                      )}
+                    >
+                      {describeField(field, conflict[side])}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+            {contentDiffers && (
+              <div className="space-y-1">
+                <p className="text-sm font-semibold text-gray-900">Content</p>
+                <p className="text-xs text-gray-500">
+                  Text edits from both versions are combined automatically through live collaboration.
+                </p>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="max-h-72 overflow-y-auto rounded-lg border border-gray-200 text-sm">
+                    <DocumentDiff before={conflict.theirs.content} after={conflict.mine.content!} />
+                  </div>
+                  <div className="max-h-72 overflow-y-auto rounded-lg border border-gray-200 text-sm">
+                    <DocumentDiff before={conflict.mine.content!} after={conflict.theirs.content} />
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          {isMerging ? (
+            <>
+              <Button variant="outline" onClick={() => setIsMerging(false)}>
+                Back
+              </Button>
+              <Button
+                onClick={() =>
+                  onResolve(Object.fromEntries(fields.map((field) => [field, choices[field] ?? "mine"])))
+                }
+              >
+                Save merged version
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="outline" onClick={() => setIsMerging(true)}>
+                <Columns2 className="h-4 w-4 mr-2" />
+                Merge side by side
+              </Button>
+              <Button variant="outline" onClick={() => chooseAll("theirs")}>
+                Take theirs
+              </Button>
+              <Button onClick={() => chooseAll("mine")}>Keep mine</Button>
+            </>
+          )}
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import type React from "react"
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarMenu,
+  SidebarMenuBadge,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarSeparator,
+} from "@/components/ui/sidebar"
+import { Clock, FileText, Star, Trash2, Users } from "lucide-react"
+
+export type DashboardView = "documents" | "shared" | "starred" | "recent" | "trash"
+
+export const VIEW_TITLES: Record<DashboardView, { title: string; description: string }> = {
+  documents: { title: "Your Documents", description: "Create and manage your documents" },
+  shared: { title: "Shared with me", description: "Documents others have invited you to" },
+  starred: { title: "Starred", description: "Documents you have starred for quick access" },
+  recent: { title: "Recently opened", description: "Documents you have opened lately" },
+  trash: { title: "Trash", description: "Deleted documents are removed for good after 30 days" },
+}
+
+const NAV_ITEMS: { view: DashboardView; label: string; icon: React.ElementType }[] = [
+  { view: "documents", label: "My documents", icon: FileText },
+  { view: "shared", label: "Shared with me", icon: Users },
+  { view: "starred", label: "Starred", icon: Star },
+  { view: "recent", label: "Recent", icon: Clock },
+]
+
+interface DashboardSidebarProps {
+  view: DashboardView
+  onViewChange: (view: DashboardView) => void
+  counts: Partial<Record<DashboardView, number>>
+}
+
+export function DashboardSidebar({ view, onViewChange, counts }: DashboardSidebarProps) {
+  const item = (target: DashboardView, label: string, Icon: React.ElementType) => (
+    <SidebarMenuItem key={target}>
+      <SidebarMenuButton isActive={view === target} onClick={() => onViewChange(target)}>
+        <Icon />
+        <span>{label}</span>
+      </SidebarMenuButton>
+      {counts[target] ? <SidebarMenuBadge>{counts[target]}</SidebarMenuBadge> : null}
+    </SidebarMenuItem>
+  )
+
+  return (
+    <Sidebar collapsible="none" className="w-60 shrink-0 border-r border-gray-200 bg-white">
+      <SidebarContent className="py-4">
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>{NAV_ITEMS.map((nav) => item(nav.view, nav.label, nav.icon))}</SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+        <SidebarSeparator />
+        <SidebarGroup>
+          <SidebarGroupContent>
+            <SidebarMenu>{item("trash", "Trash", Trash2)}</SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+    </Sidebar>
+  )
+}
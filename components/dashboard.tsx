@@ -1,8 +1,8 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { Fragment, useState, useEffect, useRef } from "react";
 import { motion } from "framer-motion";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import {
@@ -20,6 +20,39 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
+import { SidebarProvider } from "@/components/ui/sidebar";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import {
+  FolderNameDialog,
+  MoveToDialog,
+  ShareFolderDialog,
+} from "@/components/folder-dialogs";
+import {
+  DashboardSidebar,
+  VIEW_TITLES,
+  type DashboardView,
+} from "@/components/dashboard-sidebar";
+import { DocumentList } from "@/components/document-list";
+import { TemplatePickerDialog } from "@/components/template-dialogs";
+import { NotificationMenu } from "@/components/notification-menu";
 import { useAuth } from "@/components/auth-provider";
 import {
   FileText,
@@ -30,9 +63,49 @@ import {
   Edit,
   Clock,
   Users,
+  Eye,
+  Upload,
+  Loader2,
+  Folder as FolderIcon,
+  FolderPlus,
+  FolderInput,
+  Share2,
+  Pencil,
+  Star,
+  RotateCcw,
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/lib/supabase";
+import type { DocumentRole } from "@/lib/permissions";
+import { IMPORT_ACCEPT, importFile, isImportable } from "@/lib/import";
+import {
+  TRASH_RETENTION_DAYS,
+  isTrashExpired,
+  purgeDocument,
+  restoreDocument,
+  trashDocument,
+  trashExpiresAt,
+} from "@/lib/trash";
+import { fetchStarredIds, starDocument, unstarDocument } from "@/lib/stars";
+import { fillTemplate, type DocumentTemplate } from "@/lib/templates";
+import {
+  SEARCH_PAGE_SIZE,
+  searchDocuments,
+  type HighlightPart,
+  type SearchMatch,
+} from "@/lib/search";
+import {
+  createFolder,
+  deleteFolder,
+  fetchFolders,
+  folderPath,
+  folderSubtree,
+  moveDocument,
+  moveFolder,
+  renameFolder,
+  type Folder,
+} from "@/lib/folders";
+import { cn } from "@/lib/utils";
 
 interface Document {
   id: string;
@@ -42,13 +115,85 @@ interface Document {
   createdAt: Date;
   updatedAt: Date;
   collaborators: string[];
+  folder_id: string | null;
+  deleted_at?: string | null;
 }
 
+interface SharedDocument extends Document {
+  role: DocumentRole;
+  owner: { name: string; email: string; avatar?: string } | null;
+  lastOpenedAt: Date | null;
+  // The shared folder access comes from, if any
+  sharedFolder: { id: string; name: string } | null;
+}
+
+// Documents and folders dragged onto folder cards or breadcrumbs
+const DRAG_TYPE = "application/x-docuwrite-item";
+// Drop target key for the top level, which has no folder id
+const ROOT_FOLDER = "root";
+
+type DragItem = { kind: "document" | "folder"; id: string };
+
+function Highlighted({ parts }: { parts: HighlightPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+const contentPreview = (doc: Document) =>
+  doc.content
+    ? doc.content.replace(/<[^>]*>/g, "").substring(0, 100) + "..."
+    : "No content yet...";
+
 export function Dashboard() {
   const [documents, setDocuments] = useState<Document[]>([]);
+  const [sharedDocuments, setSharedDocuments] = useState<SharedDocument[]>([]);
+  const [trashedDocuments, setTrashedDocuments] = useState<Document[]>([]);
+  const [starredIds, setStarredIds] = useState<Set<string>>(new Set());
+  // When the user last opened each document
+  const [visits, setVisits] = useState<Map<string, Date>>(new Map());
+  const [view, setView] = useState<DashboardView>("documents");
+  // A trashed document, or every one of them, awaiting confirmation
+  const [purgeTarget, setPurgeTarget] = useState<Document | "all" | null>(
+    null
+  );
   const [searchQuery, setSearchQuery] = useState("");
+  // Null while not searching
+  const [searchMatches, setSearchMatches] = useState<SearchMatch[] | null>(
+    null
+  );
+  const [searchResults, setSearchResults] = useState<Document[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasMoreResults, setHasMoreResults] = useState(false);
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  // Narrows "Shared with me" to one shared folder, e.g. from a notification
+  const [sharedFolderId, setSharedFolderId] = useState<string | null>(null);
+  const [folderDialog, setFolderDialog] = useState<
+    { mode: "create" } | { mode: "rename"; folder: Folder } | null
+  >(null);
+  const [moveTarget, setMoveTarget] = useState<
+    { document: Document } | { folder: Folder } | null
+  >(null);
+  const [sharingFolder, setSharingFolder] = useState<Folder | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [isTemplatePickerOpen, setIsTemplatePickerOpen] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const { user, logout } = useAuth();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const { toast } = useToast();
 
   const fetchDocs = async () => {
@@ -59,7 +204,13 @@ export function Dashboard() {
       .order("updatedAt", { ascending: false });
 
     if (data) {
-      setDocuments(data);
+      const docs = data as Document[];
+      setDocuments(docs.filter((doc) => !doc.deleted_at));
+      setTrashedDocuments(
+        docs
+          .filter((doc) => doc.deleted_at && !isTrashExpired(doc.deleted_at))
+          .sort((a, b) => b.deleted_at!.localeCompare(a.deleted_at!))
+      );
     }
 
     if (error) {
@@ -70,66 +221,650 @@ export function Dashboard() {
     }
   };
 
+  const fetchStars = async () => {
+    try {
+      setStarredIds(await fetchStarredIds(user?.id || ""));
+    } catch (error: any) {
+      toast({
+        title: "Error Fetching Starred Documents",
+        description: error.message,
+      });
+    }
+  };
+
+  const fetchVisits = async () => {
+    // The presence heartbeat doubles as "last opened by me"
+    const { data, error } = await supabase
+      .from("document_presence")
+      .select("document_id, last_seen_at")
+      .eq("user_id", user?.id || "");
+
+    if (error) {
+      toast({
+        title: "Error Fetching Recent Documents",
+        description: error.message,
+      });
+      return;
+    }
+    setVisits(
+      new Map(
+        data.map((visit) => [visit.document_id, new Date(visit.last_seen_at)])
+      )
+    );
+  };
+
+  const fetchSharedDocs = async () => {
+    const { data, error } = await supabase
+      .from("document_permissions")
+      .select(
+        "role, document:documents(*), folder:folders!document_permissions_inherited_from_fkey(id, name)"
+      )
+      .eq("user_id", user?.id || "")
+      .neq("role", "owner");
+
+    if (error) {
+      toast({
+        title: "Error Fetching Shared Documents",
+        description: error.message,
+      });
+      return;
+    }
+
+    const rows = (
+      data as unknown as {
+        role: DocumentRole;
+        document: Document | null;
+        folder: { id: string; name: string } | null;
+      }[]
+    ).filter((row) => row.document);
+    const ownerIds = Array.from(
+      new Set(rows.map((row) => row.document!.owner_id))
+    );
+
+    const [{ data: owners }, { data: visits }] = await Promise.all([
+      supabase
+        .from("users_data")
+        .select("id, name, email, avatar")
+        .in("id", ownerIds),
+      // The presence heartbeat doubles as "last opened by me"
+      supabase
+        .from("document_presence")
+        .select("document_id, last_seen_at")
+        .eq("user_id", user?.id || ""),
+    ]);
+
+    setSharedDocuments(
+      rows
+        .map(({ role, document, folder }) => {
+          const owner = owners?.find((o) => o.id === document!.owner_id);
+          const visit = visits?.find((v) => v.document_id === document!.id);
+          return {
+            ...document!,
+            role,
+            owner: owner
+              ? { name: owner.name, email: owner.email, avatar: owner.avatar }
+              : null,
+            lastOpenedAt: visit ? new Date(visit.last_seen_at) : null,
+            sharedFolder: folder,
+          };
+        })
+        .sort(
+          (a, b) =>
+            new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+        )
+    );
+  };
+
+  const loadFolders = async () => {
+    try {
+      setFolders(await fetchFolders(user?.id || ""));
+    } catch (error: any) {
+      toast({
+        title: "Error Fetching Folders",
+        description: error.message,
+      });
+    }
+  };
+
   useEffect(() => {
     fetchDocs();
+    fetchSharedDocs();
+    loadFolders();
+    fetchStars();
+    fetchVisits();
   }, []);
 
-  const createDocument = async () => {
+  // Notifications link to "/?view=shared&folder=<id>"
+  useEffect(() => {
+    const requested = searchParams.get("view");
+    if (requested && requested in VIEW_TITLES) {
+      setView(requested as DashboardView);
+    }
+    setSharedFolderId(searchParams.get("folder"));
+  }, [searchParams]);
+
+  const clearSharedFolder = () => {
+    setSharedFolderId(null);
+    if (searchParams.has("folder")) router.replace("/");
+  };
+
+  const createDocument = async (template: DocumentTemplate) => {
+    const { title, content } = fillTemplate(template, user?.name || "");
     const { data, error } = await supabase
       .from("documents")
       .insert([
         {
           owner_id: user?.id || "",
-          title: "Untitle Document",
-          content: "",
+          title,
+          content,
           collaborators: [user?.id || ""],
+          folder_id: currentFolderId,
         },
       ])
       .select()
       .single();
 
+    if (error) {
+      toast({
+        title: "Error Ocurred",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
     fetchDocs();
+    toast({
+      title: "Document created",
+      description: "Your new document has been created successfully.",
+    });
+    router.push(`/doc/${data.id}`);
+  };
 
-    if (data) {
+  const importDocuments = async (files: File[]) => {
+    const supported = files.filter(isImportable);
+    const skipped = files.length - supported.length;
+    if (skipped > 0) {
       toast({
-        title: "Document created",
-        description: "Your new document has been created successfully.",
+        title: "Some files were skipped",
+        description: "Only .md, .html, .txt and .docx files can be imported.",
+        variant: "destructive",
       });
     }
+    if (supported.length === 0) return;
 
-    if (error) {
+    setIsImporting(true);
+    const created: string[] = [];
+    for (const file of supported) {
+      try {
+        const { title, content } = await importFile(file);
+        const { data, error } = await supabase
+          .from("documents")
+          .insert([
+            {
+              owner_id: user?.id || "",
+              title,
+              content,
+              collaborators: [user?.id || ""],
+              folder_id: currentFolderId,
+            },
+          ])
+          .select()
+          .single();
+
+        if (error) throw error;
+        created.push(data.id);
+      } catch (error: any) {
+        toast({
+          title: `Could not import ${file.name}`,
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    }
+    setIsImporting(false);
+
+    if (created.length === 0) return;
+    toast({
+      title: created.length === 1 ? "Document imported" : "Documents imported",
+      description:
+        created.length === 1
+          ? "Your file has been converted into a new document."
+          : `${created.length} files have been converted into new documents.`,
+    });
+
+    // A single import opens straight away, like a new document does
+    if (created.length === 1) {
+      router.push(`/doc/${created[0]}`);
+    } else {
+      fetchDocs();
+    }
+  };
+
+  const handleFileDrag = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    // Moving between cards fires dragleave on the way out of each one
+    if (
+      e.type === "dragleave" &&
+      e.currentTarget.contains(e.relatedTarget as Node | null)
+    ) {
+      return;
+    }
+    setIsDraggingFiles(e.type !== "dragleave");
+  };
+
+  const handleFileDrop = (e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    importDocuments(Array.from(e.dataTransfer.files));
+  };
+
+  const deleteDocument = async (doc: Document) => {
+    try {
+      await trashDocument(doc.id);
+    } catch (error: any) {
       toast({
-        title: "Error Ocurred",
+        title: "Error deleting document",
         description: error.message,
         variant: "destructive",
       });
+      return;
     }
 
-    router.push(`/doc/${data.id}`);
+    setDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+    setSearchResults((prev) => prev.filter((d) => d.id !== doc.id));
+    setTrashedDocuments((prev) => [
+      { ...doc, deleted_at: new Date().toISOString() },
+      ...prev,
+    ]);
+    toast({
+      title: "Moved to trash",
+      description: `"${doc.title}" will be deleted for good in ${TRASH_RETENTION_DAYS} days.`,
+      action: (
+        <ToastAction altText="Undo" onClick={() => restore(doc)}>
+          Undo
+        </ToastAction>
+      ),
+    });
   };
 
-  const deleteDocument = async (docId: string) => {
-    const { data, error } = await supabase
-      .from("documents")
-      .delete()
-      .eq("id", docId)
-      .select();
+  const restore = async (doc: Document) => {
+    try {
+      await restoreDocument(doc.id);
+    } catch (error: any) {
+      toast({
+        title: "Error restoring document",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
 
-    if (error) {
+    setTrashedDocuments((prev) => prev.filter((d) => d.id !== doc.id));
+    setDocuments((prev) =>
+      [{ ...doc, deleted_at: null }, ...prev.filter((d) => d.id !== doc.id)].sort(
+        (a, b) =>
+          new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime()
+      )
+    );
+    toast({
+      title: "Document restored",
+      description: `"${doc.title}" is back in your documents.`,
+    });
+  };
+
+  const purge = async (target: Document | "all") => {
+    const docs = target === "all" ? trashedDocuments : [target];
+    const purged: string[] = [];
+    for (const doc of docs) {
+      try {
+        await purgeDocument(doc.id);
+        purged.push(doc.id);
+      } catch (error: any) {
+        toast({
+          title: `Could not delete "${doc.title}"`,
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    }
+
+    setTrashedDocuments((prev) => prev.filter((d) => !purged.includes(d.id)));
+    if (purged.length === 0) return;
+    toast({
+      title: purged.length === 1 ? "Document deleted" : "Trash emptied",
+      description:
+        purged.length === 1
+          ? "The document has been permanently deleted."
+          : `${purged.length} documents have been permanently deleted.`,
+    });
+  };
+
+  const toggleStar = async (docId: string) => {
+    const starred = starredIds.has(docId);
+    const update = (add: boolean) =>
+      setStarredIds((prev) => {
+        const next = new Set(prev);
+        if (add) next.add(docId);
+        else next.delete(docId);
+        return next;
+      });
+
+    update(!starred);
+    try {
+      if (starred) await unstarDocument(user?.id || "", docId);
+      else await starDocument(user?.id || "", docId);
+    } catch (error: any) {
+      update(starred);
       toast({
-        title: "Error deleting document",
+        title: starred ? "Could not unstar" : "Could not star",
         description: error.message,
         variant: "destructive",
-      })
+      });
     }
+  };
+
+  const folderName = (folderId: string | null) =>
+    folders.find((folder) => folder.id === folderId)?.name ?? "My documents";
+
+  const saveFolder = async (name: string) => {
+    if (!folderDialog) return;
+    try {
+      if (folderDialog.mode === "create") {
+        const folder = await createFolder(
+          user?.id || "",
+          name,
+          currentFolderId
+        );
+        setFolders((prev) =>
+          [...prev, folder].sort((a, b) => a.name.localeCompare(b.name))
+        );
+      } else {
+        await renameFolder(folderDialog.folder.id, name);
+        setFolders((prev) =>
+          prev.map((folder) =>
+            folder.id === folderDialog.folder.id
+              ? { ...folder, name: name.trim() }
+              : folder
+          )
+        );
+      }
+    } catch (error: any) {
+      toast({
+        title:
+          folderDialog.mode === "create"
+            ? "Could not create folder"
+            : "Could not rename folder",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const removeFolder = async (folder: Folder) => {
+    try {
+      await deleteFolder(folder.id);
+    } catch (error: any) {
+      toast({
+        title: "Error deleting folder",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (
+      currentFolderId &&
+      folderSubtree(folders, folder.id).has(currentFolderId)
+    ) {
+      setCurrentFolderId(folder.parentId);
+    }
+    // Documents inside were moved to the top level by the database
+    loadFolders();
+    fetchDocs();
     toast({
-      title: "Document deleted",
-      description: "The document has been permanently deleted.",
+      title: "Folder deleted",
+      description: "Documents in it were moved to My documents.",
     });
   };
 
-  const filteredDocuments = documents.filter((doc) =>
-    doc.title.toLowerCase().includes(searchQuery.toLowerCase())
+  const moveItem = async (item: DragItem, folderId: string | null) => {
+    try {
+      if (item.kind === "document") {
+        const doc = documents.find((d) => d.id === item.id);
+        if (!doc || (doc.folder_id ?? null) === folderId) return;
+        await moveDocument(item.id, folderId);
+        setDocuments((prev) =>
+          prev.map((d) => (d.id === item.id ? { ...d, folder_id: folderId } : d))
+        );
+      } else {
+        const folder = folders.find((f) => f.id === item.id);
+        if (!folder || folder.parentId === folderId) return;
+        if (folderId && folderSubtree(folders, item.id).has(folderId)) {
+          throw new Error("A folder cannot be moved into itself.");
+        }
+        await moveFolder(item.id, folderId);
+        setFolders((prev) =>
+          prev.map((f) => (f.id === item.id ? { ...f, parentId: folderId } : f))
+        );
+      }
+      toast({
+        title: "Moved",
+        description: `Moved to ${folderName(folderId)}.`,
+      });
+    } catch (error: any) {
+      toast({
+        title: "Could not move",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startItemDrag = (e: React.DragEvent, item: DragItem) => {
+    e.dataTransfer.setData(DRAG_TYPE, JSON.stringify(item));
+    e.dataTransfer.effectAllowed = "move";
+  };
+
+  // Drop handlers for a folder card or breadcrumb; null is the top level
+  const folderDropProps = (folderId: string | null) => {
+    const key = folderId ?? ROOT_FOLDER;
+    return {
+      onDragOver: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        e.dataTransfer.dropEffect = "move";
+        setDropTarget(key);
+      },
+      onDragLeave: (e: React.DragEvent) => {
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+        setDropTarget((prev) => (prev === key ? null : prev));
+      },
+      onDrop: (e: React.DragEvent) => {
+        if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+        e.preventDefault();
+        setDropTarget(null);
+        moveItem(JSON.parse(e.dataTransfer.getData(DRAG_TYPE)), folderId);
+      },
+    };
+  };
+
+  // Fetches one page of matches and the documents they point to
+  const runSearch = async (query: string, offset: number) => {
+    const matches = await searchDocuments(query, offset);
+    const ids = matches.map((match) => match.id);
+    const { data, error } = ids.length
+      ? await supabase.from("documents").select().in("id", ids)
+      : { data: [], error: null };
+
+    if (error) throw error;
+    return {
+      matches,
+      documents: ids
+        .map((id) => (data as Document[]).find((doc) => doc.id === id))
+        .filter((doc): doc is Document => !!doc),
+    };
+  };
+
+  useEffect(() => {
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchMatches(null);
+      setSearchResults([]);
+      setHasMoreResults(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const { matches, documents } = await runSearch(query, 0);
+        if (cancelled) return;
+        setSearchMatches(matches);
+        setSearchResults(documents);
+        setHasMoreResults(matches.length === SEARCH_PAGE_SIZE);
+      } catch (error: any) {
+        if (cancelled) return;
+        toast({
+          title: "Search failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [searchQuery]);
+
+  const loadMoreResults = async () => {
+    if (!searchMatches) return;
+    setIsSearching(true);
+    try {
+      const { matches, documents } = await runSearch(
+        searchQuery.trim(),
+        searchMatches.length
+      );
+      setSearchMatches([...searchMatches, ...matches]);
+      setSearchResults((prev) => [...prev, ...documents]);
+      setHasMoreResults(matches.length === SEARCH_PAGE_SIZE);
+    } catch (error: any) {
+      toast({
+        title: "Search failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const matchFor = (doc: Document) =>
+    searchMatches?.find((match) => match.id === doc.id);
+
+  // Search results come ranked from the server and span every document the
+  // user can read, not just the ones loaded here
+  const filteredDocuments = searchMatches
+    ? searchResults.filter((doc) => doc.owner_id === user?.id)
+    : documents.filter((doc) => (doc.folder_id ?? null) === currentFolderId);
+  // Folders are browsed one level at a time and hidden while searching
+  const visibleFolders = searchMatches
+    ? []
+    : folders.filter((folder) => folder.parentId === currentFolderId);
+  const currentPath = folderPath(folders, currentFolderId);
+  const itemCount = (folderId: string) =>
+    folders.filter((folder) => folder.parentId === folderId).length +
+    documents.filter((doc) => doc.folder_id === folderId).length;
+  const filteredSharedDocuments: SharedDocument[] = searchMatches
+    ? searchResults
+        .filter((doc) => doc.owner_id !== user?.id)
+        .map((doc) => {
+          const shared = sharedDocuments.find((s) => s.id === doc.id);
+          return {
+            ...doc,
+            role: shared?.role ?? "viewer",
+            owner: shared?.owner ?? null,
+            lastOpenedAt: shared?.lastOpenedAt ?? null,
+            sharedFolder: shared?.sharedFolder ?? null,
+          };
+        })
+    : sharedFolderId
+      ? sharedDocuments.filter((doc) => doc.sharedFolder?.id === sharedFolderId)
+      : sharedDocuments;
+  const sharedFolderName = sharedDocuments.find(
+    (doc) => doc.sharedFolder?.id === sharedFolderId
+  )?.sharedFolder?.name;
+
+  const matchesTitle = (doc: Document) =>
+    doc.title.toLowerCase().includes(searchQuery.trim().toLowerCase());
+  const readableDocuments: Document[] = [...documents, ...sharedDocuments];
+  const starredDocuments = readableDocuments
+    .filter((doc) => starredIds.has(doc.id))
+    .filter(matchesTitle);
+  const recentDocuments = readableDocuments
+    .filter((doc) => visits.has(doc.id))
+    .filter(matchesTitle)
+    .sort(
+      (a, b) => visits.get(b.id)!.getTime() - visits.get(a.id)!.getTime()
+    )
+    .slice(0, 20);
+  const filteredTrashedDocuments = trashedDocuments.filter(matchesTitle);
+
+  const starButton = (docId: string) => {
+    const starred = starredIds.has(docId);
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-8 w-8 p-0 shrink-0"
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleStar(docId);
+        }}
+        title={starred ? "Remove from Starred" : "Add to Starred"}
+      >
+        <Star
+          className={cn(
+            "h-4 w-4",
+            starred ? "fill-yellow-400 text-yellow-500" : "text-gray-400"
+          )}
+        />
+      </Button>
+    );
+  };
+
+  const renderTitle = (doc: Document) => {
+    const match = matchFor(doc);
+    return match ? <Highlighted parts={match.title} /> : doc.title;
+  };
+
+  const renderPreview = (doc: Document) => {
+    const match = matchFor(doc);
+    return match?.snippet.length ? (
+      <Highlighted parts={match.snippet} />
+    ) : (
+      contentPreview(doc)
+    );
+  };
+
+  const loadMoreButton = hasMoreResults && (
+    <div className="flex justify-center mt-8">
+      <Button
+        variant="outline"
+        onClick={loadMoreResults}
+        disabled={isSearching}
+      >
+        {isSearching && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+        Show more results
+      </Button>
+    </div>
   );
 
   const formatDate = (date: Date) => {
@@ -168,15 +903,22 @@ export function Dashboard() {
 
           <div className="flex items-center space-x-4">
             <div className="relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              {isSearching ? (
+                <Loader2 className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4 animate-spin" />
+              ) : (
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+              )}
               <Input
                 placeholder="Search documents..."
+                title={'Use "quotes" for phrases and -word to exclude a word'}
                 value={searchQuery}
                 onChange={(e) => setSearchQuery(e.target.value)}
                 className="pl-10 w-64"
               />
             </div>
 
+            <NotificationMenu userId={user?.id} />
+
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
                 <Button
@@ -210,129 +952,625 @@ export function Dashboard() {
         </div>
       </header>
 
-      {/* Main Content */}
-      <main className="max-w-7xl mx-auto px-6 py-8">
-        <div className="flex items-center justify-between mb-8">
-          <div>
-            <h2 className="text-3xl font-bold text-gray-900">Your Documents</h2>
-            <p className="text-gray-600 mt-1">
-              Create and manage your documents
-            </p>
-          </div>
-          <Button
-            onClick={createDocument}
-            className="flex items-center space-x-2"
-          >
-            <Plus className="h-4 w-4" />
-            <span>New Document</span>
-          </Button>
-        </div>
+      <SidebarProvider className="min-h-0">
+        <DashboardSidebar
+          view={view}
+          onViewChange={(next) => {
+            setView(next);
+            clearSharedFolder();
+          }}
+          counts={{
+            shared: sharedDocuments.length,
+            starred: starredDocuments.length,
+            trash: trashedDocuments.length,
+          }}
+        />
 
-        {/* Documents Grid */}
-        {filteredDocuments.length === 0 ? (
-          <motion.div
-            initial={{ opacity: 0, y: 20 }}
-            animate={{ opacity: 1, y: 0 }}
-            className="text-center py-12"
-          >
-            <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
-            <h3 className="text-xl font-semibold text-gray-900 mb-2">
-              {searchQuery ? "No documents found" : "No documents yet"}
-            </h3>
-            <p className="text-gray-600 mb-6">
-              {searchQuery
-                ? "Try adjusting your search terms"
-                : "Create your first document to get started"}
-            </p>
-            {!searchQuery && (
-              <Button onClick={createDocument}>
-                <Plus className="h-4 w-4 mr-2" />
-                Create Document
-              </Button>
-            )}
-          </motion.div>
-        ) : (
-          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {filteredDocuments.map((doc, index) => (
-              <motion.div
-                key={doc.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: index * 0.1 }}
+        {/* Main Content */}
+        <main className="flex-1 min-w-0 px-6 py-8">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex items-center justify-between mb-8">
+              <div>
+                <h2 className="text-3xl font-bold text-gray-900">
+                  {VIEW_TITLES[view].title}
+                </h2>
+                <p className="text-gray-600 mt-1">
+                  {VIEW_TITLES[view].description}
+                </p>
+              </div>
+              {view === "trash" ? (
+                <Button
+                  variant="outline"
+                  onClick={() => setPurgeTarget("all")}
+                  disabled={trashedDocuments.length === 0}
+                  className="flex items-center space-x-2 text-red-600"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Empty Trash</span>
+                </Button>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={IMPORT_ACCEPT}
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      importDocuments(Array.from(e.target.files || []));
+                      e.target.value = "";
+                    }}
+                  />
+                  {view === "documents" && (
+                    <Button
+                      variant="outline"
+                      onClick={() => setFolderDialog({ mode: "create" })}
+                      className="flex items-center space-x-2"
+                    >
+                      <FolderPlus className="h-4 w-4" />
+                      <span>New Folder</span>
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={isImporting}
+                    className="flex items-center space-x-2"
+                  >
+                    {isImporting ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Upload className="h-4 w-4" />
+                    )}
+                    <span>Import</span>
+                  </Button>
+                  <Button
+                    onClick={() => setIsTemplatePickerOpen(true)}
+                    className="flex items-center space-x-2"
+                  >
+                    <Plus className="h-4 w-4" />
+                    <span>New Document</span>
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {view === "documents" && (
+              <div
+                className="relative"
+                onDragEnter={handleFileDrag}
+                onDragOver={handleFileDrag}
+                onDragLeave={handleFileDrag}
+                onDrop={handleFileDrop}
               >
-                <Card className="hover:shadow-lg transition-shadow cursor-pointer group">
-                  <CardHeader className="pb-3">
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1 min-w-0">
-                        <CardTitle
-                          className="text-lg font-semibold truncate group-hover:text-blue-600 transition-colors"
-                          onClick={() => router.push(`/doc/${doc.id}`)}
+                {isDraggingFiles && (
+                  <div className="absolute inset-0 z-10 flex flex-col items-center justify-center rounded-xl border-2 border-dashed border-blue-400 bg-blue-50/80 pointer-events-none">
+                    <Upload className="h-10 w-10 text-blue-500 mb-2" />
+                    <p className="font-medium text-blue-700">
+                      Drop files to import them as new documents
+                    </p>
+                    <p className="text-sm text-blue-600">
+                      Markdown, HTML, plain text or Word (.docx)
+                    </p>
+                  </div>
+                )}
+                {!searchMatches && (
+                  <Breadcrumb className="mb-6">
+                    <BreadcrumbList>
+                      {[null, ...currentPath].map((folder, index) => {
+                        const folderId = folder?.id ?? null;
+                        const name = folder?.name ?? "My documents";
+                        return (
+                          <Fragment key={folderId ?? ROOT_FOLDER}>
+                            {index > 0 && <BreadcrumbSeparator />}
+                            <BreadcrumbItem>
+                              {folderId === currentFolderId ? (
+                                <BreadcrumbPage>{name}</BreadcrumbPage>
+                              ) : (
+                                <BreadcrumbLink asChild>
+                                  <button
+                                    onClick={() => setCurrentFolderId(folderId)}
+                                    className={cn(
+                                      "rounded px-1",
+                                      dropTarget === (folderId ?? ROOT_FOLDER) &&
+                                        "bg-blue-100 text-blue-700"
+                                    )}
+                                    {...folderDropProps(folderId)}
+                                  >
+                                    {name}
+                                  </button>
+                                </BreadcrumbLink>
+                              )}
+                            </BreadcrumbItem>
+                          </Fragment>
+                        );
+                      })}
+                    </BreadcrumbList>
+                  </Breadcrumb>
+                )}
+                {/* Documents Grid */}
+                {filteredDocuments.length === 0 && visibleFolders.length === 0 ? (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="text-center py-12"
+                  >
+                    <FileText className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                      {searchQuery
+                        ? "No documents found"
+                        : currentFolderId
+                        ? "This folder is empty"
+                        : "No documents yet"}
+                    </h3>
+                    <p className="text-gray-600 mb-6">
+                      {searchQuery
+                        ? "Try adjusting your search terms"
+                        : currentFolderId
+                        ? "Create a document here or drag one in from another folder"
+                        : "Create your first document to get started"}
+                    </p>
+                    {!searchQuery && (
+                      <Button onClick={() => setIsTemplatePickerOpen(true)}>
+                        <Plus className="h-4 w-4 mr-2" />
+                        Create Document
+                      </Button>
+                    )}
+                  </motion.div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                    {visibleFolders.map((folder) => (
+                      <Card
+                        key={folder.id}
+                        draggable
+                        onDragStart={(e) =>
+                          startItemDrag(e, { kind: "folder", id: folder.id })
+                        }
+                        {...folderDropProps(folder.id)}
+                        onClick={() => setCurrentFolderId(folder.id)}
+                        className={cn(
+                          "hover:shadow-lg transition-shadow cursor-pointer group self-start",
+                          dropTarget === folder.id && "ring-2 ring-blue-500 bg-blue-50"
+                        )}
+                      >
+                        <CardContent className="flex items-center justify-between p-4">
+                          <div className="flex items-center space-x-3 min-w-0">
+                            <FolderIcon className="h-8 w-8 shrink-0 text-blue-500" />
+                            <div className="min-w-0">
+                              <p className="font-semibold truncate group-hover:text-blue-600 transition-colors">
+                                {folder.name}
+                              </p>
+                              <p className="text-xs text-gray-500">
+                                {itemCount(folder.id)} items
+                              </p>
+                            </div>
+                          </div>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger
+                              asChild
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-8 w-8 p-0"
+                              >
+                                <MoreVertical className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent
+                              align="end"
+                              onClick={(e) => e.stopPropagation()}
+                            >
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  setFolderDialog({ mode: "rename", folder })
+                                }
+                              >
+                                <Pencil className="h-4 w-4 mr-2" />
+                                Rename
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setSharingFolder(folder)}
+                              >
+                                <Share2 className="h-4 w-4 mr-2" />
+                                Share
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => setMoveTarget({ folder })}
+                              >
+                                <FolderInput className="h-4 w-4 mr-2" />
+                                Move to
+                              </DropdownMenuItem>
+                              <DropdownMenuItem
+                                onClick={() => removeFolder(folder)}
+                                className="text-red-600"
+                              >
+                                <Trash2 className="h-4 w-4 mr-2" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </CardContent>
+                      </Card>
+                    ))}
+                    {filteredDocuments.map((doc, index) => (
+                      <motion.div
+                        key={doc.id}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: index * 0.1 }}
+                      >
+                        <Card
+                          draggable
+                          onDragStart={(e) =>
+                            startItemDrag(e, { kind: "document", id: doc.id })
+                          }
+                          className="hover:shadow-lg transition-shadow cursor-pointer group"
                         >
-                          {doc.title}
-                        </CardTitle>
-                        <CardDescription className="flex items-center space-x-2 mt-2">
-                          <Clock className="h-3 w-3" />
-                          <span>{formatDate(doc.updatedAt)}</span>
-                        </CardDescription>
-                      </div>
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="h-8 w-8 p-0"
-                          >
-                            <MoreVertical className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem
-                            onClick={() => router.push(`/doc/${doc.id}`)}
-                          >
-                            <Edit className="h-4 w-4 mr-2" />
-                            Edit
-                          </DropdownMenuItem>
-                          <DropdownMenuItem
-                            onClick={() => deleteDocument(doc.id)}
-                            className="text-red-600"
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </div>
-                  </CardHeader>
-                  <CardContent>
-                    <div
-                      className="text-sm text-gray-600 line-clamp-3 mb-4"
-                      onClick={() => router.push(`/doc/${doc.id}`)}
+                          <CardHeader className="pb-3">
+                            <div className="flex items-start justify-between">
+                              <div className="flex-1 min-w-0">
+                                <CardTitle
+                                  className="text-lg font-semibold truncate group-hover:text-blue-600 transition-colors"
+                                  onClick={() => router.push(`/doc/${doc.id}`)}
+                                >
+                                  {renderTitle(doc)}
+                                </CardTitle>
+                                <CardDescription className="flex items-center space-x-2 mt-2">
+                                  <Clock className="h-3 w-3" />
+                                  <span>{formatDate(doc.updatedAt)}</span>
+                                </CardDescription>
+                              </div>
+                              {starButton(doc.id)}
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    className="h-8 w-8 p-0"
+                                  >
+                                    <MoreVertical className="h-4 w-4" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem
+                                    onClick={() => router.push(`/doc/${doc.id}`)}
+                                  >
+                                    <Edit className="h-4 w-4 mr-2" />
+                                    Edit
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => setMoveTarget({ document: doc })}
+                                  >
+                                    <FolderInput className="h-4 w-4 mr-2" />
+                                    Move to
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => deleteDocument(doc)}
+                                    className="text-red-600"
+                                  >
+                                    <Trash2 className="h-4 w-4 mr-2" />
+                                    Delete
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            </div>
+                          </CardHeader>
+                          <CardContent>
+                            <div
+                              className="text-sm text-gray-600 line-clamp-3 mb-4"
+                              onClick={() => router.push(`/doc/${doc.id}`)}
+                            >
+                              {renderPreview(doc)}
+                            </div>
+                            <div className="flex items-center justify-between">
+                              <Badge
+                                variant="secondary"
+                                className="flex items-center space-x-1"
+                              >
+                                <Users className="h-3 w-3" />
+                                <span>{doc.collaborators.length}</span>
+                              </Badge>
+                              <div className="text-xs text-gray-500">
+                                {doc.content.length} characters
+                              </div>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      </motion.div>
+                    ))}
+                  </div>
+                )}
+                {loadMoreButton}
+              </div>
+            )}
+
+            {view === "shared" && (
+              <div>
+                {sharedFolderId && !searchMatches && (
+                  <div className="flex items-center justify-between mb-4 px-4 py-2 rounded-lg bg-blue-50 text-sm text-blue-900">
+                    <span className="flex items-center space-x-2">
+                      <FolderIcon className="h-4 w-4" />
+                      <span>
+                        Shared through the folder{" "}
+                        <strong>{sharedFolderName || "Untitled folder"}</strong>
+                      </span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-7"
+                      onClick={clearSharedFolder}
                     >
-                      {doc.content
-                        ? doc.content
-                            .replace(/<[^>]*>/g, "")
-                            .substring(0, 100) + "..."
-                        : "No content yet..."}
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <Badge
-                        variant="secondary"
-                        className="flex items-center space-x-1"
+                      Show all
+                    </Button>
+                  </div>
+                )}
+                {filteredSharedDocuments.length === 0 ? (
+                  <motion.div
+                    initial={{ opacity: 0, y: 20 }}
+                    animate={{ opacity: 1, y: 0 }}
+                    className="text-center py-12"
+                  >
+                    <Users className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold text-gray-900 mb-2">
+                      {searchQuery
+                        ? "No documents found"
+                        : "Nothing shared with you yet"}
+                    </h3>
+                    <p className="text-gray-600">
+                      {searchQuery
+                        ? "Try adjusting your search terms"
+                        : "Documents others invite you to will show up here"}
+                    </p>
+                  </motion.div>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+                    {filteredSharedDocuments.map((doc, index) => (
+                      <motion.div
+                        key={doc.id}
+                        initial={{ opacity: 0, y: 20 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: index * 0.1 }}
+                      >
+                        <Card
+                          className="hover:shadow-lg transition-shadow cursor-pointer group"
+                          onClick={() => router.push(`/doc/${doc.id}`)}
+                        >
+                          <CardHeader className="pb-3">
+                            <div className="flex items-start justify-between">
+                              <div className="flex-1 min-w-0">
+                                <CardTitle className="text-lg font-semibold truncate group-hover:text-blue-600 transition-colors">
+                                  {renderTitle(doc)}
+                                </CardTitle>
+                                <CardDescription className="flex items-center space-x-2 mt-2">
+                                  <Clock className="h-3 w-3" />
+                                  <span>
+                                    {doc.lastOpenedAt
+                                      ? `Opened ${formatDate(doc.lastOpenedAt)}`
+                                      : "Never opened"}
+                                  </span>
+                                </CardDescription>
+                              </div>
+                              {starButton(doc.id)}
+                              <Badge
+                                variant="outline"
+                                className="flex items-center space-x-1 capitalize"
+                              >
+                                {doc.role === "viewer" ? (
+                                  <Eye className="h-3 w-3" />
+                                ) : (
+                                  <Edit className="h-3 w-3" />
+                                )}
+                                <span>{doc.role}</span>
+                              </Badge>
+                            </div>
+                          </CardHeader>
+                          <CardContent>
+                            <div className="text-sm text-gray-600 line-clamp-3 mb-4">
+                              {renderPreview(doc)}
+                            </div>
+                            <div className="flex items-center justify-between">
+                              <div className="flex items-center space-x-2 min-w-0">
+                                <Avatar className="h-6 w-6">
+                                  <AvatarImage
+                                    src={doc.owner?.avatar || "/placeholder.svg"}
+                                    alt={doc.owner?.name}
+                                  />
+                                  <AvatarFallback className="text-xs">
+                                    {doc.owner?.name?.charAt(0)}
+                                  </AvatarFallback>
+                                </Avatar>
+                                <span className="text-xs text-gray-500 truncate">
+                                  {doc.owner?.name || "Unknown owner"}
+                                </span>
+                              </div>
+                              <div className="text-xs text-gray-500 shrink-0">
+                                Edited {formatDate(doc.updatedAt)}
+                              </div>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      </motion.div>
+                    ))}
+                  </div>
+                )}
+                {loadMoreButton}
+              </div>
+            )}
+
+            {view === "starred" && (
+              <DocumentList
+                items={starredDocuments.map((doc) => ({
+                  id: doc.id,
+                  title: doc.title,
+                  detail: `Edited ${formatDate(doc.updatedAt)}`,
+                }))}
+                onOpen={(id) => router.push(`/doc/${id}`)}
+                actions={(id) => starButton(id)}
+                empty={{
+                  icon: Star,
+                  title: searchQuery ? "No documents found" : "Nothing starred yet",
+                  description: searchQuery
+                    ? "Try adjusting your search terms"
+                    : "Star documents to keep them one click away",
+                }}
+              />
+            )}
+
+            {view === "recent" && (
+              <DocumentList
+                items={recentDocuments.map((doc) => ({
+                  id: doc.id,
+                  title: doc.title,
+                  detail: `Opened ${formatDate(visits.get(doc.id)!)}`,
+                }))}
+                onOpen={(id) => router.push(`/doc/${id}`)}
+                actions={(id) => starButton(id)}
+                empty={{
+                  icon: Clock,
+                  title: searchQuery ? "No documents found" : "Nothing opened yet",
+                  description: searchQuery
+                    ? "Try adjusting your search terms"
+                    : "Documents you open will show up here",
+                }}
+              />
+            )}
+
+            {view === "trash" && (
+              <DocumentList
+                items={filteredTrashedDocuments.map((doc) => ({
+                  id: doc.id,
+                  title: doc.title,
+                  detail: `Deleted ${formatDate(
+                    new Date(doc.deleted_at!)
+                  )} · removed for good on ${trashExpiresAt(
+                    doc.deleted_at!
+                  ).toLocaleDateString()}`,
+                }))}
+                actions={(id) => {
+                  const doc = trashedDocuments.find((d) => d.id === id)!;
+                  return (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => restore(doc)}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setPurgeTarget(doc)}
+                        className="text-red-600 hover:text-red-700"
                       >
-                        <Users className="h-3 w-3" />
-                        <span>{doc.collaborators.length}</span>
-                      </Badge>
-                      <div className="text-xs text-gray-500">
-                        {doc.content.length} characters
-                      </div>
-                    </div>
-                  </CardContent>
-                </Card>
-              </motion.div>
-            ))}
+                        <Trash2 className="h-4 w-4 mr-2" />
+                        Delete forever
+                      </Button>
+                    </>
+                  );
+                }}
+                empty={{
+                  icon: Trash2,
+                  title: searchQuery ? "No documents found" : "Trash is empty",
+                  description: searchQuery
+                    ? "Try adjusting your search terms"
+                    : `Deleted documents stay here for ${TRASH_RETENTION_DAYS} days`,
+                }}
+              />
+            )}
           </div>
-        )}
-      </main>
+        </main>
+      </SidebarProvider>
+
+      <AlertDialog
+        open={purgeTarget !== null}
+        onOpenChange={(open) => !open && setPurgeTarget(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {purgeTarget === "all"
+                ? "Empty the trash?"
+                : `Delete "${purgeTarget?.title}" forever?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {purgeTarget === "all"
+                ? `All ${trashedDocuments.length} documents in the trash and their attachments will be permanently deleted.`
+                : "The document and its attachments will be permanently deleted."}{" "}
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgeTarget && purge(purgeTarget)}
+              className="bg-red-600 hover:bg-red-700"
+            >
+              Delete forever
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <FolderNameDialog
+        open={folderDialog !== null}
+        onOpenChange={(open) => !open && setFolderDialog(null)}
+        title={folderDialog?.mode === "rename" ? "Rename folder" : "New folder"}
+        initialName={
+          folderDialog?.mode === "rename" ? folderDialog.folder.name : ""
+        }
+        submitLabel={folderDialog?.mode === "rename" ? "Rename" : "Create"}
+        onSubmit={saveFolder}
+      />
+      <MoveToDialog
+        open={moveTarget !== null}
+        onOpenChange={(open) => !open && setMoveTarget(null)}
+        itemName={
+          moveTarget
+            ? "document" in moveTarget
+              ? moveTarget.document.title
+              : moveTarget.folder.name
+            : ""
+        }
+        folders={folders}
+        currentFolderId={
+          moveTarget
+            ? "document" in moveTarget
+              ? moveTarget.document.folder_id ?? null
+              : moveTarget.folder.parentId
+            : null
+        }
+        excludedIds={
+          moveTarget && "folder" in moveTarget
+            ? folderSubtree(folders, moveTarget.folder.id)
+            : undefined
+        }
+        onMove={(folderId) =>
+          moveTarget
+            ? moveItem(
+                "document" in moveTarget
+                  ? { kind: "document", id: moveTarget.document.id }
+                  : { kind: "folder", id: moveTarget.folder.id },
+                folderId
+              )
+            : Promise.resolve()
+        }
+      />
+      <ShareFolderDialog
+        folder={sharingFolder}
+        onOpenChange={(open) => !open && setSharingFolder(null)}
+      />
+
+      <TemplatePickerDialog
+        open={isTemplatePickerOpen}
+        onOpenChange={setIsTemplatePickerOpen}
+        userId={user?.id || ""}
+        onCreate={createDocument}
+      />
     </div>
   );
 }
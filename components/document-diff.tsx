@@ -0,0 +1,165 @@
+"use client"
+
+import type React from "react"
+import { memo, useMemo } from "react"
+import { diffDocuments, countChanges, type DiffBlock, type DiffSegment } from "@/lib/document-diff"
+import { cn } from "@/lib/utils"
+
+interface DocumentDiffProps {
+  before: string
+  after: string
+}
+
+const CHANGE_CLASSES = {
+  equal: "",
+  inserted: "bg-green-100 text-green-900 underline decoration-green-500",
+  deleted: "bg-red-100 text-red-800 line-through decoration-red-500",
+}
+
+const HEADING_CLASSES: Record<number, string> = {
+  1: "text-3xl my-4",
+  2: "text-2xl my-3",
+  3: "text-xl my-2",
+}
+
+const BLOCK_CLASSES = {
+  equal: "border-transparent",
+  inserted: "border-green-400 bg-green-50/60",
+  deleted: "border-red-400 bg-red-50/60",
+  modified: "border-amber-300",
+}
+
+function renderSegment(segment: DiffSegment, index: number) {
+  let node: React.ReactNode = segment.text
+  for (const mark of segment.marks) {
+    if (mark.type === "bold") node = <strong>{node}</strong>
+    else if (mark.type === "italic") node = <em>{node}</em>
+    else if (mark.type === "underline") node = <u>{node}</u>
+    else if (mark.type === "strike") node = <s>{node}</s>
+    else if (mark.type === "code") node = <code>{node}</code>
+  }
+
+  return (
+    <span key={index} className={cn("whitespace-pre-wrap rounded-sm", CHANGE_CLASSES[segment.change])}>
+      {node}
+    </span>
+  )
+}
+
+function ListMarker({ block }: { block: DiffBlock }) {
+  const item = [...block.containers].reverse().find((c) => c.type === "listItem")
+  const list = [...block.containers].reverse().find((c) => c.type === "bulletList" || c.type === "orderedList")
+  if (!item || !list || !block.leading || block.containers[block.containers.length - 1] !== item) return null
+
+  return (
+    <span className="absolute -left-5 text-gray-500 select-none">
+      {list.type === "orderedList" ? `${item.index + 1}.` : "•"}
+    </span>
+  )
+}
+
+function DiffBlockView({ block }: { block: DiffBlock }) {
+  const depth = block.containers.filter((c) => c.type === "listItem").length
+  const quoted = block.containers.some((c) => c.type === "blockquote")
+  // Table cells are shown one after another, each boxed
+  const cell = [...block.containers].reverse().find((c) => c.type === "tableCell" || c.type === "tableHeader")
+  const style = { textAlign: block.attrs.textAlign as React.CSSProperties["textAlign"] }
+  const content = block.segments.map(renderSegment)
+
+  let element: React.ReactNode
+  if (block.type === "heading") {
+    const level = block.attrs.level || 1
+    const Tag = `h${level}` as "h1" | "h2" | "h3"
+    element = (
+      <Tag style={style} className={cn("font-bold leading-tight", HEADING_CLASSES[level])}>
+        {content}
+      </Tag>
+    )
+  } else if (block.type === "codeBlock") {
+    element = (
+      <pre className="bg-gray-100 rounded-lg p-4 my-2 overflow-x-auto font-mono text-sm">
+        <code>{content}</code>
+      </pre>
+    )
+  } else if (block.type === "horizontalRule") {
+    element = <hr className="my-4" />
+  } else if (block.type === "pageBreak") {
+    element = (
+      <div className="my-4 border-t border-dashed border-gray-400 text-center">
+        <span className="relative -top-2.5 bg-white px-2 text-[10px] uppercase tracking-wider text-gray-400">
+          Page break
+        </span>
+      </div>
+    )
+  } else if (block.type === "tableOfContents") {
+    element = (
+      <div className="my-4 rounded-lg border border-gray-200 bg-gray-50 px-4 py-2 text-sm text-gray-500">
+        Table of contents
+      </div>
+    )
+  } else if (block.type === "image") {
+    const align =
+      block.attrs.align === "left" ? "items-start" : block.attrs.align === "right" ? "items-end" : "items-center"
+    element = (
+      <figure className={cn("my-4 flex flex-col", align)}>
+        <img
+          src={block.attrs.src}
+          alt={block.attrs.alt}
+          className={cn("max-w-full rounded-md", block.change === "deleted" && "opacity-50")}
+          style={{ width: block.attrs.width ? `${block.attrs.width}%` : undefined }}
+        />
+        {block.attrs.caption && (
+          <figcaption className="mt-2 text-sm text-gray-500 italic">{block.attrs.caption}</figcaption>
+        )}
+      </figure>
+    )
+  } else {
+    element = (
+      <p style={style} className="my-2 leading-relaxed">
+        {content.length ? content : <br />}
+      </p>
+    )
+  }
+
+  return (
+    <div
+      className={cn("border-l-4 pl-3 -ml-4", BLOCK_CLASSES[block.change])}
+      title={block.change === "modified" ? "Changed" : undefined}
+    >
+      <div
+        className={cn(
+          "relative",
+          quoted && "border-l-4 border-gray-200 pl-4 italic",
+          cell && "border border-gray-200 px-2 my-1 rounded-sm",
+          cell?.type === "tableHeader" && "bg-gray-50 font-semibold",
+        )}
+        style={{ marginLeft: depth * 24 }}
+      >
+        <ListMarker block={block} />
+        {element}
+      </div>
+    </div>
+  )
+}
+
+// Shows how `after` differs from `before`
+export const DocumentDiff = memo(({ before, after }: DocumentDiffProps) => {
+  const blocks = useMemo(() => diffDocuments(before, after), [before, after])
+  const { inserted, deleted } = useMemo(() => countChanges(blocks), [blocks])
+
+  return (
+    <div className="px-6 py-6">
+      <div className="flex items-center space-x-3 mb-4 text-xs">
+        <span className="px-2 py-1 rounded bg-green-100 text-green-800 font-medium">{inserted} insertions</span>
+        <span className="px-2 py-1 rounded bg-red-100 text-red-800 font-medium">{deleted} deletions</span>
+      </div>
+      <div className="max-w-none pl-4 text-gray-900">
+        {blocks.map((block, index) => (
+          <DiffBlockView key={index} block={block} />
+        ))}
+      </div>
+    </div>
+  )
+})
+
+DocumentDiff.displayName = "DocumentDiff"
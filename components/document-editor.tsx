@@ -1,8 +1,8 @@
 "use client"
 
 import { useState, useEffect, useCallback, useMemo } from "react"
-import { useRouter } from "next/navigation"
-import { motion, AnimatePresence } from "framer-motion"
+import { useRouter, useSearchParams } from "next/navigation"
+import { motion } from "framer-motion"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
@@ -20,6 +20,38 @@ import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { useAuth } from "@/components/auth-provider"
 import { RichTextEditor } from "@/components/optimized-rich-text-editor"
+import { VersionHistory } from "@/components/version-history"
+import { ExportMenu } from "@/components/export-menu"
+import { PageSetupDialog } from "@/components/page-setup-dialog"
+import { LinkSharingSettings } from "@/components/link-sharing-settings"
+import { PendingInvitations } from "@/components/pending-invitations"
+import { NotificationMenu } from "@/components/notification-menu"
+import { SaveTemplateDialog } from "@/components/template-dialogs"
+import { SuggestionsPanel } from "@/components/suggestions-panel"
+import { CommentsPanel } from "@/components/comments-panel"
+import { OutlinePanel } from "@/components/outline-panel"
+import { ConflictDialog, conflictingFields, type ConflictChoices } from "@/components/conflict-dialog"
+import { useCollaboration } from "@/hooks/use-collaboration"
+import { usePresence } from "@/hooks/use-presence"
+import { useOnlineStatus } from "@/hooks/use-online-status"
+import { colorForUser, type PresenceUser } from "@/lib/presence"
+import {
+  fetchDocumentMembers,
+  fetchDocumentRole,
+  removeDocumentMember,
+  updateDocumentMemberRole,
+  canEdit,
+  canSuggest,
+  higherRole,
+  type DocumentRole,
+} from "@/lib/permissions"
+import type { Revision } from "@/lib/revisions"
+import { fetchDocumentLink, isLinkExpired, linkUrl, type DocumentLink } from "@/lib/links"
+import { fetchInvitations, sendInvitation, type DocumentInvitation, type InvitationRole } from "@/lib/invitations"
+import type { DocumentConflict } from "@/lib/offline"
+import { uploadAttachment } from "@/lib/attachments"
+import { normalizePageSettings, type PageSettings } from "@/lib/page-layout"
+import type { Editor } from "@tiptap/react"
 import {
   ArrowLeft,
   FileText,
@@ -36,16 +68,24 @@ import {
   Sparkles,
   Zap,
   Shield,
+  Wifi,
+  WifiOff,
+  CloudOff,
+  Loader2,
+  PenLine,
 } from "lucide-react"
 import { useToast } from "@/hooks/use-toast"
 
 interface Document {
   id: string
+  owner_id: string
   title: string
   content: string
   createdAt: Date
   updatedAt: Date
   collaborators: string[]
+  page_settings?: PageSettings | null
+  version?: number
 }
 
 interface Collaborator {
@@ -53,15 +93,21 @@ interface Collaborator {
   name: string
   email: string
   avatar: string
-  role: "owner" | "editor" | "viewer"
+  role: DocumentRole
   isOnline: boolean
   lastSeen?: Date
-  cursor?: { x: number; y: number }
+  color?: string
+  isEditing?: boolean
 }
 
 interface DocumentEditorProps {
   document: Document
-  onUpdate: (updates: Partial<Document>) => void
+  // Resolves to whether the changes were saved
+  onUpdate: (updates: Partial<Document>) => Promise<boolean>
+  // Set when a save was rejected because someone else saved first
+  conflict?: DocumentConflict<Document> | null
+  // Fields to save on top of the server's copy, or null to take it as is
+  onResolveConflict?: (resolution: Partial<Document> | null) => void
 }
 
 // Add debounce utility function before the component
@@ -75,62 +121,101 @@ function debounce<T extends (...args: any[]) => any>(func: T, wait: number): T {
 }
 
 
-export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
+export function DocumentEditor({ document, onUpdate, conflict, onResolveConflict }: DocumentEditorProps) {
   const [title, setTitle] = useState(document.title)
   const [content, setContent] = useState(document.content)
   const [isSaving, setIsSaving] = useState(false)
   const [lastSaved, setLastSaved] = useState<Date>(document.updatedAt)
   const [inviteEmail, setInviteEmail] = useState("")
-  const [inviteRole, setInviteRole] = useState<"editor" | "viewer">("editor")
+  const [inviteRole, setInviteRole] = useState<InvitationRole>("editor")
   const [isInviting, setIsInviting] = useState(false)
+  const [editor, setEditor] = useState<Editor | null>(null)
+  const [editingMode, setEditingMode] = useState<"editing" | "suggesting">("editing")
   const { user, logout } = useAuth()
   const router = useRouter()
+  // Set by notification links to open a discussion
+  const focusThreadId = useSearchParams().get("thread")
   const { toast } = useToast()
+  const isOnline = useOnlineStatus()
+  const { session, status: connectionStatus } = useCollaboration({
+    documentId: document.id,
+    userId: user?.id,
+    initialContent: document.content,
+  })
+
+  const [members, setMembers] = useState<Collaborator[]>([])
+  const [link, setLink] = useState<DocumentLink | null>(null)
+  // Only the owner sees invitations; everyone else gets an empty list
+  const [invitations, setInvitations] = useState<DocumentInvitation[]>([])
+  // Role from the server, which also covers access through a share link
+  const [accessRole, setAccessRole] = useState<DocumentRole | null>(null)
+
+  const presenceUser = useMemo<PresenceUser | undefined>(
+    () => (user ? { id: user.id, name: user.name, avatar: user.avatar, color: colorForUser(user.id) } : undefined),
+    [user?.id, user?.name, user?.avatar],
+  )
+  const { onlineUsers, lastSeen } = usePresence({
+    documentId: document.id,
+    userId: user?.id,
+    provider: session?.provider,
+  })
+
+  const fetchMembers = async () => {
+    try {
+      const documentMembers = await fetchDocumentMembers(document.id)
+      setMembers(
+        documentMembers.map((member) => ({
+          ...member,
+          avatar: member.avatar || `https://api.dicebear.com/7.x/avataaars/svg?seed=${member.email}`,
+          isOnline: false,
+        })),
+      )
+    } catch (error) {
+      console.error("Error fetching collaborators:", error)
+    }
+  }
 
-  // Enhanced mock collaborators with more realistic data
-  const [collaborators, setCollaborators] = useState<Collaborator[]>([
-    {
-      id: user?.id || "current-user",
-      name: user?.name || "You",
-      email: user?.email || "you@example.com",
-      avatar: user?.avatar || "https://api.dicebear.com/7.x/avataaars/svg?seed=you",
-      role: "owner",
-      isOnline: true,
-    },
-    {
-      id: "2",
-      name: "Sarah Johnson",
-      email: "sarah@company.com",
-      avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=sarah",
-      role: "editor",
-      isOnline: true,
-      cursor: { x: 45, y: 120 },
-    },
-    {
-      id: "3",
-      name: "Mike Chen",
-      email: "mike@company.com",
-      avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=mike",
-      role: "editor",
-      isOnline: false,
-      lastSeen: new Date(Date.now() - 1000 * 60 * 30), // 30 minutes ago
-    },
-    {
-      id: "4",
-      name: "Emily Davis",
-      email: "emily@company.com",
-      avatar: "https://api.dicebear.com/7.x/avataaars/svg?seed=emily",
-      role: "viewer",
-      isOnline: true,
-    },
-  ])
+  useEffect(() => {
+    fetchMembers()
+    fetchDocumentRole(document.id)
+      .then(setAccessRole)
+      .catch((error) => console.error("Error fetching document role:", error))
+    fetchDocumentLink(document.id)
+      .then(setLink)
+      .catch((error) => console.error("Error fetching share link:", error))
+    fetchInvitations(document.id)
+      .then(setInvitations)
+      .catch((error) => console.error("Error fetching invitations:", error))
+  }, [document.id])
+
+  // Overlay live presence on the member list; the current user is always online here
+  const collaborators = useMemo(
+    () =>
+      members.map((member) => {
+        const presence = onlineUsers.get(member.id)
+        return {
+          ...member,
+          color: colorForUser(member.id),
+          isOnline: member.id === user?.id || Boolean(presence),
+          isEditing: presence?.isEditing,
+          lastSeen: lastSeen.get(member.id),
+        }
+      }),
+    [members, onlineUsers, lastSeen, user?.id],
+  )
+
+  const currentUserRole = useMemo(
+    () => higherRole(collaborators.find((c) => c.id === user?.id)?.role, accessRole) || "viewer",
+    [collaborators, user?.id, accessRole],
+  )
+  // Commenters are locked into suggesting
+  const isSuggesting = currentUserRole === "commenter" || (canSuggest(currentUserRole) && editingMode === "suggesting")
 
   const saveDocument = useCallback(
-    debounce(async (titleToSave: string, contentToSave: string) => {
+    debounce(async (changes: Partial<Document>) => {
       setIsSaving(true)
       try {
-        onUpdate({ title: titleToSave, content: contentToSave })
-        setLastSaved(new Date())
+        if (await onUpdate(changes)) setLastSaved(new Date())
       } finally {
         setIsSaving(false)
       }
@@ -143,57 +228,134 @@ export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
   }, [])
 
   useEffect(() => {
-    if (title !== document.title || content !== document.content) {
-      saveDocument(title, content)
-    }
-  }, [title, content, document.title, document.content, saveDocument])
+    // Suggestions live in the collaboration log; only editors write the document row
+    if (!canEdit(currentUserRole)) return
+    // Only what was edited here, so a save never writes back a stale copy of the rest
+    const changes: Partial<Document> = {}
+    if (title !== document.title) changes.title = title
+    if (content !== document.content) changes.content = content
+    if (Object.keys(changes).length > 0) saveDocument(changes)
+  }, [title, content, document.title, document.content, saveDocument, currentUserRole])
 
   const handleInviteCollaborator = async () => {
     if (!inviteEmail) return
 
     setIsInviting(true)
-    await new Promise((resolve) => setTimeout(resolve, 1000))
-
-    const newCollaborator: Collaborator = {
-      id: Date.now().toString(),
-      name: inviteEmail.split("@")[0],
-      email: inviteEmail,
-      avatar: `https://api.dicebear.com/7.x/avataaars/svg?seed=${inviteEmail}`,
-      role: inviteRole,
-      isOnline: false,
+    try {
+      const invitation = await sendInvitation(document.id, inviteEmail, inviteRole)
+      setInvitations((prev) => [...prev, invitation])
+      setInviteEmail("")
+      toast({
+        title: "Invitation sent!",
+        description: `${invitation.email} will get an email with a link to join this document.`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Could not invite collaborator",
+        description: error.message,
+        variant: "destructive",
+      })
+      // An invitation can be saved even when its email fails, so it can be resent
+      fetchInvitations(document.id).then(setInvitations).catch(() => undefined)
+    } finally {
+      setIsInviting(false)
     }
+  }
 
-    setCollaborators((prev) => [...prev, newCollaborator])
-    setInviteEmail("")
-    setIsInviting(false)
+  const removeCollaborator = async (collaboratorId: string) => {
+    try {
+      await removeDocumentMember(document.id, collaboratorId)
+      setMembers((prev) => prev.filter((c) => c.id !== collaboratorId))
+      toast({
+        title: "Collaborator removed",
+        description: "The collaborator has been removed from this document.",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Could not remove collaborator",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
 
-    toast({
-      title: "Invitation sent!",
-      description: `${inviteEmail} has been invited to collaborate.`,
-    })
+  const updateCollaboratorRole = async (collaboratorId: string, newRole: Exclude<DocumentRole, "owner">) => {
+    try {
+      await updateDocumentMemberRole(document.id, collaboratorId, newRole)
+      setMembers((prev) => prev.map((c) => (c.id === collaboratorId ? { ...c, role: newRole } : c)))
+      toast({
+        title: "Role updated",
+        description: "Collaborator role has been updated successfully.",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Could not update role",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
   }
 
-  const removeCollaborator = (collaboratorId: string) => {
-    setCollaborators((prev) => prev.filter((c) => c.id !== collaboratorId))
+  const uploadFile = useCallback((file: File) => uploadAttachment(document.id, file), [document.id])
+
+  const pageSettings = useMemo(() => normalizePageSettings(document.page_settings), [document.page_settings])
+
+  // Restoring replaces the live content, which is then saved as a new version
+  const restoreRevision = (revision: Revision, revisionContent: string) => {
+    if (!editor) return
+    // Suggesting mode filters out the replacement, leaving the document as it was
+    const before = editor.state.doc
+    if (!editor.commands.setContent(revisionContent, true) || editor.state.doc === before) {
+      toast({
+        title: "Version not restored",
+        description: "Switch from suggesting to editing to restore a version.",
+        variant: "destructive",
+      })
+      return
+    }
+    setTitle(revision.title)
     toast({
-      title: "Collaborator removed",
-      description: "The collaborator has been removed from this document.",
+      title: "Version restored",
+      description: `Restored the version from ${revision.createdAt.toLocaleString()}.`,
     })
   }
 
-  const updateCollaboratorRole = (collaboratorId: string, newRole: "editor" | "viewer") => {
-    setCollaborators((prev) => prev.map((c) => (c.id === collaboratorId ? { ...c, role: newRole } : c)))
-    toast({
-      title: "Role updated",
-      description: "Collaborator role has been updated successfully.",
-    })
+  // Text is merged through the collaboration log, so a live editor's content
+  // is current and is saved on top of the other version. Offline edits reach
+  // the log when the connection returns and are saved with the next change.
+  const resolveConflict = (choices: ConflictChoices) => {
+    if (!conflict) return
+    const { mine, theirs } = conflict
+    const resolution: Partial<Document> = {}
+
+    if (mine.title !== undefined) {
+      resolution.title = choices.title === "theirs" ? theirs.title : mine.title
+      setTitle(resolution.title)
+    }
+    if (mine.page_settings !== undefined) {
+      resolution.page_settings = choices.page_settings === "theirs" ? theirs.page_settings : mine.page_settings
+    }
+    if (mine.content !== undefined && connectionStatus === "connected") {
+      resolution.content = editor?.getHTML() ?? content
+    }
+
+    onResolveConflict?.(Object.keys(resolution).length ? resolution : null)
   }
 
+  // Nothing to ask about when the only difference is text
+  useEffect(() => {
+    if (conflict && conflictingFields(conflict).length === 0) resolveConflict({})
+  }, [conflict])
+
+  // The share link when there is one; otherwise the address, which only works for members
   const shareDocument = () => {
-    navigator.clipboard.writeText(window.location.href)
+    const shareable = link && !isLinkExpired(link)
+    navigator.clipboard.writeText(shareable ? linkUrl(link.token) : window.location.href)
     toast({
       title: "Link copied!",
-      description: "Document link has been copied to clipboard.",
+      description: shareable
+        ? "Anyone signed in with this link can open the document."
+        : "Only people with access can open this link. Turn on link sharing under Invite to share it more widely.",
     })
   }
 
@@ -218,10 +380,6 @@ export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
   }
 
   const onlineCollaborators = useMemo(() => collaborators.filter((c) => c.isOnline), [collaborators])
-  const currentUserRole = useMemo(
-    () => collaborators.find((c) => c.id === user?.id)?.role || "viewer",
-    [collaborators, user?.id],
-  )
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -253,7 +411,7 @@ export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
                     onChange={(e) => setTitle(e.target.value)}
                     className="border-none shadow-none text-xl font-bold p-0 h-auto focus-visible:ring-0 bg-transparent placeholder:text-gray-400"
                     placeholder="Untitled Document"
-                    disabled={currentUserRole === "viewer"}
+                    disabled={!canEdit(currentUserRole)}
                   />
                   <div className="flex items-center space-x-3 text-sm text-gray-500 mt-1">
                     {isSaving ? (
@@ -280,6 +438,41 @@ export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
                       <Shield className="h-3 w-3" />
                       <span>Encrypted</span>
                     </span>
+                    <div className="h-1 w-1 bg-gray-300 rounded-full" />
+                    {!isOnline ? (
+                      <span className="flex items-center space-x-1 text-amber-600">
+                        <CloudOff className="h-3 w-3" />
+                        <span>Offline — changes saved locally</span>
+                      </span>
+                    ) : connectionStatus === "connected" ? (
+                      <span className="flex items-center space-x-1 text-green-600">
+                        <Wifi className="h-3 w-3" />
+                        <span>Live</span>
+                      </span>
+                    ) : (
+                      <span className="flex items-center space-x-1 text-amber-600">
+                        <WifiOff className="h-3 w-3" />
+                        <span>{connectionStatus === "connecting" ? "Connecting..." : "Reconnecting..."}</span>
+                      </span>
+                    )}
+                    {canSuggest(currentUserRole) && (
+                      <>
+                        <div className="h-1 w-1 bg-gray-300 rounded-full" />
+                        <Select
+                          value={isSuggesting ? "suggesting" : "editing"}
+                          onValueChange={(value: "editing" | "suggesting") => setEditingMode(value)}
+                          disabled={!canEdit(currentUserRole)}
+                        >
+                          <SelectTrigger className="h-6 w-auto gap-1 px-2 text-xs border-0 bg-transparent shadow-none">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="editing">Editing</SelectItem>
+                            <SelectItem value="suggesting">Suggesting</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
@@ -323,111 +516,157 @@ export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
                 </div>
 
                 {/* Premium Invite Button */}
-                <Dialog>
-                  <DialogTrigger asChild>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="flex items-center space-x-2 bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-200 hover:from-blue-100 hover:to-indigo-100 transition-all duration-200 rounded-xl shadow-sm"
-                      disabled={currentUserRole === "viewer"}
-                    >
-                      <UserPlus className="h-4 w-4 text-blue-600" />
-                      <span className="hidden sm:inline text-blue-700 font-medium">Invite</span>
-                      <Sparkles className="h-3 w-3 text-blue-500" />
-                    </Button>
-                  </DialogTrigger>
-                  <DialogContent className="sm:max-w-md bg-white/95 backdrop-blur-xl border-0 shadow-2xl">
-                    <DialogHeader>
-                      <DialogTitle className="flex items-center space-x-2 text-xl">
-                        <div className="p-2 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg">
-                          <UserPlus className="h-5 w-5 text-white" />
-                        </div>
-                        <span>Invite Collaborators</span>
-                      </DialogTitle>
-                      <DialogDescription className="text-gray-600">
-                        Share this document with others to collaborate in real-time.
-                      </DialogDescription>
-                    </DialogHeader>
-                    <div className="space-y-6">
-                      <div className="space-y-3">
-                        <Label htmlFor="email" className="text-sm font-semibold">
-                          Email address
-                        </Label>
-                        <div className="relative">
-                          <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
-                          <Input
-                            id="email"
-                            type="email"
-                            placeholder="Enter email address"
-                            value={inviteEmail}
-                            onChange={(e) => setInviteEmail(e.target.value)}
-                            className="pl-10 h-11 bg-gray-50/50 border-gray-200 focus:bg-white transition-colors rounded-xl"
-                          />
+                {currentUserRole === "owner" && (
+                  <Dialog>
+                    <DialogTrigger asChild>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="flex items-center space-x-2 bg-gradient-to-r from-blue-50 to-indigo-50 border-blue-200 hover:from-blue-100 hover:to-indigo-100 transition-all duration-200 rounded-xl shadow-sm"
+                      >
+                        <UserPlus className="h-4 w-4 text-blue-600" />
+                        <span className="hidden sm:inline text-blue-700 font-medium">Invite</span>
+                        <Sparkles className="h-3 w-3 text-blue-500" />
+                      </Button>
+                    </DialogTrigger>
+                    <DialogContent className="sm:max-w-md bg-white/95 backdrop-blur-xl border-0 shadow-2xl">
+                      <DialogHeader>
+                        <DialogTitle className="flex items-center space-x-2 text-xl">
+                          <div className="p-2 bg-gradient-to-br from-blue-500 to-purple-600 rounded-lg">
+                            <UserPlus className="h-5 w-5 text-white" />
+                          </div>
+                          <span>Invite Collaborators</span>
+                        </DialogTitle>
+                        <DialogDescription className="text-gray-600">
+                          Share this document with others to collaborate in real-time.
+                        </DialogDescription>
+                      </DialogHeader>
+                      <div className="space-y-6">
+                        <div className="space-y-3">
+                          <Label htmlFor="email" className="text-sm font-semibold">
+                            Email address
+                          </Label>
+                          <div className="relative">
+                            <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                            <Input
+                              id="email"
+                              type="email"
+                              placeholder="Enter email address"
+                              value={inviteEmail}
+                              onChange={(e) => setInviteEmail(e.target.value)}
+                              className="pl-10 h-11 bg-gray-50/50 border-gray-200 focus:bg-white transition-colors rounded-xl"
+                            />
+                          </div>
                         </div>
-                      </div>
-                      <div className="space-y-3">
-                        <Label htmlFor="role" className="text-sm font-semibold">
-                          Permission level
-                        </Label>
-                        <Select value={inviteRole} onValueChange={(value: "editor" | "viewer") => setInviteRole(value)}>
-                          <SelectTrigger className="h-11 rounded-xl bg-gray-50/50 border-gray-200">
-                            <SelectValue />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="editor">
-                              <div className="flex items-center space-x-3">
-                                <div className="p-1 bg-green-100 rounded">
-                                  <Edit3 className="h-3 w-3 text-green-600" />
-                                </div>
-                                <div>
-                                  <p className="font-medium">Can edit</p>
-                                  <p className="text-xs text-gray-500">Full editing access</p>
+                        <div className="space-y-3">
+                          <Label htmlFor="role" className="text-sm font-semibold">
+                            Permission level
+                          </Label>
+                          <Select
+                            value={inviteRole}
+                            onValueChange={(value: InvitationRole) => setInviteRole(value)}
+                          >
+                            <SelectTrigger className="h-11 rounded-xl bg-gray-50/50 border-gray-200">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="editor">
+                                <div className="flex items-center space-x-3">
+                                  <div className="p-1 bg-green-100 rounded">
+                                    <Edit3 className="h-3 w-3 text-green-600" />
+                                  </div>
+                                  <div>
+                                    <p className="font-medium">Can edit</p>
+                                    <p className="text-xs text-gray-500">Full editing access</p>
+                                  </div>
                                 </div>
-                              </div>
-                            </SelectItem>
-                            <SelectItem value="viewer">
-                              <div className="flex items-center space-x-3">
-                                <div className="p-1 bg-blue-100 rounded">
-                                  <Eye className="h-3 w-3 text-blue-600" />
+                              </SelectItem>
+                              <SelectItem value="commenter">
+                                <div className="flex items-center space-x-3">
+                                  <div className="p-1 bg-amber-100 rounded">
+                                    <PenLine className="h-3 w-3 text-amber-600" />
+                                  </div>
+                                  <div>
+                                    <p className="font-medium">Can suggest</p>
+                                    <p className="text-xs text-gray-500">Edits become suggestions</p>
+                                  </div>
                                 </div>
-                                <div>
-                                  <p className="font-medium">Can view</p>
-                                  <p className="text-xs text-gray-500">Read-only access</p>
+                              </SelectItem>
+                              <SelectItem value="viewer">
+                                <div className="flex items-center space-x-3">
+                                  <div className="p-1 bg-blue-100 rounded">
+                                    <Eye className="h-3 w-3 text-blue-600" />
+                                  </div>
+                                  <div>
+                                    <p className="font-medium">Can view</p>
+                                    <p className="text-xs text-gray-500">Read-only access</p>
+                                  </div>
                                 </div>
-                              </div>
-                            </SelectItem>
-                          </SelectContent>
-                        </Select>
-                      </div>
-                      <div className="flex space-x-3">
-                        <Button
-                          onClick={handleInviteCollaborator}
-                          disabled={!inviteEmail || isInviting}
-                          className="flex-1 h-11 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 transition-all duration-200 rounded-xl shadow-lg"
-                        >
-                          {isInviting ? (
-                            <>
-                              <Zap className="h-4 w-4 mr-2 animate-pulse" />
-                              Sending...
-                            </>
-                          ) : (
-                            <>
-                              <Mail className="h-4 w-4 mr-2" />
-                              Send Invite
-                            </>
-                          )}
-                        </Button>
-                        <Button
-                          variant="outline"
-                          onClick={shareDocument}
-                          className="h-11 px-4 rounded-xl border-gray-200 hover:bg-gray-50 transition-colors bg-transparent"
-                        >
-                          <Copy className="h-4 w-4" />
-                        </Button>
+                              </SelectItem>
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <div className="flex space-x-3">
+                          <Button
+                            onClick={handleInviteCollaborator}
+                            disabled={!inviteEmail || isInviting}
+                            className="flex-1 h-11 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 transition-all duration-200 rounded-xl shadow-lg"
+                          >
+                            {isInviting ? (
+                              <>
+                                <Zap className="h-4 w-4 mr-2 animate-pulse" />
+                                Sending...
+                              </>
+                            ) : (
+                              <>
+                                <Mail className="h-4 w-4 mr-2" />
+                                Send Invite
+                              </>
+                            )}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            onClick={shareDocument}
+                            className="h-11 px-4 rounded-xl border-gray-200 hover:bg-gray-50 transition-colors bg-transparent"
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        </div>
+                        <PendingInvitations invitations={invitations} onInvitationsChange={setInvitations} />
+                        <LinkSharingSettings
+                          documentId={document.id}
+                          link={link}
+                          onLinkChange={setLink}
+                          canManage={currentUserRole === "owner"}
+                        />
                       </div>
-                    </div>
-                  </DialogContent>
-                </Dialog>
+                    </DialogContent>
+                  </Dialog>
+                )}
+
+                <VersionHistory
+                  documentId={document.id}
+                  getCurrentContent={() => editor?.getHTML() ?? content}
+                  canEdit={canEdit(currentUserRole)}
+                  onRestore={restoreRevision}
+                />
+
+                <PageSetupDialog
+                  settings={pageSettings}
+                  onSave={(settings) => onUpdate({ page_settings: settings })}
+                  disabled={!canEdit(currentUserRole)}
+                />
+
+                {canEdit(currentUserRole) && (
+                  <SaveTemplateDialog
+                    userId={user?.id || ""}
+                    documentId={document.id}
+                    title={title}
+                    getContent={() => editor?.getHTML() ?? content}
+                  />
+                )}
+
+                <ExportMenu title={title} getContent={() => editor?.getHTML() ?? content} pageSettings={pageSettings} />
 
                 {/* Premium Share Button */}
                 <Button
@@ -441,6 +680,8 @@ export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
                 </Button>
               </div>
 
+              <NotificationMenu userId={user?.id} />
+
               {/* Enhanced User Menu */}
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
@@ -502,10 +743,10 @@ export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
                     transition={{ delay: index * 0.1 }}
                     className="flex items-center space-x-2 text-sm text-gray-600"
                   >
-                    <div className="h-2 w-2 bg-gradient-to-r from-blue-400 to-purple-500 rounded-full" />
+                    <div className="h-2 w-2 rounded-full" style={{ backgroundColor: collaborator.color }} />
                     <span className="hidden sm:inline font-medium">
                       {collaborator.id === user?.id ? "You" : collaborator.name.split(" ")[0]}
-                      {collaborator.cursor && " is editing"}
+                      {collaborator.isEditing && " is editing"}
                     </span>
                   </motion.div>
                 ))}
@@ -569,15 +810,16 @@ export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
                             <>
                               <Select
                                 value={collaborator.role}
-                                onValueChange={(value: "editor" | "viewer") =>
+                                onValueChange={(value: Exclude<DocumentRole, "owner">) =>
                                   updateCollaboratorRole(collaborator.id, value)
                                 }
                               >
-                                <SelectTrigger className="w-24 h-8 text-xs rounded-lg">
+                                <SelectTrigger className="w-28 h-8 text-xs rounded-lg">
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
                                   <SelectItem value="editor">Editor</SelectItem>
+                                  <SelectItem value="commenter">Commenter</SelectItem>
                                   <SelectItem value="viewer">Viewer</SelectItem>
                                 </SelectContent>
                               </Select>
@@ -616,35 +858,43 @@ export function DocumentEditor({ document, onUpdate }: DocumentEditorProps) {
       </header>
 
       {/* Premium Editor Container */}
-      <main className="max-w-6xl mx-auto px-6 py-6">
-        <div className="bg-white shadow-xl border border-gray-200 rounded-2xl overflow-hidden">
-          <RichTextEditor content={content} onChange={handleContentChange} readOnly={currentUserRole === "viewer"} />
+      <main className="max-w-7xl mx-auto px-6 py-6 flex items-start gap-6">
+        <div className="flex-1 min-w-0 bg-white shadow-xl border border-gray-200 rounded-2xl overflow-hidden">
+          {session ? (
+            <RichTextEditor
+              content={content}
+              onChange={handleContentChange}
+              readOnly={!canSuggest(currentUserRole)}
+              collaboration={session}
+              presenceUser={presenceUser}
+              suggesting={isSuggesting}
+              onUploadFile={uploadFile}
+              pageSettings={pageSettings}
+              onEditorReady={setEditor}
+            />
+          ) : (
+            <div className="p-8 flex items-center justify-center text-gray-500">
+              <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+              Loading document...
+            </div>
+          )}
+        </div>
+
+        <div className="w-80 shrink-0 space-y-6 sticky top-44">
+          <OutlinePanel editor={editor} />
+          <SuggestionsPanel editor={editor} canResolve={currentUserRole === "owner"} />
+          <CommentsPanel
+            documentId={document.id}
+            editor={editor}
+            currentUserId={user?.id}
+            members={collaborators.filter((c) => c.id !== user?.id)}
+            canComment={canSuggest(currentUserRole)}
+            focusThreadId={focusThreadId}
+          />
         </div>
       </main>
 
-      {/* Floating Collaboration Cursors */}
-      <AnimatePresence>
-        {collaborators
-          .filter((c) => c.cursor && c.isOnline && c.id !== user?.id)
-          .map((collaborator) => (
-            <motion.div
-              key={collaborator.id}
-              initial={{ opacity: 0, scale: 0.8 }}
-              animate={{ opacity: 1, scale: 1 }}
-              exit={{ opacity: 0, scale: 0.8 }}
-              className="fixed pointer-events-none z-50"
-              style={{
-                left: collaborator.cursor!.x,
-                top: collaborator.cursor!.y,
-              }}
-            >
-              <div className="flex items-center space-x-2 bg-gradient-to-r from-blue-600 to-purple-600 text-white px-3 py-2 rounded-full text-xs shadow-2xl backdrop-blur-sm">
-                <div className="h-2 w-2 bg-white rounded-full animate-pulse" />
-                <span className="font-medium">{collaborator.name.split(" ")[0]}</span>
-              </div>
-            </motion.div>
-          ))}
-      </AnimatePresence>
+      <ConflictDialog conflict={conflict ?? null} onResolve={resolveConflict} />
     </div>
   )
 }
@@ -0,0 +1,56 @@
+"use client"
+
+import type React from "react"
+import { motion } from "framer-motion"
+import { FileText } from "lucide-react"
+
+export interface DocumentListItem {
+  id: string
+  title: string
+  // Secondary line, e.g. who owns it or when it was opened
+  detail: string
+}
+
+interface DocumentListProps {
+  items: DocumentListItem[]
+  // Rows are only clickable when set
+  onOpen?: (id: string) => void
+  actions?: (id: string) => React.ReactNode
+  empty: { icon: React.ElementType; title: string; description: string }
+}
+
+// Compact rows for the starred, recent and trash views
+export function DocumentList({ items, onOpen, actions, empty }: DocumentListProps) {
+  if (items.length === 0) {
+    const Icon = empty.icon
+    return (
+      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="text-center py-12">
+        <Icon className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-xl font-semibold text-gray-900 mb-2">{empty.title}</h3>
+        <p className="text-gray-600">{empty.description}</p>
+      </motion.div>
+    )
+  }
+
+  return (
+    <div className="divide-y divide-gray-100 rounded-xl border border-gray-200 bg-white">
+      {items.map((item) => (
+        <div key={item.id} className="flex items-center justify-between px-4 py-3 hover:bg-gray-50">
+          <button
+            type="button"
+            disabled={!onOpen}
+            onClick={() => onOpen?.(item.id)}
+            className="flex flex-1 items-center space-x-3 min-w-0 text-left disabled:cursor-default"
+          >
+            <FileText className="h-5 w-5 shrink-0 text-blue-600" />
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">{item.title}</p>
+              <p className="text-xs text-gray-500 truncate">{item.detail}</p>
+            </div>
+          </button>
+          {actions && <div className="flex items-center space-x-1 shrink-0 ml-4">{actions(item.id)}</div>}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,515 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useState } from "react"
+import { BubbleMenu, type Editor } from "@tiptap/react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Palette,
+  Highlighter,
+  Link2,
+  Unlink,
+  ExternalLink,
+  Pencil,
+  Ban,
+  Table,
+  BetweenHorizontalStart,
+  BetweenHorizontalEnd,
+  BetweenVerticalStart,
+  BetweenVerticalEnd,
+  TableCellsMerge,
+  TableCellsSplit,
+  PanelTop,
+  PanelLeft,
+  Trash2,
+} from "lucide-react"
+import { CODE_LANGUAGES } from "@/lib/extensions/code-block"
+import { MAX_TABLE_SIZE } from "@/lib/extensions/table"
+import { cn } from "@/lib/utils"
+
+const TEXT_COLORS = [
+  "#111827",
+  "#6b7280",
+  "#dc2626",
+  "#ea580c",
+  "#ca8a04",
+  "#16a34a",
+  "#0891b2",
+  "#2563eb",
+  "#7c3aed",
+  "#db2777",
+]
+
+const HIGHLIGHT_COLORS = ["#fef08a", "#fed7aa", "#fecaca", "#fbcfe8", "#e9d5ff", "#bfdbfe", "#a5f3fc", "#bbf7d0"]
+
+const AUTO_LANGUAGE = "auto"
+
+// Bare domains get https://; relative links, anchors and other schemes are kept
+function normalizeUrl(url: string) {
+  const trimmed = url.trim()
+  if (!trimmed || /^([a-z][a-z0-9+.-]*:|\/|#)/i.test(trimmed)) return trimmed
+  return `https://${trimmed}`
+}
+
+function ToolbarPopoverButton({
+  tooltip,
+  isActive,
+  disabled,
+  children,
+}: {
+  tooltip: string
+  isActive?: boolean
+  disabled?: boolean
+  children: React.ReactNode
+}) {
+  return (
+    <PopoverTrigger asChild>
+      <Button
+        variant={isActive ? "default" : "ghost"}
+        size="sm"
+        disabled={disabled}
+        className={`h-9 w-9 p-0 rounded-lg transition-colors duration-150 ${
+          isActive ? "bg-blue-600 text-white" : "hover:bg-gray-100"
+        }`}
+        title={tooltip}
+      >
+        {children}
+      </Button>
+    </PopoverTrigger>
+  )
+}
+
+interface ToolbarControlProps {
+  editor: Editor
+  disabled?: boolean
+}
+
+export function TextColorPicker({ editor, disabled }: ToolbarControlProps) {
+  const [open, setOpen] = useState(false)
+  const current = editor.getAttributes("textStyle").color as string | undefined
+
+  const apply = (color: string | null) => {
+    if (color) editor.chain().focus().setColor(color).run()
+    else editor.chain().focus().unsetColor().run()
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <ToolbarPopoverButton tooltip="Text Color" disabled={disabled}>
+        <span className="flex flex-col items-center">
+          <Palette className="h-4 w-4" />
+          <span className="h-1 w-4 rounded-full mt-0.5" style={{ backgroundColor: current || "#111827" }} />
+        </span>
+      </ToolbarPopoverButton>
+      <PopoverContent className="w-56 p-3" align="start">
+        <p className="text-xs font-medium text-gray-500 mb-2">Text color</p>
+        <div className="grid grid-cols-5 gap-2">
+          {TEXT_COLORS.map((color) => (
+            <button
+              key={color}
+              onClick={() => apply(color)}
+              className={cn(
+                "h-7 w-7 rounded-full border border-gray-200 transition-transform hover:scale-110",
+                current === color && "ring-2 ring-offset-1 ring-blue-500",
+              )}
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+          ))}
+        </div>
+        <div className="flex items-center justify-between mt-3 pt-3 border-t border-gray-100">
+          <label className="flex items-center space-x-2 text-xs text-gray-600 cursor-pointer">
+            <input
+              type="color"
+              value={current || "#111827"}
+              onChange={(e) => editor.chain().focus().setColor(e.target.value).run()}
+              className="h-6 w-6 cursor-pointer border-0 bg-transparent p-0"
+            />
+            <span>Custom</span>
+          </label>
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => apply(null)}>
+            Default
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+export function HighlightColorPicker({ editor, disabled }: ToolbarControlProps) {
+  const [open, setOpen] = useState(false)
+  const current = editor.getAttributes("highlight").color as string | undefined
+
+  const apply = (color: string | null) => {
+    if (color) editor.chain().focus().setHighlight({ color }).run()
+    else editor.chain().focus().unsetHighlight().run()
+    setOpen(false)
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <ToolbarPopoverButton tooltip="Highlight" isActive={editor.isActive("highlight")} disabled={disabled}>
+        <Highlighter className="h-4 w-4" />
+      </ToolbarPopoverButton>
+      <PopoverContent className="w-48 p-3" align="start">
+        <p className="text-xs font-medium text-gray-500 mb-2">Highlight</p>
+        <div className="grid grid-cols-4 gap-2">
+          {HIGHLIGHT_COLORS.map((color) => (
+            <button
+              key={color}
+              onClick={() => apply(color)}
+              className={cn(
+                "h-7 w-7 rounded-md border border-gray-200 transition-transform hover:scale-110",
+                current === color && "ring-2 ring-offset-1 ring-blue-500",
+              )}
+              style={{ backgroundColor: color }}
+              title={color}
+            />
+          ))}
+        </div>
+        <Button variant="ghost" size="sm" className="w-full h-7 mt-3 text-xs" onClick={() => apply(null)}>
+          <Ban className="h-3 w-3 mr-1" />
+          No highlight
+        </Button>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function LinkForm({ editor, onDone }: { editor: Editor; onDone: () => void }) {
+  const [url, setUrl] = useState((editor.getAttributes("link").href as string) || "")
+  const isLink = editor.isActive("link")
+
+  const apply = (e: React.FormEvent) => {
+    e.preventDefault()
+    const href = normalizeUrl(url)
+    if (!href) {
+      editor.chain().focus().extendMarkRange("link").unsetLink().run()
+    } else if (editor.state.selection.empty && !isLink) {
+      // Nothing selected: the address becomes the link text
+      editor
+        .chain()
+        .focus()
+        .insertContent({ type: "text", text: url.trim(), marks: [{ type: "link", attrs: { href } }] })
+        .run()
+    } else {
+      editor.chain().focus().extendMarkRange("link").setLink({ href }).run()
+    }
+    onDone()
+  }
+
+  return (
+    <form onSubmit={apply} className="flex items-center space-x-2">
+      <Input
+        value={url}
+        onChange={(e) => setUrl(e.target.value)}
+        placeholder="Paste or type a link"
+        autoFocus
+        className="h-8 text-sm"
+      />
+      <Button type="submit" size="sm" className="h-8">
+        Apply
+      </Button>
+    </form>
+  )
+}
+
+export function LinkButton({ editor, disabled }: ToolbarControlProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <ToolbarPopoverButton tooltip="Link" isActive={editor.isActive("link")} disabled={disabled}>
+        <Link2 className="h-4 w-4" />
+      </ToolbarPopoverButton>
+      <PopoverContent className="w-80 p-3" align="start">
+        {open && <LinkForm editor={editor} onDone={() => setOpen(false)} />}
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+// Floats under a link the caret is in, to open, edit or remove it
+export function LinkBubbleMenu({ editor, readOnly }: { editor: Editor; readOnly?: boolean }) {
+  const [editing, setEditing] = useState(false)
+  const href = editor.getAttributes("link").href as string | undefined
+
+  useEffect(() => {
+    setEditing(false)
+  }, [href])
+
+  return (
+    <BubbleMenu
+      editor={editor}
+      pluginKey="linkBubbleMenu"
+      shouldShow={({ editor }) => editor.isActive("link")}
+      tippyOptions={{ placement: "bottom-start", onHidden: () => setEditing(false) }}
+    >
+      <div className="bg-white border border-gray-200 rounded-xl shadow-lg p-2">
+        {editing ? (
+          <div className="w-72">
+            <LinkForm editor={editor} onDone={() => setEditing(false)} />
+          </div>
+        ) : (
+          <div className="flex items-center space-x-1">
+            <a
+              href={href}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center space-x-1 max-w-[220px] px-2 text-sm text-blue-600 hover:underline"
+            >
+              <ExternalLink className="h-3 w-3 shrink-0" />
+              <span className="truncate">{href}</span>
+            </a>
+            {!readOnly && (
+              <>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => setEditing(true)} title="Edit link">
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => editor.chain().focus().extendMarkRange("link").unsetLink().run()}
+                  title="Remove link"
+                >
+                  <Unlink className="h-3.5 w-3.5" />
+                </Button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </BubbleMenu>
+  )
+}
+
+export function CodeLanguageSelect({ editor, disabled }: ToolbarControlProps) {
+  const language = (editor.getAttributes("codeBlock").language as string | null) || AUTO_LANGUAGE
+
+  return (
+    <Select
+      value={language}
+      disabled={disabled}
+      onValueChange={(value) =>
+        editor
+          .chain()
+          .focus()
+          .updateAttributes("codeBlock", { language: value === AUTO_LANGUAGE ? null : value })
+          .run()
+      }
+    >
+      <SelectTrigger className="h-9 w-36 text-xs rounded-lg" title="Code language">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={AUTO_LANGUAGE}>Auto-detect</SelectItem>
+        {CODE_LANGUAGES.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+export function TableInsertPicker({ editor, disabled }: ToolbarControlProps) {
+  const [open, setOpen] = useState(false)
+  const [size, setSize] = useState({ rows: 0, cols: 0 })
+  const [withHeaderRow, setWithHeaderRow] = useState(true)
+
+  const insert = () => {
+    editor.chain().focus().insertTable({ rows: size.rows, cols: size.cols, withHeaderRow }).run()
+    setOpen(false)
+  }
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next)
+        setSize({ rows: 0, cols: 0 })
+      }}
+    >
+      <ToolbarPopoverButton tooltip="Insert Table" disabled={disabled || !editor.can().insertTable()}>
+        <Table className="h-4 w-4" />
+      </ToolbarPopoverButton>
+      <PopoverContent className="w-auto p-3" align="start">
+        <p className="text-xs font-medium text-gray-500 mb-2">
+          {size.rows ? `${size.cols} × ${size.rows} table` : "Insert table"}
+        </p>
+        <div
+          className="grid gap-1"
+          style={{ gridTemplateColumns: `repeat(${MAX_TABLE_SIZE.cols}, 1.25rem)` }}
+          onMouseLeave={() => setSize({ rows: 0, cols: 0 })}
+        >
+          {Array.from({ length: MAX_TABLE_SIZE.rows * MAX_TABLE_SIZE.cols }, (_, i) => {
+            const row = Math.floor(i / MAX_TABLE_SIZE.cols) + 1
+            const col = (i % MAX_TABLE_SIZE.cols) + 1
+            return (
+              <button
+                key={i}
+                onMouseEnter={() => setSize({ rows: row, cols: col })}
+                onFocus={() => setSize({ rows: row, cols: col })}
+                onClick={insert}
+                className={cn(
+                  "h-5 w-5 rounded-sm border",
+                  row <= size.rows && col <= size.cols ? "bg-blue-100 border-blue-500" : "border-gray-200",
+                )}
+                aria-label={`${col} by ${row} table`}
+              />
+            )
+          })}
+        </div>
+        <label className="flex items-center space-x-2 mt-3 pt-3 border-t border-gray-100 text-xs text-gray-600 cursor-pointer">
+          <input type="checkbox" checked={withHeaderRow} onChange={(e) => setWithHeaderRow(e.target.checked)} />
+          <span>Header row</span>
+        </label>
+      </PopoverContent>
+    </Popover>
+  )
+}
+
+function TableMenuButton({
+  onClick,
+  disabled,
+  isActive,
+  destructive,
+  icon: Icon,
+  children,
+}: {
+  onClick: () => void
+  disabled?: boolean
+  isActive?: boolean
+  destructive?: boolean
+  icon: React.ComponentType<{ className?: string }>
+  children: React.ReactNode
+}) {
+  return (
+    <Button
+      variant={isActive ? "default" : "ghost"}
+      size="sm"
+      onClick={onClick}
+      disabled={disabled}
+      className={cn("h-7 px-2 text-xs rounded-lg", destructive && "text-red-600 hover:text-red-700 hover:bg-red-50")}
+    >
+      <Icon className="h-3.5 w-3.5 mr-1" />
+      {children}
+    </Button>
+  )
+}
+
+// Whether the first row and column of the table around the caret are headers
+function tableHeaders(editor: Editor) {
+  const { $from } = editor.state.selection
+  for (let depth = $from.depth; depth > 0; depth--) {
+    const table = $from.node(depth)
+    if (table.type.name !== "table") continue
+
+    let row = true
+    let column = true
+    table.firstChild?.forEach((cell) => {
+      if (cell.type.name !== "tableHeader") row = false
+    })
+    table.forEach((tableRow) => {
+      if (tableRow.firstChild?.type.name !== "tableHeader") column = false
+    })
+    return { row, column }
+  }
+  return { row: false, column: false }
+}
+
+// Row of table commands shown under the toolbar while the caret is in a table
+export function TableMenu({ editor, disabled }: ToolbarControlProps) {
+  const run = (command: (chain: ReturnType<Editor["chain"]>) => ReturnType<Editor["chain"]>) => () =>
+    command(editor.chain().focus()).run()
+  const can = editor.can()
+  const headers = tableHeaders(editor)
+
+  return (
+    <div className="flex items-center flex-wrap gap-1 mt-2 bg-white rounded-xl p-2 border border-gray-100">
+      <span className="px-2 text-xs font-medium text-gray-500">Table</span>
+      <TableMenuButton
+        onClick={run((c) => c.addRowBefore())}
+        disabled={disabled || !can.addRowBefore()}
+        icon={BetweenHorizontalStart}
+      >
+        Row above
+      </TableMenuButton>
+      <TableMenuButton
+        onClick={run((c) => c.addRowAfter())}
+        disabled={disabled || !can.addRowAfter()}
+        icon={BetweenHorizontalEnd}
+      >
+        Row below
+      </TableMenuButton>
+      <TableMenuButton onClick={run((c) => c.deleteRow())} disabled={disabled || !can.deleteRow()} icon={Trash2}>
+        Row
+      </TableMenuButton>
+      <div className="h-5 w-px bg-gray-200 mx-1" />
+      <TableMenuButton
+        onClick={run((c) => c.addColumnBefore())}
+        disabled={disabled || !can.addColumnBefore()}
+        icon={BetweenVerticalStart}
+      >
+        Column left
+      </TableMenuButton>
+      <TableMenuButton
+        onClick={run((c) => c.addColumnAfter())}
+        disabled={disabled || !can.addColumnAfter()}
+        icon={BetweenVerticalEnd}
+      >
+        Column right
+      </TableMenuButton>
+      <TableMenuButton onClick={run((c) => c.deleteColumn())} disabled={disabled || !can.deleteColumn()} icon={Trash2}>
+        Column
+      </TableMenuButton>
+      <div className="h-5 w-px bg-gray-200 mx-1" />
+      <TableMenuButton
+        onClick={run((c) => c.mergeCells())}
+        disabled={disabled || !can.mergeCells()}
+        icon={TableCellsMerge}
+      >
+        Merge
+      </TableMenuButton>
+      <TableMenuButton
+        onClick={run((c) => c.splitCell())}
+        disabled={disabled || !can.splitCell()}
+        icon={TableCellsSplit}
+      >
+        Split
+      </TableMenuButton>
+      <div className="h-5 w-px bg-gray-200 mx-1" />
+      <TableMenuButton
+        onClick={run((c) => c.toggleHeaderRow())}
+        disabled={disabled || !can.toggleHeaderRow()}
+        isActive={headers.row}
+        icon={PanelTop}
+      >
+        Header row
+      </TableMenuButton>
+      <TableMenuButton
+        onClick={run((c) => c.toggleHeaderColumn())}
+        disabled={disabled || !can.toggleHeaderColumn()}
+        isActive={headers.column}
+        icon={PanelLeft}
+      >
+        Header column
+      </TableMenuButton>
+      <div className="h-5 w-px bg-gray-200 mx-1" />
+      <TableMenuButton
+        onClick={run((c) => c.deleteTable())}
+        disabled={disabled || !can.deleteTable()}
+        destructive
+        icon={Trash2}
+      >
+        Delete table
+      </TableMenuButton>
+    </div>
+  )
+}
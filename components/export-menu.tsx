@@ -0,0 +1,82 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import { Download, FileText, FileCode, FileType, File, Hash, Loader2 } from "lucide-react"
+import { EXPORT_FORMATS, downloadBlob, exportDocument, exportFileName, type ExportFormat } from "@/lib/export"
+import { useToast } from "@/hooks/use-toast"
+import type { PageSettings } from "@/lib/page-layout"
+
+interface ExportMenuProps {
+  title: string
+  // Read when exporting, so unsaved edits are included
+  getContent: () => string
+  pageSettings?: PageSettings
+}
+
+const FORMAT_ICONS: Record<ExportFormat, typeof File> = {
+  pdf: File,
+  docx: FileType,
+  html: FileCode,
+  markdown: Hash,
+  text: FileText,
+}
+
+export function ExportMenu({ title, getContent, pageSettings }: ExportMenuProps) {
+  const [exporting, setExporting] = useState<ExportFormat | null>(null)
+  const { toast } = useToast()
+
+  const runExport = async (format: ExportFormat) => {
+    setExporting(format)
+    try {
+      const blob = await exportDocument({ title, content: getContent(), pageSettings }, format)
+      downloadBlob(blob, exportFileName(title, format))
+    } catch (error: any) {
+      toast({
+        title: "Export failed",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(null)
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={exporting !== null}
+          className="flex items-center space-x-2 bg-white/80 border-gray-200 hover:bg-gray-50 transition-all duration-200 rounded-xl shadow-sm"
+        >
+          {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+          <span className="hidden sm:inline font-medium">Export</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56 rounded-xl">
+        <DropdownMenuLabel className="text-xs text-gray-500 font-normal">Download as</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map((format) => {
+          const Icon = FORMAT_ICONS[format]
+          return (
+            <DropdownMenuItem key={format} onClick={() => runExport(format)} className="cursor-pointer">
+              <Icon className="h-4 w-4 mr-2 text-gray-500" />
+              <span className="flex-1">{EXPORT_FORMATS[format].label}</span>
+              <span className="text-xs text-gray-400">.{EXPORT_FORMATS[format].extension}</span>
+            </DropdownMenuItem>
+          )
+        })}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
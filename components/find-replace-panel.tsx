@@ -0,0 +1,208 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import type { Editor } from "@tiptap/react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { CaseSensitive, ChevronDown, ChevronUp, Regex, Replace, ReplaceAll, WholeWord, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { DEFAULT_SEARCH_OPTIONS, getSearchState, type SearchOptions } from "@/lib/extensions/search-replace"
+
+export type FindReplaceMode = "find" | "replace"
+
+interface FindReplacePanelProps {
+  editor: Editor
+  mode: FindReplaceMode
+  onModeChange: (mode: FindReplaceMode) => void
+  // Bumped by the shortcuts to bring focus back to the query while open
+  focusRequest: number
+  // Viewers can search but not replace
+  readOnly?: boolean
+  // Suggestions are tracked one replacement at a time, so there is no Replace all
+  suggesting?: boolean
+  onClose: () => void
+}
+
+const OPTION_TOGGLES: { key: keyof SearchOptions; label: string; icon: React.ElementType }[] = [
+  { key: "caseSensitive", label: "Match case", icon: CaseSensitive },
+  { key: "wholeWord", label: "Whole word", icon: WholeWord },
+  { key: "regex", label: "Regular expression", icon: Regex },
+]
+
+function PanelButton({
+  onClick,
+  disabled,
+  active,
+  label,
+  children,
+}: {
+  onClick: () => void
+  disabled?: boolean
+  active?: boolean
+  label: string
+  children: React.ReactNode
+}) {
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={onClick}
+      disabled={disabled}
+      className={cn("h-8 w-8 p-0 rounded-lg shrink-0", active && "bg-blue-100 text-blue-700 hover:bg-blue-100")}
+      title={label}
+      aria-label={label}
+      aria-pressed={active}
+    >
+      {children}
+    </Button>
+  )
+}
+
+export function FindReplacePanel({
+  editor,
+  mode,
+  onModeChange,
+  focusRequest,
+  readOnly = false,
+  suggesting = false,
+  onClose,
+}: FindReplacePanelProps) {
+  const [query, setQuery] = useState("")
+  const [replacement, setReplacement] = useState("")
+  const [options, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS)
+  const [, forceRender] = useState(0)
+  const queryRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    queryRef.current?.focus()
+    queryRef.current?.select()
+  }, [focusRequest])
+
+  useEffect(() => {
+    editor.commands.setSearchTerm(query, options)
+  }, [editor, query, options])
+
+  useEffect(() => {
+    const refresh = () => forceRender((n) => n + 1)
+    editor.on("transaction", refresh)
+    return () => {
+      editor.off("transaction", refresh)
+      if (!editor.isDestroyed) editor.commands.clearSearch()
+    }
+  }, [editor])
+
+  const search = getSearchState(editor.state)
+  const count = search?.matches.length ?? 0
+  const canReplace = !readOnly && mode === "replace"
+
+  const close = () => {
+    onClose()
+    editor.commands.focus()
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault()
+      close()
+    }
+  }
+
+  return (
+    <div
+      className="w-[360px] rounded-xl border border-gray-200 bg-white p-2 shadow-xl space-y-2"
+      onKeyDown={handleKeyDown}
+    >
+      <div className="flex items-center space-x-1">
+        <div className="relative flex-1">
+          <Input
+            ref={queryRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== "Enter") return
+              e.preventDefault()
+              if (e.shiftKey) editor.commands.previousSearchMatch()
+              else editor.commands.nextSearchMatch()
+            }}
+            placeholder="Find"
+            aria-label="Find"
+            className={cn("h-8 pr-16 text-sm", search?.error && "border-red-400 focus-visible:ring-red-400")}
+          />
+          <span className="absolute right-2 top-1/2 -translate-y-1/2 text-xs text-gray-500">
+            {query && !search?.error ? (count ? `${search!.current + 1} of ${count}` : "No results") : ""}
+          </span>
+        </div>
+        <PanelButton
+          label="Previous match (Shift+Enter)"
+          onClick={() => editor.commands.previousSearchMatch()}
+          disabled={!count}
+        >
+          <ChevronUp className="h-4 w-4" />
+        </PanelButton>
+        <PanelButton label="Next match (Enter)" onClick={() => editor.commands.nextSearchMatch()} disabled={!count}>
+          <ChevronDown className="h-4 w-4" />
+        </PanelButton>
+        {!readOnly && (
+          <PanelButton
+            label="Toggle replace (Ctrl+H)"
+            onClick={() => onModeChange(mode === "replace" ? "find" : "replace")}
+            active={mode === "replace"}
+          >
+            <Replace className="h-4 w-4" />
+          </PanelButton>
+        )}
+        <PanelButton label="Close (Esc)" onClick={close}>
+          <X className="h-4 w-4" />
+        </PanelButton>
+      </div>
+
+      <div className="flex items-center space-x-1">
+        {OPTION_TOGGLES.map(({ key, label, icon: Icon }) => (
+          <PanelButton
+            key={key}
+            label={label}
+            active={options[key]}
+            onClick={() => setOptions((prev) => ({ ...prev, [key]: !prev[key] }))}
+          >
+            <Icon className="h-4 w-4" />
+          </PanelButton>
+        ))}
+        {search?.error && <span className="truncate text-xs text-red-600">{search.error}</span>}
+      </div>
+
+      {canReplace && (
+        <div className="flex items-center space-x-1">
+          <Input
+            value={replacement}
+            onChange={(e) => setReplacement(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key !== "Enter") return
+              e.preventDefault()
+              editor.commands.replaceSearchMatch(replacement)
+            }}
+            placeholder={options.regex ? "Replace ($1 for groups)" : "Replace"}
+            aria-label="Replace"
+            className="h-8 flex-1 text-sm"
+          />
+          <PanelButton
+            label="Replace (Enter)"
+            onClick={() => editor.commands.replaceSearchMatch(replacement)}
+            disabled={!count}
+          >
+            <Replace className="h-4 w-4" />
+          </PanelButton>
+          {!suggesting && (
+            <PanelButton
+              label="Replace all"
+              onClick={() => editor.commands.replaceAllSearchMatches(replacement)}
+              disabled={!count}
+            >
+              <ReplaceAll className="h-4 w-4" />
+            </PanelButton>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
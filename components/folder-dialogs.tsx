@@ -0,0 +1,383 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { Folder as FolderIcon, FolderOpen, Home, Loader2, Mail, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import {
+  addFolderMember,
+  fetchFolderMembers,
+  removeFolderMember,
+  type Folder,
+  type FolderMember,
+  type FolderRole,
+} from "@/lib/folders"
+
+const ROLE_LABELS: Record<FolderRole, string> = {
+  editor: "Can edit",
+  commenter: "Can suggest",
+  viewer: "Can view",
+}
+
+interface FolderNameDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  title: string
+  initialName?: string
+  submitLabel: string
+  // Reports its own errors; the dialog closes once it settles
+  onSubmit: (name: string) => Promise<void>
+}
+
+export function FolderNameDialog({
+  open,
+  onOpenChange,
+  title,
+  initialName = "",
+  submitLabel,
+  onSubmit,
+}: FolderNameDialogProps) {
+  const [name, setName] = useState(initialName)
+  const [isSaving, setIsSaving] = useState(false)
+
+  useEffect(() => {
+    if (open) setName(initialName)
+  }, [open, initialName])
+
+  const submit = async () => {
+    if (!name.trim()) return
+    setIsSaving(true)
+    try {
+      await onSubmit(name)
+      onOpenChange(false)
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="folder-name" className="text-sm font-semibold">
+            Name
+          </Label>
+          <Input
+            id="folder-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && submit()}
+            placeholder="Untitled folder"
+            autoFocus
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={submit} disabled={!name.trim() || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface MoveToDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  // Name of what is being moved
+  itemName: string
+  folders: Folder[]
+  currentFolderId: string | null
+  // Folders that cannot be picked, e.g. a folder being moved and its subfolders
+  excludedIds?: Set<string>
+  // Reports its own errors; the dialog closes once it settles
+  onMove: (folderId: string | null) => Promise<void>
+}
+
+function FolderTree({
+  folders,
+  parentId,
+  selected,
+  excludedIds,
+  onSelect,
+}: {
+  folders: Folder[]
+  parentId: string | null
+  selected: string | null
+  excludedIds?: Set<string>
+  onSelect: (folderId: string) => void
+}) {
+  const children = folders.filter((folder) => folder.parentId === parentId)
+  if (children.length === 0) return null
+
+  return (
+    <ul className="pl-4">
+      {children.map((folder) => {
+        const excluded = excludedIds?.has(folder.id)
+        return (
+          <li key={folder.id}>
+            <button
+              type="button"
+              disabled={excluded}
+              onClick={() => onSelect(folder.id)}
+              className={cn(
+                "flex w-full items-center space-x-2 rounded-lg px-2 py-1.5 text-left text-sm",
+                selected === folder.id ? "bg-blue-50 text-blue-700" : "hover:bg-gray-50",
+                excluded && "opacity-40 cursor-not-allowed hover:bg-transparent",
+              )}
+            >
+              {selected === folder.id ? (
+                <FolderOpen className="h-4 w-4 shrink-0" />
+              ) : (
+                <FolderIcon className="h-4 w-4 shrink-0 text-gray-400" />
+              )}
+              <span className="truncate">{folder.name}</span>
+            </button>
+            {!excluded && (
+              <FolderTree
+                folders={folders}
+                parentId={folder.id}
+                selected={selected}
+                excludedIds={excludedIds}
+                onSelect={onSelect}
+              />
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export function MoveToDialog({
+  open,
+  onOpenChange,
+  itemName,
+  folders,
+  currentFolderId,
+  excludedIds,
+  onMove,
+}: MoveToDialogProps) {
+  const [selected, setSelected] = useState<string | null>(currentFolderId)
+  const [isMoving, setIsMoving] = useState(false)
+
+  useEffect(() => {
+    if (open) setSelected(currentFolderId)
+  }, [open, currentFolderId])
+
+  const move = async () => {
+    setIsMoving(true)
+    try {
+      await onMove(selected)
+      onOpenChange(false)
+    } finally {
+      setIsMoving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Move “{itemName}”</DialogTitle>
+          <DialogDescription>Choose the folder to move it to.</DialogDescription>
+        </DialogHeader>
+        <div className="max-h-80 overflow-y-auto rounded-xl border border-gray-200 p-2">
+          <button
+            type="button"
+            onClick={() => setSelected(null)}
+            className={cn(
+              "flex w-full items-center space-x-2 rounded-lg px-2 py-1.5 text-left text-sm font-medium",
+              selected === null ? "bg-blue-50 text-blue-700" : "hover:bg-gray-50",
+            )}
+          >
+            <Home className="h-4 w-4" />
+            <span>My documents</span>
+          </button>
+          <FolderTree
+            folders={folders}
+            parentId={null}
+            selected={selected}
+            excludedIds={excludedIds}
+            onSelect={setSelected}
+          />
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={move} disabled={selected === currentFolderId || isMoving}>
+            {isMoving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Move here
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface ShareFolderDialogProps {
+  // The folder being shared; the dialog is open while set
+  folder: Folder | null
+  onOpenChange: (open: boolean) => void
+}
+
+export function ShareFolderDialog({ folder, onOpenChange }: ShareFolderDialogProps) {
+  const [members, setMembers] = useState<FolderMember[]>([])
+  const [email, setEmail] = useState("")
+  const [role, setRole] = useState<FolderRole>("editor")
+  const [isInviting, setIsInviting] = useState(false)
+  const { toast } = useToast()
+
+  const loadMembers = async (folderId: string) => {
+    try {
+      setMembers(await fetchFolderMembers(folderId))
+    } catch (error: any) {
+      toast({
+        title: "Could not load folder members",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  useEffect(() => {
+    setMembers([])
+    setEmail("")
+    if (folder) loadMembers(folder.id)
+  }, [folder?.id])
+
+  const invite = async () => {
+    if (!folder || !email) return
+    setIsInviting(true)
+    try {
+      await addFolderMember(folder.id, email, role)
+      await loadMembers(folder.id)
+      setEmail("")
+      toast({
+        title: "Folder shared",
+        description: `${email} now has access to every document in ${folder.name}.`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Could not share folder",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsInviting(false)
+    }
+  }
+
+  const remove = async (member: FolderMember) => {
+    if (!folder) return
+    try {
+      await removeFolderMember(folder.id, member.id)
+      setMembers((prev) => prev.filter((m) => m.id !== member.id))
+    } catch (error: any) {
+      toast({
+        title: "Could not remove access",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={folder !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share “{folder?.name}”</DialogTitle>
+          <DialogDescription>
+            People you add get access to every document in this folder and its subfolders.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center space-x-2">
+          <div className="relative flex-1">
+            <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <Input
+              type="email"
+              placeholder="Enter email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && invite()}
+              className="pl-10"
+            />
+          </div>
+          <Select value={role} onValueChange={(value: FolderRole) => setRole(value)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(ROLE_LABELS) as FolderRole[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {ROLE_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button onClick={invite} disabled={!email || isInviting}>
+          {isInviting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Share
+        </Button>
+
+        <div className="space-y-2">
+          {members.length === 0 ? (
+            <p className="text-sm text-gray-500">Only you can see this folder.</p>
+          ) : (
+            members.map((member) => (
+              <div
+                key={member.id}
+                className="flex items-center justify-between rounded-lg px-2 py-1.5 hover:bg-gray-50"
+              >
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Avatar className="h-8 w-8">
+                    <AvatarImage src={member.avatar || "/placeholder.svg"} alt={member.name} />
+                    <AvatarFallback>{member.name.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{member.name}</p>
+                    <p className="text-xs text-gray-500 truncate">
+                      {member.email} · {ROLE_LABELS[member.role]}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={() => remove(member)}
+                  aria-label={`Remove ${member.name}`}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
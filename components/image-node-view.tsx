@@ -0,0 +1,189 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { NodeViewWrapper, type NodeViewProps } from "@tiptap/react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { AlignLeft, AlignCenter, AlignRight, Trash2, Type } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { ImageAlignment } from "@/lib/extensions/image"
+
+const ALIGN_CLASSES: Record<ImageAlignment, string> = {
+  left: "items-start",
+  center: "items-center",
+  right: "items-end",
+}
+
+const MIN_WIDTH = 10
+
+export function ImageNodeView({ node, updateAttributes, deleteNode, selected, editor }: NodeViewProps) {
+  const { src, alt, caption, align, width } = node.attrs as {
+    src: string
+    alt: string
+    caption: string
+    align: ImageAlignment
+    width: number | null
+  }
+  const [captionDraft, setCaptionDraft] = useState(caption)
+  const [altDraft, setAltDraft] = useState(alt)
+  const [resizeWidth, setResizeWidth] = useState<number | null>(null)
+  const wrapperRef = useRef<HTMLDivElement>(null)
+  const editable = editor.isEditable
+
+  useEffect(() => setCaptionDraft(caption), [caption])
+  useEffect(() => setAltDraft(alt), [alt])
+
+  // Dragging the corner sets the width as a percentage of the page
+  const startResize = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.preventDefault()
+    e.stopPropagation()
+    const container = wrapperRef.current
+    const image = container?.querySelector("img")
+    if (!container || !image) return
+
+    const startX = e.clientX
+    const startWidth = image.getBoundingClientRect().width
+    const containerWidth = container.getBoundingClientRect().width
+    // Centered images grow on both sides, so the pointer moves half as far
+    const factor = align === "center" ? 2 : align === "right" ? -1 : 1
+    let next = width ?? Math.round((startWidth / containerWidth) * 100)
+
+    const onMove = (event: PointerEvent) => {
+      const pixels = startWidth + (event.clientX - startX) * factor
+      next = Math.round(Math.min(100, Math.max(MIN_WIDTH, (pixels / containerWidth) * 100)))
+      setResizeWidth(next)
+    }
+    const onUp = () => {
+      window.removeEventListener("pointermove", onMove)
+      window.removeEventListener("pointerup", onUp)
+      setResizeWidth(null)
+      updateAttributes({ width: next })
+    }
+
+    window.addEventListener("pointermove", onMove)
+    window.addEventListener("pointerup", onUp)
+  }
+
+  const commitCaption = () => {
+    if (captionDraft !== caption) updateAttributes({ caption: captionDraft.trim() })
+  }
+
+  const shownWidth = resizeWidth ?? width
+
+  return (
+    <NodeViewWrapper
+      as="figure"
+      ref={wrapperRef}
+      data-type="image"
+      className={cn("my-6 flex flex-col not-prose", ALIGN_CLASSES[align] || ALIGN_CLASSES.center)}
+    >
+      <div
+        className={cn("relative inline-block max-w-full", selected && editable && "ring-2 ring-blue-500 rounded-md")}
+        style={{ width: shownWidth ? `${shownWidth}%` : undefined }}
+        data-drag-handle
+      >
+        <img src={src} alt={alt} className="block w-full h-auto rounded-md" draggable={false} />
+
+        {selected && editable && (
+          <>
+            <div className="absolute -top-11 left-1/2 -translate-x-1/2 flex items-center space-x-1 bg-white border border-gray-200 rounded-lg shadow-lg p-1 z-10">
+              {(["left", "center", "right"] as ImageAlignment[]).map((option) => {
+                const Icon = option === "left" ? AlignLeft : option === "center" ? AlignCenter : AlignRight
+                return (
+                  <Button
+                    key={option}
+                    variant={align === option ? "default" : "ghost"}
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => updateAttributes({ align: option })}
+                    title={`Align ${option}`}
+                  >
+                    <Icon className="h-3.5 w-3.5" />
+                  </Button>
+                )
+              })}
+              <div className="h-5 w-px bg-gray-200 mx-1" />
+              {[25, 50, 75, 100].map((preset) => (
+                <Button
+                  key={preset}
+                  variant={width === preset ? "default" : "ghost"}
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => updateAttributes({ width: preset })}
+                >
+                  {preset}%
+                </Button>
+              ))}
+              <div className="h-5 w-px bg-gray-200 mx-1" />
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant={alt ? "ghost" : "outline"} size="sm" className="h-7 px-2 text-xs" title="Alt text">
+                    <Type className="h-3.5 w-3.5 mr-1" />
+                    Alt
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-72 p-3">
+                  <form
+                    onSubmit={(e) => {
+                      e.preventDefault()
+                      updateAttributes({ alt: altDraft.trim() })
+                    }}
+                    className="space-y-2"
+                  >
+                    <p className="text-xs font-medium text-gray-500">Describe this image for screen readers</p>
+                    <Input value={altDraft} onChange={(e) => setAltDraft(e.target.value)} className="h-8 text-sm" />
+                    <Button type="submit" size="sm" className="h-7 w-full text-xs">
+                      Save alt text
+                    </Button>
+                  </form>
+                </PopoverContent>
+              </Popover>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0 text-red-600" onClick={deleteNode} title="Remove">
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+
+            <div
+              onPointerDown={startResize}
+              className="absolute -bottom-1.5 -right-1.5 h-3 w-3 bg-blue-500 border-2 border-white rounded-full cursor-nwse-resize"
+              title="Drag to resize"
+            />
+          </>
+        )}
+      </div>
+
+      {editable ? (
+        <input
+          value={captionDraft}
+          onChange={(e) => setCaptionDraft(e.target.value)}
+          onBlur={commitCaption}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              commitCaption()
+              editor.commands.focus()
+            }
+          }}
+          placeholder="Add a caption"
+          className={cn(
+            "mt-2 w-full bg-transparent text-sm text-gray-500 italic outline-none placeholder:text-gray-300",
+            align === "left" ? "text-left" : align === "right" ? "text-right" : "text-center",
+          )}
+        />
+      ) : (
+        caption && (
+          <figcaption
+            className={cn(
+              "mt-2 w-full text-sm text-gray-500 italic",
+              align === "left" ? "text-left" : align === "right" ? "text-right" : "text-center",
+            )}
+          >
+            {caption}
+          </figcaption>
+        )
+      )}
+    </NodeViewWrapper>
+  )
+}
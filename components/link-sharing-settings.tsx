@@ -0,0 +1,213 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Copy, Globe, KeyRound, Lock, Loader2, RefreshCw, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import {
+  isLinkExpired,
+  linkUrl,
+  regenerateLink,
+  setLinkAccess,
+  setLinkExpiry,
+  setLinkPassword,
+  type DocumentLink,
+  type LinkAccess,
+} from "@/lib/links"
+
+const ACCESS_OPTIONS: Record<LinkAccess, { label: string; description: string }> = {
+  restricted: { label: "Restricted", description: "Only people with access can open the document" },
+  viewer: { label: "Anyone with the link can view", description: "Signed-in users with the link can read" },
+  commenter: { label: "Anyone with the link can comment", description: "Their edits become suggestions" },
+  editor: { label: "Anyone with the link can edit", description: "Signed-in users with the link can edit" },
+}
+
+// <input type="date"> works in local calendar days
+function toDateInput(date: Date) {
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+interface LinkSharingSettingsProps {
+  documentId: string
+  link: DocumentLink | null
+  onLinkChange: (link: DocumentLink | null) => void
+  // Only the owner can change general access
+  canManage: boolean
+}
+
+export function LinkSharingSettings({ documentId, link, onLinkChange, canManage }: LinkSharingSettingsProps) {
+  const [password, setPassword] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+  const access: LinkAccess = link?.role ?? "restricted"
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true)
+    try {
+      await action()
+    } catch (error: any) {
+      toast({
+        title: "Could not update link sharing",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const changeAccess = (value: LinkAccess) =>
+    run(async () => onLinkChange(await setLinkAccess(documentId, value, link)))
+
+  const changeExpiry = (value: string) =>
+    run(async () => onLinkChange(await setLinkExpiry(documentId, value ? new Date(`${value}T23:59:59`) : null)))
+
+  const changePassword = (value: string | null) =>
+    run(async () => {
+      await setLinkPassword(documentId, value)
+      setPassword("")
+      onLinkChange(link && { ...link, hasPassword: Boolean(value) })
+    })
+
+  const regenerate = () =>
+    run(async () => {
+      const token = await regenerateLink(documentId)
+      onLinkChange(link && { ...link, token })
+      toast({
+        title: "Link reset",
+        description: "The old link no longer works. Share the new one with anyone who still needs access.",
+      })
+    })
+
+  const copyLink = () => {
+    if (!link) return
+    navigator.clipboard.writeText(linkUrl(link.token))
+    toast({
+      title: "Link copied!",
+      description: link.hasPassword
+        ? "People opening it will be asked for the password."
+        : "Anyone signed in with this link can open the document.",
+    })
+  }
+
+  return (
+    <div className="space-y-4 border-t border-gray-100 pt-5">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-semibold">General access</Label>
+        {isSaving && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+      </div>
+
+      <div className="flex items-center space-x-3">
+        <div className={link ? "p-2 bg-green-100 rounded-lg" : "p-2 bg-gray-100 rounded-lg"}>
+          {link ? <Globe className="h-4 w-4 text-green-700" /> : <Lock className="h-4 w-4 text-gray-600" />}
+        </div>
+        <Select value={access} onValueChange={changeAccess} disabled={!canManage || isSaving}>
+          <SelectTrigger className="h-11 flex-1 rounded-xl bg-gray-50/50 border-gray-200">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(ACCESS_OPTIONS) as LinkAccess[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                <div>
+                  <p className="font-medium">{ACCESS_OPTIONS[value].label}</p>
+                  <p className="text-xs text-gray-500">{ACCESS_OPTIONS[value].description}</p>
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {link && (
+        <>
+          <div className="flex space-x-2">
+            <Input readOnly value={linkUrl(link.token)} className="h-9 text-xs bg-gray-50/50" />
+            <Button variant="outline" size="sm" className="h-9" onClick={copyLink}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy
+            </Button>
+          </div>
+          {isLinkExpired(link) && (
+            <p className="text-xs text-red-600">
+              This link expired on {link.expiresAt!.toLocaleDateString()} and no longer gives access.
+            </p>
+          )}
+
+          {canManage && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="link-expiry" className="text-xs font-semibold text-gray-600">
+                  Expires after
+                </Label>
+                <Input
+                  id="link-expiry"
+                  type="date"
+                  value={link.expiresAt ? toDateInput(link.expiresAt) : ""}
+                  min={toDateInput(new Date())}
+                  onChange={(e) => changeExpiry(e.target.value)}
+                  disabled={isSaving}
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="link-password" className="text-xs font-semibold text-gray-600">
+                  Password
+                </Label>
+                {link.hasPassword ? (
+                  <div className="flex h-9 items-center justify-between rounded-md border border-gray-200 px-3 text-sm">
+                    <span className="flex items-center space-x-2 text-gray-700">
+                      <KeyRound className="h-3.5 w-3.5" />
+                      <span>Protected</span>
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => changePassword(null)}
+                      disabled={isSaving}
+                      aria-label="Remove password"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex space-x-2">
+                    <Input
+                      id="link-password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && password && changePassword(password)}
+                      placeholder="Optional"
+                      className="h-9"
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-9"
+                      onClick={() => changePassword(password)}
+                      disabled={!password || isSaving}
+                    >
+                      Set
+                    </Button>
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {canManage && (
+            <Button variant="ghost" size="sm" className="text-gray-600" onClick={regenerate} disabled={isSaving}>
+              <RefreshCw className="h-4 w-4 mr-2" />
+              Reset link
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,243 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import { ArrowLeft, AtSign, Bell, CheckCheck, Loader2, Mail, MessageSquare, Settings, UserPlus } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { useNotifications } from "@/hooks/use-notifications"
+import { cn } from "@/lib/utils"
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NOTIFICATION_SETTINGS,
+  describeNotification,
+  fetchNotificationPreferences,
+  notificationHref,
+  saveNotificationPreferences,
+  type AppNotification,
+  type NotificationPreferences,
+  type NotificationSetting,
+  type NotificationType,
+} from "@/lib/notifications"
+
+const TYPE_ICONS: Record<NotificationType, typeof Bell> = {
+  share: UserPlus,
+  invitation: Mail,
+  mention: AtSign,
+  reply: MessageSquare,
+}
+
+function formatAge(date: Date) {
+  const diffInMinutes = (Date.now() - date.getTime()) / (1000 * 60)
+  if (diffInMinutes < 1) return "Just now"
+  if (diffInMinutes < 60) return `${Math.floor(diffInMinutes)}m ago`
+  if (diffInMinutes < 1440) return `${Math.floor(diffInMinutes / 60)}h ago`
+  if (diffInMinutes < 10080) return `${Math.floor(diffInMinutes / 1440)}d ago`
+  return date.toLocaleDateString()
+}
+
+function NotificationPreferencesView({ userId }: { userId: string }) {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES)
+  const [loading, setLoading] = useState(true)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    fetchNotificationPreferences(userId)
+      .then(setPreferences)
+      .catch((error: any) =>
+        toast({
+          title: "Could not load notification settings",
+          description: error.message,
+          variant: "destructive",
+        }),
+      )
+      .finally(() => setLoading(false))
+  }, [userId])
+
+  const toggle = async (type: NotificationSetting, enabled: boolean) => {
+    const previous = preferences
+    const next = { ...preferences, [type]: enabled }
+    setPreferences(next)
+    try {
+      await saveNotificationPreferences(userId, next)
+    } catch (error: any) {
+      setPreferences(previous)
+      toast({
+        title: "Could not save notification settings",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="p-6 flex items-center justify-center text-gray-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-4 space-y-4">
+      <p className="text-xs text-gray-500">Choose what you want to be notified about.</p>
+      {(Object.keys(NOTIFICATION_SETTINGS) as NotificationSetting[]).map((type) => (
+        <div key={type} className="flex items-center justify-between space-x-4">
+          <div>
+            <Label htmlFor={`notify-${type}`} className="text-sm font-medium">
+              {NOTIFICATION_SETTINGS[type].label}
+            </Label>
+            <p className="text-xs text-gray-500">{NOTIFICATION_SETTINGS[type].description}</p>
+          </div>
+          <Switch id={`notify-${type}`} checked={preferences[type]} onCheckedChange={(value) => toggle(type, value)} />
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface NotificationMenuProps {
+  userId?: string
+  className?: string
+}
+
+// Bell button with the unread count; opens the list of recent notifications
+export function NotificationMenu({ userId, className }: NotificationMenuProps) {
+  const [open, setOpen] = useState(false)
+  const [showPreferences, setShowPreferences] = useState(false)
+  const { notifications, unreadCount, loading, markRead, markAllRead } = useNotifications(userId)
+  const router = useRouter()
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) setShowPreferences(false)
+  }, [open])
+
+  const reportError = (error: any) =>
+    toast({
+      title: "Could not update notifications",
+      description: error.message,
+      variant: "destructive",
+    })
+
+  const openNotification = (notification: AppNotification) => {
+    setOpen(false)
+    if (!notification.readAt) markRead([notification.id]).catch(reportError)
+    const href = notificationHref(notification)
+    if (href) router.push(href)
+  }
+
+  if (!userId) return null
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn("relative h-9 w-9 p-0 rounded-full", className)}
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : "Notifications"}
+        >
+          <Bell className="h-5 w-5 text-gray-600" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-[10px] font-semibold leading-[18px] text-white text-center">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-96 p-0 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-3 border-b border-gray-100 bg-gray-50">
+          {showPreferences ? (
+            <button
+              type="button"
+              onClick={() => setShowPreferences(false)}
+              className="flex items-center space-x-2 text-sm font-semibold text-gray-900"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              <span>Notification settings</span>
+            </button>
+          ) : (
+            <>
+              <h3 className="text-sm font-semibold text-gray-900">Notifications</h3>
+              <div className="flex items-center space-x-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2 text-xs"
+                  onClick={() => markAllRead().catch(reportError)}
+                  disabled={unreadCount === 0}
+                >
+                  <CheckCheck className="h-3.5 w-3.5 mr-1" />
+                  Mark all as read
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => setShowPreferences(true)}
+                  aria-label="Notification settings"
+                >
+                  <Settings className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+
+        {showPreferences ? (
+          <NotificationPreferencesView userId={userId} />
+        ) : loading ? (
+          <div className="p-6 flex items-center justify-center text-gray-500">
+            <Loader2 className="h-4 w-4 animate-spin" />
+          </div>
+        ) : notifications.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500 text-center">
+            You&apos;re all caught up. Shares, mentions and replies will show up here.
+          </p>
+        ) : (
+          <div className="max-h-[420px] overflow-y-auto divide-y divide-gray-100">
+            {notifications.map((notification) => {
+              const Icon = TYPE_ICONS[notification.type]
+              return (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => openNotification(notification)}
+                  className={cn(
+                    "flex w-full items-start space-x-3 px-4 py-3 text-left hover:bg-gray-50",
+                    !notification.readAt && "bg-blue-50/50",
+                  )}
+                >
+                  <div className="relative shrink-0">
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={notification.actor?.avatar} alt={notification.actor?.name} />
+                      <AvatarFallback className="text-xs">{notification.actor?.name?.charAt(0) || "?"}</AvatarFallback>
+                    </Avatar>
+                    <span className="absolute -bottom-1 -right-1 rounded-full bg-white p-0.5 shadow">
+                      <Icon className="h-3 w-3 text-blue-600" />
+                    </span>
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className={cn("text-sm text-gray-900", !notification.readAt && "font-medium")}>
+                      {describeNotification(notification)}
+                    </p>
+                    {notification.excerpt && (
+                      <p className="text-xs text-gray-500 line-clamp-2 mt-0.5">{notification.excerpt}</p>
+                    )}
+                    <p className="text-xs text-gray-400 mt-1">{formatAge(notification.createdAt)}</p>
+                  </div>
+                  {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-blue-600" />}
+                </button>
+              )
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -1,13 +1,29 @@
 "use client"
 
 import type React from "react"
-import { useEditor, EditorContent } from "@tiptap/react"
-import StarterKit from "@tiptap/starter-kit"
-import Underline from "@tiptap/extension-underline"
-import TextAlign from "@tiptap/extension-text-align"
+import { useEditor, EditorContent, type Editor } from "@tiptap/react"
+import { isChangeOrigin } from "@tiptap/extension-collaboration"
+import { createEditorExtensions } from "@/lib/editor-extensions"
+import { getPageCount } from "@/lib/extensions/pagination"
+import type { PageSettings } from "@/lib/page-layout"
+import type { PresenceUser } from "@/lib/presence"
+import type { CollaborationSession } from "@/hooks/use-collaboration"
+import type { Attachment } from "@/lib/attachments"
+import { useToast } from "@/hooks/use-toast"
 import { Button } from "@/components/ui/button"
 import { Separator } from "@/components/ui/separator"
 import { Badge } from "@/components/ui/badge"
+import { PageFrame, pageGeometry } from "@/components/page-frame"
+import { FindReplacePanel, type FindReplaceMode } from "@/components/find-replace-panel"
+import {
+  TextColorPicker,
+  HighlightColorPicker,
+  LinkButton,
+  LinkBubbleMenu,
+  CodeLanguageSelect,
+  TableInsertPicker,
+  TableMenu,
+} from "@/components/editor-toolbar-controls"
 import {
   Bold,
   Italic,
@@ -15,6 +31,12 @@ import {
   List,
   ListOrdered,
   Quote,
+  Code2,
+  ImageIcon,
+  Paperclip,
+  SeparatorHorizontal,
+  ListTree,
+  TextSearch,
   Undo,
   Redo,
   AlignLeft,
@@ -25,13 +47,26 @@ import {
   Heading3,
   Type,
   Lock,
+  PenLine,
 } from "lucide-react"
-import { memo, useCallback, useMemo } from "react"
+import { memo, useCallback, useEffect, useMemo, useRef, useState } from "react"
 
 interface RichTextEditorProps {
   content: string
   onChange: (content: string) => void
   readOnly?: boolean
+  // Shared document to bind to; `content` is ignored when present
+  collaboration?: CollaborationSession
+  // Identity of the local user, shown on their caret and on their suggestions
+  presenceUser?: PresenceUser
+  // Record edits as tracked changes instead of applying them
+  suggesting?: boolean
+  // Stores files pasted, dropped or inserted into the document
+  onUploadFile?: (file: File) => Promise<Attachment>
+  // Shows the document on pages of this size instead of a single surface
+  pageSettings?: PageSettings
+  // Gives the surrounding page access to the live editor instance
+  onEditorReady?: (editor: Editor | null) => void
 }
 
 // Memoized toolbar button for better performance
@@ -66,11 +101,17 @@ const ToolbarButton = memo(
 
 ToolbarButton.displayName = "ToolbarButton"
 
-export const RichTextEditor = memo(({ content, onChange, readOnly = false }: RichTextEditorProps) => {
+export const RichTextEditor = memo(({ content, onChange, readOnly = false, collaboration, presenceUser, suggesting = false, onUploadFile, pageSettings, onEditorReady }: RichTextEditorProps) => {
+  const { toast } = useToast()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [findMode, setFindMode] = useState<FindReplaceMode | null>(null)
+  const [findFocusRequest, setFindFocusRequest] = useState(0)
+
   // Optimized onChange handler
   const handleUpdate = useCallback(
-    ({ editor }: any) => {
-      if (!readOnly) {
+    ({ editor, transaction }: any) => {
+      // Changes merged in from other collaborators are reported by their own editors
+      if (!readOnly && !isChangeOrigin(transaction)) {
         // Use requestAnimationFrame to defer the update and improve performance
         requestAnimationFrame(() => {
           onChange(editor.getHTML())
@@ -82,19 +123,19 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
 
   const editor = useEditor(
     {
-      extensions: [
-        StarterKit.configure({
-          // Disable history extension to improve performance
-          history: {
-            depth: 50, // Reduce history depth
-          },
-        }),
-        Underline,
-        TextAlign.configure({
-          types: ["heading", "paragraph"],
-        }),
-      ],
-      content,
+      extensions: createEditorExtensions({
+        document: collaboration?.doc,
+        provider: collaboration?.provider,
+        user: presenceUser,
+        uploadFile: onUploadFile,
+        onUploadError: (error, file) =>
+          toast({
+            title: `Could not upload ${file.name}`,
+            description: error.message,
+            variant: "destructive",
+          }),
+      }),
+      content: collaboration ? undefined : content,
       editable: !readOnly,
       onUpdate: handleUpdate,
       editorProps: {
@@ -106,9 +147,30 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
       // Optimize editor creation
       immediatelyRender: false,
     },
-    [readOnly],
+    [readOnly, collaboration, presenceUser, onUploadFile],
   )
 
+  useEffect(() => {
+    if (!editor) return
+    editor.storage.suggestionMode.enabled = suggesting
+    editor.storage.suggestionMode.author = presenceUser ? { id: presenceUser.id, name: presenceUser.name } : null
+  }, [editor, suggesting, presenceUser])
+
+  const paged = pageSettings?.layout === "paged"
+  // Only typed text can be tracked as a suggestion, so formatting and
+  // inserting blocks are unavailable while suggesting
+  const formattingDisabled = readOnly || suggesting
+
+  useEffect(() => {
+    if (!editor) return
+    editor.commands.setPageGeometry(paged && pageSettings ? pageGeometry(pageSettings) : null)
+  }, [editor, paged, pageSettings])
+
+  useEffect(() => {
+    onEditorReady?.(editor)
+    return () => onEditorReady?.(null)
+  }, [editor, onEditorReady])
+
   // Memoize toolbar actions for better performance
   const toolbarActions = useMemo(() => {
     if (!editor) return {}
@@ -131,6 +193,20 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
     }
   }, [editor])
 
+  const openFind = (mode: FindReplaceMode) => {
+    setFindMode(mode === "replace" && readOnly ? "find" : mode)
+    setFindFocusRequest((n) => n + 1)
+  }
+
+  // Ctrl+F / Ctrl+H anywhere in the editor, toolbar or open panel
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || e.shiftKey) return
+    const key = e.key.toLowerCase()
+    if (key !== "f" && key !== "h") return
+    e.preventDefault()
+    openFind(key === "h" ? "replace" : "find")
+  }
+
   if (!editor) {
     return (
       <div className="border-0 rounded-2xl overflow-hidden bg-white shadow-lg">
@@ -140,7 +216,7 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
   }
 
   return (
-    <div className="border-0 rounded-2xl overflow-hidden bg-white shadow-lg">
+    <div className="border-0 rounded-2xl overflow-hidden bg-white shadow-lg" onKeyDown={handleKeyDown}>
       {/* Simplified Toolbar */}
       <div className="border-b border-gray-100 p-3 bg-gray-50">
         <div className="flex items-center justify-between mb-3">
@@ -159,6 +235,12 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
               <span>View Only</span>
             </Badge>
           )}
+          {!readOnly && suggesting && (
+            <Badge variant="secondary" className="flex items-center space-x-1 text-xs bg-green-100 text-green-800">
+              <PenLine className="h-3 w-3" />
+              <span>Suggesting</span>
+            </Badge>
+          )}
         </div>
 
         <div className="flex items-center space-x-1 flex-wrap gap-1 bg-white rounded-xl p-2 border border-gray-100">
@@ -176,6 +258,7 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <ToolbarButton
             onClick={toolbarActions.toggleH1}
             isActive={editor.isActive("heading", { level: 1 })}
+            disabled={formattingDisabled}
             tooltip="Heading 1"
           >
             <Heading1 className="h-4 w-4" />
@@ -183,6 +266,7 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <ToolbarButton
             onClick={toolbarActions.toggleH2}
             isActive={editor.isActive("heading", { level: 2 })}
+            disabled={formattingDisabled}
             tooltip="Heading 2"
           >
             <Heading2 className="h-4 w-4" />
@@ -190,6 +274,7 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <ToolbarButton
             onClick={toolbarActions.toggleH3}
             isActive={editor.isActive("heading", { level: 3 })}
+            disabled={formattingDisabled}
             tooltip="Heading 3"
           >
             <Heading3 className="h-4 w-4" />
@@ -198,19 +283,33 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <Separator orientation="vertical" className="h-6 mx-1" />
 
           {/* Text Formatting */}
-          <ToolbarButton onClick={toolbarActions.toggleBold} isActive={editor.isActive("bold")} tooltip="Bold">
+          <ToolbarButton
+            onClick={toolbarActions.toggleBold}
+            isActive={editor.isActive("bold")}
+            disabled={formattingDisabled}
+            tooltip="Bold"
+          >
             <Bold className="h-4 w-4" />
           </ToolbarButton>
-          <ToolbarButton onClick={toolbarActions.toggleItalic} isActive={editor.isActive("italic")} tooltip="Italic">
+          <ToolbarButton
+            onClick={toolbarActions.toggleItalic}
+            isActive={editor.isActive("italic")}
+            disabled={formattingDisabled}
+            tooltip="Italic"
+          >
             <Italic className="h-4 w-4" />
           </ToolbarButton>
           <ToolbarButton
             onClick={toolbarActions.toggleUnderline}
             isActive={editor.isActive("underline")}
+            disabled={formattingDisabled}
             tooltip="Underline"
           >
             <UnderlineIcon className="h-4 w-4" />
           </ToolbarButton>
+          <TextColorPicker editor={editor} disabled={formattingDisabled} />
+          <HighlightColorPicker editor={editor} disabled={formattingDisabled} />
+          <LinkButton editor={editor} disabled={formattingDisabled} />
 
           <Separator orientation="vertical" className="h-6 mx-1" />
 
@@ -218,6 +317,7 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <ToolbarButton
             onClick={toolbarActions.toggleBulletList}
             isActive={editor.isActive("bulletList")}
+            disabled={formattingDisabled}
             tooltip="Bullet List"
           >
             <List className="h-4 w-4" />
@@ -225,6 +325,7 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <ToolbarButton
             onClick={toolbarActions.toggleOrderedList}
             isActive={editor.isActive("orderedList")}
+            disabled={formattingDisabled}
             tooltip="Numbered List"
           >
             <ListOrdered className="h-4 w-4" />
@@ -236,6 +337,7 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <ToolbarButton
             onClick={toolbarActions.setAlignLeft}
             isActive={editor.isActive({ textAlign: "left" })}
+            disabled={formattingDisabled}
             tooltip="Align Left"
           >
             <AlignLeft className="h-4 w-4" />
@@ -243,6 +345,7 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <ToolbarButton
             onClick={toolbarActions.setAlignCenter}
             isActive={editor.isActive({ textAlign: "center" })}
+            disabled={formattingDisabled}
             tooltip="Align Center"
           >
             <AlignCenter className="h-4 w-4" />
@@ -250,6 +353,7 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <ToolbarButton
             onClick={toolbarActions.setAlignRight}
             isActive={editor.isActive({ textAlign: "right" })}
+            disabled={formattingDisabled}
             tooltip="Align Right"
           >
             <AlignRight className="h-4 w-4" />
@@ -261,17 +365,110 @@ export const RichTextEditor = memo(({ content, onChange, readOnly = false }: Ric
           <ToolbarButton
             onClick={toolbarActions.toggleBlockquote}
             isActive={editor.isActive("blockquote")}
+            disabled={formattingDisabled}
             tooltip="Quote"
           >
             <Quote className="h-4 w-4" />
           </ToolbarButton>
+          <ToolbarButton
+            onClick={() => editor.chain().focus().toggleCodeBlock().run()}
+            isActive={editor.isActive("codeBlock")}
+            disabled={formattingDisabled}
+            tooltip="Code Block"
+          >
+            <Code2 className="h-4 w-4" />
+          </ToolbarButton>
+          {editor.isActive("codeBlock") && <CodeLanguageSelect editor={editor} disabled={formattingDisabled} />}
+          <TableInsertPicker editor={editor} disabled={formattingDisabled} />
+          <ToolbarButton
+            onClick={() => editor.chain().focus().setPageBreak().run()}
+            disabled={formattingDisabled}
+            tooltip="Page Break (Ctrl+Enter)"
+          >
+            <SeparatorHorizontal className="h-4 w-4" />
+          </ToolbarButton>
+          <ToolbarButton
+            onClick={() => editor.chain().focus().insertTableOfContents().run()}
+            disabled={formattingDisabled}
+            tooltip="Table of Contents"
+          >
+            <ListTree className="h-4 w-4" />
+          </ToolbarButton>
+          <ToolbarButton
+            onClick={() => openFind(readOnly ? "find" : "replace")}
+            isActive={findMode !== null}
+            tooltip={readOnly ? "Find (Ctrl+F)" : "Find and Replace (Ctrl+F, Ctrl+H)"}
+          >
+            <TextSearch className="h-4 w-4" />
+          </ToolbarButton>
+
+          {onUploadFile && (
+            <>
+              <Separator orientation="vertical" className="h-6 mx-1" />
+
+              {/* Attachments */}
+              <input
+                ref={fileInputRef}
+                type="file"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  editor.chain().focus().uploadFiles(Array.from(e.target.files || [])).run()
+                  e.target.value = ""
+                }}
+              />
+              <ToolbarButton
+                onClick={() => {
+                  if (!fileInputRef.current) return
+                  fileInputRef.current.accept = "image/*"
+                  fileInputRef.current.click()
+                }}
+                disabled={formattingDisabled}
+                tooltip="Insert Image"
+              >
+                <ImageIcon className="h-4 w-4" />
+              </ToolbarButton>
+              <ToolbarButton
+                onClick={() => {
+                  if (!fileInputRef.current) return
+                  fileInputRef.current.accept = ""
+                  fileInputRef.current.click()
+                }}
+                disabled={formattingDisabled}
+                tooltip="Attach File"
+              >
+                <Paperclip className="h-4 w-4" />
+              </ToolbarButton>
+            </>
+          )}
         </div>
+        {editor.isActive("table") && !formattingDisabled && <TableMenu editor={editor} />}
       </div>
 
       {/* Optimized Editor Content */}
       <div className="relative bg-white min-h-[600px]">
-        <EditorContent editor={editor} />
-        {readOnly && (
+        {paged && pageSettings ? (
+          <PageFrame settings={pageSettings} pages={getPageCount(editor.state)}>
+            <EditorContent editor={editor} />
+          </PageFrame>
+        ) : (
+          <EditorContent editor={editor} />
+        )}
+        <LinkBubbleMenu editor={editor} readOnly={formattingDisabled} />
+        {findMode && (
+          <div className="absolute top-4 right-4 z-20">
+            <FindReplacePanel
+              editor={editor}
+              mode={findMode}
+              onModeChange={setFindMode}
+              focusRequest={findFocusRequest}
+              readOnly={readOnly}
+              suggesting={suggesting}
+              onClose={() => setFindMode(null)}
+            />
+          </div>
+        )}
+        {readOnly && !findMode && (
           <div className="absolute top-4 right-4">
             <Badge variant="outline" className="bg-white/90 text-xs">
               <Lock className="h-3 w-3 mr-1" />
@@ -0,0 +1,136 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import type { Editor } from "@tiptap/react"
+import { ChevronRight, ListTree } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { buildOutline, getHeadings, scrollToHeading, type HeadingEntry, type OutlineNode } from "@/lib/outline"
+
+interface OutlinePanelProps {
+  editor: Editor | null
+}
+
+// Collapsed sections are remembered by heading rather than by position, which
+// changes with every edit above it
+const sectionKey = (node: HeadingEntry) => `${node.level}:${node.text}`
+
+function OutlineItems({
+  nodes,
+  active,
+  collapsed,
+  onToggle,
+  onSelect,
+}: {
+  nodes: OutlineNode<HeadingEntry>[]
+  active: number | null
+  collapsed: Set<string>
+  onToggle: (key: string) => void
+  onSelect: (pos: number) => void
+}) {
+  return (
+    <ul>
+      {nodes.map((node) => {
+        const isCollapsed = collapsed.has(sectionKey(node))
+        return (
+          <li key={node.pos}>
+            <div
+              className={cn(
+                "flex items-center rounded-lg pr-2 hover:bg-gray-50",
+                active === node.pos && "bg-blue-50 text-blue-700",
+              )}
+            >
+              <button
+                onClick={() => onToggle(sectionKey(node))}
+                className={cn("h-6 w-6 shrink-0 flex items-center justify-center", !node.children.length && "invisible")}
+                aria-label={isCollapsed ? "Expand section" : "Collapse section"}
+              >
+                <ChevronRight className={cn("h-3 w-3 transition-transform", !isCollapsed && "rotate-90")} />
+              </button>
+              <button
+                onClick={() => onSelect(node.pos)}
+                className={cn("flex-1 truncate py-1 text-left text-sm", node.level === 1 && "font-medium")}
+                title={node.text}
+              >
+                {node.text}
+              </button>
+            </div>
+            {node.children.length > 0 && !isCollapsed && (
+              <div className="pl-4">
+                <OutlineItems
+                  nodes={node.children}
+                  active={active}
+                  collapsed={collapsed}
+                  onToggle={onToggle}
+                  onSelect={onSelect}
+                />
+              </div>
+            )}
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
+
+export function OutlinePanel({ editor }: OutlinePanelProps) {
+  const [headings, setHeadings] = useState<HeadingEntry[]>([])
+  const [active, setActive] = useState<number | null>(null)
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  useEffect(() => {
+    if (!editor) return
+
+    const refresh = () => setHeadings(getHeadings(editor.state.doc))
+    refresh()
+    editor.on("update", refresh)
+    return () => {
+      editor.off("update", refresh)
+    }
+  }, [editor])
+
+  // The section holding the caret
+  useEffect(() => {
+    if (!editor) return
+
+    const track = () => {
+      const { from } = editor.state.selection
+      const current = getHeadings(editor.state.doc).filter((heading) => heading.pos < from)
+      setActive(current.length ? current[current.length - 1].pos : null)
+    }
+    track()
+    editor.on("selectionUpdate", track)
+    return () => {
+      editor.off("selectionUpdate", track)
+    }
+  }, [editor])
+
+  const outline = useMemo(() => buildOutline(headings), [headings])
+
+  if (!editor || headings.length === 0) return null
+
+  const toggle = (key: string) =>
+    setCollapsed((prev) => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+
+  return (
+    <aside className="bg-white shadow-xl border border-gray-200 rounded-2xl overflow-hidden">
+      <div className="flex items-center space-x-2 p-4 border-b border-gray-100 bg-gray-50">
+        <ListTree className="h-4 w-4 text-blue-600" />
+        <h3 className="text-sm font-semibold text-gray-900">Outline</h3>
+      </div>
+      <nav className="max-h-[320px] overflow-y-auto p-2 text-gray-700">
+        <OutlineItems
+          nodes={outline}
+          active={active}
+          collapsed={collapsed}
+          onToggle={toggle}
+          onSelect={(pos) => scrollToHeading(editor, pos)}
+        />
+      </nav>
+    </aside>
+  )
+}
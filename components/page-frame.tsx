@@ -0,0 +1,76 @@
+"use client"
+
+import type React from "react"
+import { PIXELS_PER_INCH, formatPageField, pageDimensions, type PageSettings } from "@/lib/page-layout"
+
+// Space between pages, in pixels
+export const PAGE_SPACING = 24
+
+interface PageFrameProps {
+  settings: PageSettings
+  pages: number
+  // The editor; laid out over the first page's content area
+  children: React.ReactNode
+}
+
+export function pageGeometry(settings: PageSettings) {
+  const { height } = pageDimensions(settings)
+  const { top, bottom } = settings.margins
+  return {
+    contentHeight: (height - top - bottom) * PIXELS_PER_INCH,
+    gapHeight: (top + bottom) * PIXELS_PER_INCH + PAGE_SPACING,
+  }
+}
+
+// Paper pages with headers and footers behind paginated editor content
+export function PageFrame({ settings, pages, children }: PageFrameProps) {
+  const { width, height } = pageDimensions(settings)
+  const pageWidth = width * PIXELS_PER_INCH
+  const pageHeight = height * PIXELS_PER_INCH
+  const margins = {
+    top: settings.margins.top * PIXELS_PER_INCH,
+    right: settings.margins.right * PIXELS_PER_INCH,
+    bottom: settings.margins.bottom * PIXELS_PER_INCH,
+    left: settings.margins.left * PIXELS_PER_INCH,
+  }
+
+  return (
+    <div className="paged-document overflow-x-auto bg-gray-100 py-8">
+      <div
+        className="relative mx-auto"
+        style={{ width: pageWidth, minHeight: pages * pageHeight + (pages - 1) * PAGE_SPACING }}
+      >
+        {Array.from({ length: pages }, (_, index) => (
+          <div
+            key={index}
+            className="absolute left-0 bg-white shadow-md ring-1 ring-gray-200"
+            style={{ top: index * (pageHeight + PAGE_SPACING), width: pageWidth, height: pageHeight }}
+          >
+            {settings.header && (
+              <div
+                className="absolute inset-x-0 top-0 flex items-center justify-center text-xs text-gray-500 truncate"
+                style={{ height: margins.top, paddingLeft: margins.left, paddingRight: margins.right }}
+              >
+                {formatPageField(settings.header, index + 1, pages)}
+              </div>
+            )}
+            {settings.footer && (
+              <div
+                className="absolute inset-x-0 bottom-0 flex items-center justify-center text-xs text-gray-500 truncate"
+                style={{ height: margins.bottom, paddingLeft: margins.left, paddingRight: margins.right }}
+              >
+                {formatPageField(settings.footer, index + 1, pages)}
+              </div>
+            )}
+          </div>
+        ))}
+        <div
+          className="relative"
+          style={{ paddingTop: margins.top, paddingLeft: margins.left, paddingRight: margins.right }}
+        >
+          {children}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { FileSliders, Hash } from "lucide-react"
+import { cn } from "@/lib/utils"
+import {
+  PAGE_COUNT_FIELD,
+  PAGE_NUMBER_FIELD,
+  PAGE_SIZES,
+  normalizePageSettings,
+  type PageMargins,
+  type PageOrientation,
+  type PageSettings,
+  type PageSize,
+} from "@/lib/page-layout"
+
+interface PageSetupDialogProps {
+  settings: PageSettings
+  onSave: (settings: PageSettings) => void
+  disabled?: boolean
+}
+
+const MARGIN_SIDES: (keyof PageMargins)[] = ["top", "bottom", "left", "right"]
+
+function TemplateInput({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string
+  label: string
+  value: string
+  onChange: (value: string) => void
+}) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={id} className="text-sm font-semibold">
+          {label}
+        </Label>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onChange(value + PAGE_NUMBER_FIELD)}
+          >
+            <Hash className="h-3 w-3 mr-1" />
+            Page number
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-xs"
+            onClick={() => onChange(value + PAGE_COUNT_FIELD)}
+          >
+            <Hash className="h-3 w-3 mr-1" />
+            Page count
+          </Button>
+        </div>
+      </div>
+      <Input
+        id={id}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={`e.g. Page ${PAGE_NUMBER_FIELD} of ${PAGE_COUNT_FIELD}`}
+        className="h-9"
+      />
+    </div>
+  )
+}
+
+export function PageSetupDialog({ settings, onSave, disabled }: PageSetupDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [draft, setDraft] = useState(settings)
+
+  useEffect(() => {
+    if (open) setDraft(settings)
+  }, [open, settings])
+
+  const update = (changes: Partial<PageSettings>) => setDraft((prev) => ({ ...prev, ...changes }))
+  const paged = draft.layout === "paged"
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center space-x-2 bg-white/80 border-gray-200 hover:bg-gray-50 transition-all duration-200 rounded-xl shadow-sm"
+        >
+          <FileSliders className="h-4 w-4" />
+          <span className="hidden sm:inline font-medium">Page setup</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Page setup</DialogTitle>
+          <DialogDescription>
+            Paged documents are shown as they print, with headers, footers and page numbers.
+          </DialogDescription>
+        </DialogHeader>
+
+        <fieldset disabled={disabled} className="space-y-5">
+          <div className="grid grid-cols-2 gap-2">
+            {(["pageless", "paged"] as const).map((layout) => (
+              <button
+                key={layout}
+                type="button"
+                onClick={() => update({ layout })}
+                className={cn(
+                  "rounded-xl border p-3 text-left transition-colors",
+                  draft.layout === layout ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:bg-gray-50",
+                )}
+              >
+                <p className="text-sm font-semibold capitalize">{layout}</p>
+                <p className="text-xs text-gray-500">
+                  {layout === "paged" ? "Pages with margins and page breaks" : "One continuous surface"}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          <div className={cn("space-y-5", !paged && "opacity-50 pointer-events-none")}>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label className="text-sm font-semibold">Page size</Label>
+                <Select value={draft.size} onValueChange={(size: PageSize) => update({ size })}>
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(PAGE_SIZES) as PageSize[]).map((size) => (
+                      <SelectItem key={size} value={size}>
+                        {PAGE_SIZES[size].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-sm font-semibold">Orientation</Label>
+                <Select
+                  value={draft.orientation}
+                  onValueChange={(orientation: PageOrientation) => update({ orientation })}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="portrait">Portrait</SelectItem>
+                    <SelectItem value="landscape">Landscape</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm font-semibold">Margins (inches)</Label>
+              <div className="grid grid-cols-4 gap-2">
+                {MARGIN_SIDES.map((side) => (
+                  <div key={side} className="space-y-1">
+                    <span className="text-xs text-gray-500 capitalize">{side}</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={3}
+                      step={0.1}
+                      value={draft.margins[side]}
+                      onChange={(e) => update({ margins: { ...draft.margins, [side]: Number(e.target.value) } })}
+                      className="h-9"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <TemplateInput
+              id="page-header"
+              label="Header"
+              value={draft.header}
+              onChange={(header) => update({ header })}
+            />
+            <TemplateInput
+              id="page-footer"
+              label="Footer"
+              value={draft.footer}
+              onChange={(footer) => update({ footer })}
+            />
+          </div>
+        </fieldset>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            disabled={disabled}
+            onClick={() => {
+              onSave(normalizePageSettings(draft))
+              setOpen(false)
+            }}
+          >
+            Apply
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,128 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Label } from "@/components/ui/label"
+import { Clock, Loader2, RotateCw, X } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import {
+  isInvitationExpired,
+  resendInvitation,
+  revokeInvitation,
+  type DocumentInvitation,
+  type InvitationRole,
+} from "@/lib/invitations"
+
+const ROLE_LABELS: Record<InvitationRole, string> = {
+  editor: "Can edit",
+  commenter: "Can suggest",
+  viewer: "Can view",
+}
+
+interface PendingInvitationsProps {
+  invitations: DocumentInvitation[]
+  onInvitationsChange: (invitations: DocumentInvitation[]) => void
+}
+
+// Invitations that have not been accepted yet, for the owner to resend or revoke
+export function PendingInvitations({ invitations, onInvitationsChange }: PendingInvitationsProps) {
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  if (invitations.length === 0) return null
+
+  const resend = async (invitation: DocumentInvitation) => {
+    setBusyId(invitation.id)
+    try {
+      const updated = await resendInvitation(invitation.id)
+      onInvitationsChange(invitations.map((i) => (i.id === updated.id ? updated : i)))
+      toast({
+        title: "Invitation resent",
+        description: `${invitation.email} will get a new email. The link is valid for another 14 days.`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Could not resend invitation",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const revoke = async (invitation: DocumentInvitation) => {
+    setBusyId(invitation.id)
+    try {
+      await revokeInvitation(invitation.id)
+      onInvitationsChange(invitations.filter((i) => i.id !== invitation.id))
+      toast({
+        title: "Invitation revoked",
+        description: `The link sent to ${invitation.email} no longer works.`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Could not revoke invitation",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-3 border-t border-gray-100 pt-5">
+      <Label className="text-sm font-semibold">Pending invitations</Label>
+      <div className="space-y-2">
+        {invitations.map((invitation) => (
+          <div key={invitation.id} className="flex items-center justify-between space-x-2 text-sm">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-900 truncate">{invitation.email}</p>
+              <p className="flex items-center space-x-1 text-xs text-gray-500">
+                <Clock className="h-3 w-3" />
+                <span>
+                  {isInvitationExpired(invitation)
+                    ? `Expired ${invitation.expiresAt.toLocaleDateString()}`
+                    : `Sent ${invitation.sentAt.toLocaleDateString()}`}
+                </span>
+              </p>
+            </div>
+            <div className="flex items-center space-x-1 shrink-0">
+              <Badge variant="secondary" className="text-xs">
+                {ROLE_LABELS[invitation.role]}
+              </Badge>
+              {busyId === invitation.id ? (
+                <Loader2 className="h-4 w-4 mx-2 animate-spin text-gray-400" />
+              ) : (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => resend(invitation)}
+                    disabled={busyId !== null}
+                    aria-label={`Resend invitation to ${invitation.email}`}
+                  >
+                    <RotateCw className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 w-7 p-0"
+                    onClick={() => revoke(invitation)}
+                    disabled={busyId !== null}
+                    aria-label={`Revoke invitation to ${invitation.email}`}
+                  >
+                    <X className="h-3.5 w-3.5 text-red-600" />
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
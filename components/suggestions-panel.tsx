@@ -0,0 +1,115 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { Editor } from "@tiptap/react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Check, X, GitPullRequestArrow } from "lucide-react"
+import { getSuggestions, type Suggestion } from "@/lib/extensions/suggestion-mode"
+
+interface SuggestionsPanelProps {
+  editor: Editor | null
+  // Only owners decide on suggestions; everyone else sees them read-only
+  canResolve: boolean
+}
+
+export function SuggestionsPanel({ editor, canResolve }: SuggestionsPanelProps) {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([])
+
+  useEffect(() => {
+    if (!editor) return
+
+    const refresh = () => setSuggestions(getSuggestions(editor.state.doc))
+    refresh()
+    editor.on("update", refresh)
+    return () => {
+      editor.off("update", refresh)
+    }
+  }, [editor])
+
+  if (!editor || suggestions.length === 0) return null
+
+  const focusSuggestion = (suggestion: Suggestion) => {
+    editor.chain().focus().setTextSelection({ from: suggestion.from, to: suggestion.to }).scrollIntoView().run()
+  }
+
+  return (
+    <aside className="bg-white shadow-xl border border-gray-200 rounded-2xl overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-100 bg-gray-50">
+        <div className="flex items-center space-x-2">
+          <GitPullRequestArrow className="h-4 w-4 text-blue-600" />
+          <h3 className="text-sm font-semibold text-gray-900">Suggestions</h3>
+          <Badge variant="secondary">{suggestions.length}</Badge>
+        </div>
+        {canResolve && (
+          <div className="flex items-center space-x-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-green-700 hover:bg-green-50"
+              onClick={() => editor.chain().focus().acceptAllSuggestions().run()}
+            >
+              Accept all
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs text-red-600 hover:bg-red-50"
+              onClick={() => editor.chain().focus().rejectAllSuggestions().run()}
+            >
+              Reject all
+            </Button>
+          </div>
+        )}
+      </div>
+      <div className="max-h-[600px] overflow-y-auto divide-y divide-gray-100">
+        {suggestions.map((suggestion) => (
+          <div
+            key={`${suggestion.kind}:${suggestion.id}`}
+            className="p-4 hover:bg-gray-50 cursor-pointer"
+            onClick={() => focusSuggestion(suggestion)}
+          >
+            <div className="flex items-center justify-between mb-1">
+              <p className="text-sm font-medium text-gray-900">{suggestion.authorName}</p>
+              <p className="text-xs text-gray-400">{new Date(suggestion.createdAt).toLocaleString()}</p>
+            </div>
+            <p className="text-sm text-gray-600">
+              {suggestion.kind === "insertion" ? "Add " : "Delete "}
+              <span className={suggestion.kind === "insertion" ? "suggestion-insertion" : "suggestion-deletion"}>
+                {suggestion.text.length > 80 ? `${suggestion.text.slice(0, 80)}…` : suggestion.text}
+              </span>
+            </p>
+            {canResolve && (
+              <div className="flex items-center space-x-2 mt-2">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 px-2 text-xs"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    editor.chain().focus().acceptSuggestion(suggestion.id).run()
+                  }}
+                >
+                  <Check className="h-3 w-3 mr-1 text-green-600" />
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 px-2 text-xs"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    editor.chain().focus().rejectSuggestion(suggestion.id).run()
+                  }}
+                >
+                  <X className="h-3 w-3 mr-1 text-red-500" />
+                  Reject
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </aside>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { NodeViewWrapper, type NodeViewProps } from "@tiptap/react"
+import { ListTree } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { buildOutline, getHeadings, scrollToHeading, type HeadingEntry, type OutlineNode } from "@/lib/outline"
+
+function Entries({ nodes, onSelect }: { nodes: OutlineNode<HeadingEntry>[]; onSelect: (pos: number) => void }) {
+  return (
+    <ol className="space-y-1">
+      {nodes.map((node) => (
+        <li key={node.pos}>
+          <button
+            onClick={() => onSelect(node.pos)}
+            className={cn(
+              "text-left text-blue-700 hover:underline",
+              node.level === 1 ? "font-medium text-base" : "text-sm",
+            )}
+          >
+            {node.text}
+          </button>
+          {node.children.length > 0 && (
+            <div className="pl-5 mt-1">
+              <Entries nodes={node.children} onSelect={onSelect} />
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
+
+export function TableOfContentsView({ editor, selected }: NodeViewProps) {
+  const [headings, setHeadings] = useState<HeadingEntry[]>(() => getHeadings(editor.state.doc))
+
+  useEffect(() => {
+    const refresh = () => setHeadings(getHeadings(editor.state.doc))
+    editor.on("update", refresh)
+    return () => {
+      editor.off("update", refresh)
+    }
+  }, [editor])
+
+  return (
+    <NodeViewWrapper
+      data-type="table-of-contents"
+      contentEditable={false}
+      className={cn(
+        "my-6 rounded-xl border border-gray-200 bg-gray-50 px-5 py-4 not-prose",
+        selected && "ring-2 ring-blue-500",
+      )}
+    >
+      <p className="flex items-center space-x-2 mb-3 text-xs font-semibold uppercase tracking-wider text-gray-500">
+        <ListTree className="h-4 w-4" />
+        <span>Contents</span>
+      </p>
+      {headings.length ? (
+        <Entries nodes={buildOutline(headings)} onSelect={(pos) => scrollToHeading(editor, pos)} />
+      ) : (
+        <p className="text-sm text-gray-400">Add headings to build the table of contents.</p>
+      )}
+    </NodeViewWrapper>
+  )
+}
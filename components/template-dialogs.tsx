@@ -0,0 +1,309 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { FilePlus2, FileText, LayoutTemplate, Loader2, Trash2, Users } from "lucide-react"
+import { useToast } from "@/hooks/use-toast"
+import { cn } from "@/lib/utils"
+import {
+  BUILT_IN_TEMPLATES,
+  TEMPLATE_FIELDS,
+  TEMPLATE_FIELD_LABELS,
+  deleteTemplate,
+  fetchTemplates,
+  saveTemplate,
+  type DocumentTemplate,
+  type TemplateField,
+} from "@/lib/templates"
+
+interface TemplatePickerDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  userId: string
+  // Reports its own errors; the dialog closes once it settles
+  onCreate: (template: DocumentTemplate) => Promise<void>
+}
+
+function TemplateCard({
+  template,
+  selected,
+  onSelect,
+  onDelete,
+}: {
+  template: DocumentTemplate
+  selected: boolean
+  onSelect: () => void
+  onDelete?: () => void
+}) {
+  const Icon = template.id === "blank" ? FilePlus2 : FileText
+  return (
+    <div
+      className={cn(
+        "group relative rounded-xl border p-3 transition-colors",
+        selected ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:bg-gray-50",
+      )}
+    >
+      <button type="button" onClick={onSelect} className="flex w-full items-start space-x-3 text-left">
+        <Icon className={cn("h-5 w-5 shrink-0 mt-0.5", selected ? "text-blue-600" : "text-gray-400")} />
+        <div className="min-w-0 pr-6">
+          <p className="text-sm font-medium text-gray-900 truncate">{template.name}</p>
+          <p className="text-xs text-gray-500 line-clamp-2">{template.description || "No description"}</p>
+        </div>
+      </button>
+      {onDelete && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="absolute top-2 right-2 h-7 w-7 p-0 opacity-0 group-hover:opacity-100"
+          onClick={onDelete}
+          aria-label={`Delete ${template.name}`}
+        >
+          <Trash2 className="h-4 w-4 text-red-600" />
+        </Button>
+      )}
+    </div>
+  )
+}
+
+export function TemplatePickerDialog({ open, onOpenChange, userId, onCreate }: TemplatePickerDialogProps) {
+  const [teamTemplates, setTeamTemplates] = useState<DocumentTemplate[]>([])
+  const [selected, setSelected] = useState<DocumentTemplate>(BUILT_IN_TEMPLATES[0])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isCreating, setIsCreating] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) return
+    setSelected(BUILT_IN_TEMPLATES[0])
+    setIsLoading(true)
+    fetchTemplates()
+      .then(setTeamTemplates)
+      .catch((error: any) =>
+        toast({
+          title: "Could not load shared templates",
+          description: error.message,
+          variant: "destructive",
+        }),
+      )
+      .finally(() => setIsLoading(false))
+  }, [open])
+
+  const create = async () => {
+    setIsCreating(true)
+    try {
+      await onCreate(selected)
+      onOpenChange(false)
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const remove = async (template: DocumentTemplate) => {
+    try {
+      await deleteTemplate(template.id)
+      setTeamTemplates((prev) => prev.filter((t) => t.id !== template.id))
+      if (selected.id === template.id) setSelected(BUILT_IN_TEMPLATES[0])
+    } catch (error: any) {
+      toast({
+        title: "Could not delete template",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>New document</DialogTitle>
+          <DialogDescription>
+            Start from a blank page, one of your templates or one shared by people you work with.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-[60vh] overflow-y-auto space-y-5 pr-1">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {BUILT_IN_TEMPLATES.map((template) => (
+              <TemplateCard
+                key={template.id}
+                template={template}
+                selected={selected.id === template.id}
+                onSelect={() => setSelected(template)}
+              />
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2 text-sm font-semibold text-gray-700">
+              <Users className="h-4 w-4" />
+              <span>Shared templates</span>
+              {isLoading && <Loader2 className="h-3 w-3 animate-spin text-gray-400" />}
+            </div>
+            {!isLoading && teamTemplates.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No saved templates yet. Use “Save as template” in a document you can edit to add one.
+              </p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {teamTemplates.map((template) => (
+                  <TemplateCard
+                    key={template.id}
+                    template={template}
+                    selected={selected.id === template.id}
+                    onSelect={() => setSelected(template)}
+                    onDelete={template.createdBy === userId ? () => remove(template) : undefined}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={create} disabled={isCreating}>
+            {isCreating && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Create document
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+interface SaveTemplateDialogProps {
+  userId: string
+  documentId: string
+  title: string
+  // Read when the dialog opens, so it captures the latest edits
+  getContent: () => string
+}
+
+export function SaveTemplateDialog({ userId, documentId, title, getContent }: SaveTemplateDialogProps) {
+  const [open, setOpen] = useState(false)
+  const [name, setName] = useState("")
+  const [description, setDescription] = useState("")
+  const [titlePattern, setTitlePattern] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (!open) return
+    setName(title)
+    setDescription("")
+    setTitlePattern(title)
+  }, [open])
+
+  const save = async () => {
+    if (!name.trim()) return
+    setIsSaving(true)
+    try {
+      await saveTemplate(userId, documentId, { name, description, titlePattern, content: getContent() })
+      setOpen(false)
+      toast({
+        title: "Template saved",
+        description: `“${name.trim()}” is now under New Document for you and the people you share documents with.`,
+      })
+    } catch (error: any) {
+      toast({
+        title: "Could not save template",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center space-x-2 bg-white/80 border-gray-200 hover:bg-gray-50 transition-all duration-200 rounded-xl shadow-sm"
+        >
+          <LayoutTemplate className="h-4 w-4" />
+          <span className="hidden sm:inline font-medium">Save as template</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as template</DialogTitle>
+          <DialogDescription>
+            You and the people you share documents or folders with can start new documents from a copy of this
+            one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name" className="text-sm font-semibold">
+              Name
+            </Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description" className="text-sm font-semibold">
+              Description
+            </Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What is this template for?"
+              rows={2}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-title" className="text-sm font-semibold">
+              Title for new documents
+            </Label>
+            <Input
+              id="template-title"
+              value={titlePattern}
+              onChange={(e) => setTitlePattern(e.target.value)}
+              placeholder={`e.g. Weekly sync – ${TEMPLATE_FIELDS.date}`}
+            />
+            <p className="text-xs text-gray-500">
+              The title and document can use{" "}
+              {(Object.keys(TEMPLATE_FIELDS) as TemplateField[]).map((field, index) => (
+                <span key={field}>
+                  {index > 0 && ", "}
+                  <code className="rounded bg-gray-100 px-1">{TEMPLATE_FIELDS[field]}</code> (
+                  {TEMPLATE_FIELD_LABELS[field].toLowerCase()})
+                </span>
+              ))}
+              , filled in when a document is created.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={save} disabled={!name.trim() || isSaving}>
+            {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,305 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { useEditor, EditorContent } from "@tiptap/react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { DocumentDiff } from "@/components/document-diff"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet"
+import { History, RotateCcw, Tag, Loader2 } from "lucide-react"
+import { createEditorExtensions } from "@/lib/editor-extensions"
+import {
+  REVISION_PAGE_SIZE,
+  fetchRevisionContent,
+  fetchRevisions,
+  renameRevision,
+  type Revision,
+} from "@/lib/revisions"
+import { useToast } from "@/hooks/use-toast"
+
+type CompareMode = "none" | "previous" | "current"
+
+interface VersionHistoryProps {
+  documentId: string
+  // Live content, for comparing a version against the document as it is now;
+  // read when that comparison is shown
+  getCurrentContent: () => string
+  canEdit: boolean
+  onRestore: (revision: Revision, content: string) => void
+}
+
+// Renders revision HTML through the editor schema rather than as raw markup
+function RevisionPreview({ content }: { content: string }) {
+  const editor = useEditor(
+    {
+      extensions: createEditorExtensions(),
+      content,
+      editable: false,
+      editorProps: {
+        attributes: {
+          class: "prose prose-lg max-w-none focus:outline-none px-6 py-6",
+        },
+      },
+      immediatelyRender: false,
+    },
+    [content],
+  )
+
+  return <EditorContent editor={editor} />
+}
+
+export function VersionHistory({ documentId, getCurrentContent, canEdit, onRestore }: VersionHistoryProps) {
+  const [open, setOpen] = useState(false)
+  const [revisions, setRevisions] = useState<Revision[]>([])
+  const [hasMore, setHasMore] = useState(false)
+  const [loading, setLoading] = useState(false)
+  // Content of the versions opened so far, by revision id
+  const [contents, setContents] = useState<Record<number, string>>({})
+  const [selectedId, setSelectedId] = useState<number | null>(null)
+  const [nameDraft, setNameDraft] = useState("")
+  const [compareMode, setCompareMode] = useState<CompareMode>("none")
+  const [currentContent, setCurrentContent] = useState("")
+  const { toast } = useToast()
+
+  const loadRevisions = async (offset = 0) => {
+    setLoading(true)
+    try {
+      const page = await fetchRevisions(documentId, offset)
+      setRevisions((prev) => (offset === 0 ? page : [...prev, ...page]))
+      setHasMore(page.length === REVISION_PAGE_SIZE)
+      setSelectedId((current) => current ?? page[0]?.id ?? null)
+    } catch (error: any) {
+      toast({
+        title: "Error loading version history",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (open) loadRevisions()
+  }, [open, documentId])
+
+  const selectedIndex = revisions.findIndex((revision) => revision.id === selectedId)
+  const selected = revisions[selectedIndex] || null
+  // Revisions are newest first, so the one before the selection comes after it
+  const previous = selectedIndex >= 0 ? revisions[selectedIndex + 1] || null : null
+
+  useEffect(() => {
+    setNameDraft(selected?.name || "")
+  }, [selected?.id])
+
+  const loadContent = async (revisionId: number) => {
+    if (contents[revisionId] !== undefined) return contents[revisionId]
+    const content = await fetchRevisionContent(revisionId)
+    setContents((prev) => ({ ...prev, [revisionId]: content }))
+    return content
+  }
+
+  // Only the versions on screen are downloaded
+  useEffect(() => {
+    const shown = [selected, compareMode === "previous" ? previous : null]
+    for (const revision of shown) {
+      if (!revision || contents[revision.id] !== undefined) continue
+      loadContent(revision.id).catch((error: any) =>
+        toast({
+          title: "Error loading version",
+          description: error.message,
+          variant: "destructive",
+        }),
+      )
+    }
+  }, [selected?.id, previous?.id, compareMode])
+
+  useEffect(() => {
+    if (open && compareMode === "current") setCurrentContent(getCurrentContent())
+  }, [open, compareMode])
+
+  const selectedContent = selected ? contents[selected.id] : undefined
+  const previousContent = previous ? contents[previous.id] : undefined
+
+  const saveName = async () => {
+    if (!selected) return
+    try {
+      await renameRevision(selected.id, nameDraft)
+      setRevisions((prev) => prev.map((r) => (r.id === selected.id ? { ...r, name: nameDraft.trim() || null } : r)))
+      toast({
+        title: "Version named",
+        description: nameDraft.trim() ? `Saved as "${nameDraft.trim()}".` : "The version name was cleared.",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Error naming version",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  const restore = async () => {
+    if (!selected) return
+    try {
+      onRestore(selected, await loadContent(selected.id))
+      setOpen(false)
+    } catch (error: any) {
+      toast({
+        title: "Error restoring version",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center space-x-2 bg-white/80 border-gray-200 hover:bg-gray-50 transition-all duration-200 rounded-xl shadow-sm"
+        >
+          <History className="h-4 w-4" />
+          <span className="hidden sm:inline font-medium">History</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="w-full sm:max-w-4xl flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Version history</span>
+          </SheetTitle>
+          <SheetDescription>
+            Versions are recorded as the document is saved, at most one per person every ten minutes.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-1 min-h-0 mt-4 border border-gray-200 rounded-xl overflow-hidden">
+          <ScrollArea className="w-72 border-r border-gray-200 bg-gray-50">
+            {loading && revisions.length === 0 ? (
+              <div className="p-6 flex items-center justify-center text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="p-6 text-sm text-gray-500">No versions have been saved yet.</p>
+            ) : (
+              <div className="p-2 space-y-1">
+                {revisions.map((revision) => (
+                  <button
+                    key={revision.id}
+                    onClick={() => setSelectedId(revision.id)}
+                    className={`w-full text-left p-3 rounded-lg transition-colors ${
+                      revision.id === selectedId ? "bg-blue-50 ring-1 ring-blue-200" : "hover:bg-white"
+                    }`}
+                  >
+                    {revision.name && (
+                      <Badge variant="secondary" className="mb-1 max-w-full truncate">
+                        {revision.name}
+                      </Badge>
+                    )}
+                    <p className="text-sm font-medium text-gray-900">{revision.createdAt.toLocaleString()}</p>
+                    <div className="flex items-center space-x-2 mt-1">
+                      <Avatar className="h-5 w-5">
+                        <AvatarImage src={revision.author?.avatar || "/placeholder.svg"} alt={revision.author?.name} />
+                        <AvatarFallback className="text-[10px]">{revision.author?.name?.charAt(0)}</AvatarFallback>
+                      </Avatar>
+                      <span className="text-xs text-gray-500 truncate">{revision.author?.name || "Unknown"}</span>
+                    </div>
+                  </button>
+                ))}
+                {hasMore && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="w-full"
+                    onClick={() => loadRevisions(revisions.length)}
+                    disabled={loading}
+                  >
+                    {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    Load older versions
+                  </Button>
+                )}
+              </div>
+            )}
+          </ScrollArea>
+
+          <div className="flex-1 flex flex-col min-w-0">
+            {selected ? (
+              <>
+                <div className="flex items-center gap-2 p-3 border-b border-gray-200">
+                  <Tag className="h-4 w-4 text-gray-400 shrink-0" />
+                  <Input
+                    value={nameDraft}
+                    onChange={(e) => setNameDraft(e.target.value)}
+                    placeholder="Name this version"
+                    disabled={!canEdit}
+                    className="h-8"
+                  />
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={saveName}
+                    disabled={!canEdit || nameDraft.trim() === (selected.name || "")}
+                  >
+                    Save name
+                  </Button>
+                  <Button size="sm" onClick={restore} disabled={!canEdit}>
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Restore
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-100 bg-gray-50 text-sm">
+                  <span className="text-gray-500">Show changes</span>
+                  <Select value={compareMode} onValueChange={(value: CompareMode) => setCompareMode(value)}>
+                    <SelectTrigger className="h-8 w-56 bg-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Off</SelectItem>
+                      <SelectItem value="previous" disabled={!previous}>
+                        Since the previous version
+                      </SelectItem>
+                      <SelectItem value="current">From this version to now</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <ScrollArea className="flex-1">
+                  <h2 className="px-6 pt-6 text-2xl font-bold text-gray-900">{selected.title}</h2>
+                  {selectedContent === undefined ||
+                  (compareMode === "previous" && previous && previousContent === undefined) ? (
+                    <div className="p-6 flex items-center justify-center text-gray-500">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    </div>
+                  ) : compareMode === "previous" && previousContent !== undefined ? (
+                    <DocumentDiff before={previousContent} after={selectedContent} />
+                  ) : compareMode === "current" ? (
+                    <DocumentDiff before={selectedContent} after={currentContent} />
+                  ) : (
+                    <RevisionPreview content={selectedContent} />
+                  )}
+                </ScrollArea>
+              </>
+            ) : (
+              <div className="flex-1 flex items-center justify-center text-sm text-gray-500">
+                Select a version to preview it
+              </div>
+            )}
+          </div>
+        </div>
+      </SheetContent>
+    </Sheet>
+  )
+}
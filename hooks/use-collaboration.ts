@@ -0,0 +1,96 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import * as Y from "yjs"
+import { WebsocketProvider } from "y-websocket"
+import {
+  COLLABORATION_URL,
+  loadDocumentUpdates,
+  persistDocumentUpdates,
+  restoreOfflineSnapshot,
+  seedDocumentFromHtml,
+} from "@/lib/collaboration"
+import { COLLABORATION_FIELD } from "@/lib/editor-extensions"
+import { supabase } from "@/lib/supabase"
+
+export type CollaborationStatus = "connecting" | "connected" | "disconnected"
+
+export interface CollaborationSession {
+  doc: Y.Doc
+  provider: WebsocketProvider
+}
+
+interface UseCollaborationOptions {
+  documentId: string
+  userId?: string
+  // Legacy HTML used to seed documents that have no update log yet
+  initialContent: string
+}
+
+export function useCollaboration({ documentId, userId, initialContent }: UseCollaborationOptions) {
+  const [session, setSession] = useState<CollaborationSession | null>(null)
+  const [status, setStatus] = useState<CollaborationStatus>("connecting")
+  const initialContentRef = useRef(initialContent)
+
+  useEffect(() => {
+    if (!userId) return
+
+    let cancelled = false
+    let provider: WebsocketProvider | null = null
+    let stopPersisting: (() => Promise<void>) | null = null
+    const doc = new Y.Doc()
+
+    // The sync server checks the access token on every (re)connect
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, authSession) => {
+      if (provider && authSession) provider.params = { token: authSession.access_token }
+    })
+
+    const start = async () => {
+      try {
+        await restoreOfflineSnapshot(documentId, doc)
+      } catch (error) {
+        console.error("Error loading offline copy:", error)
+      }
+      try {
+        await loadDocumentUpdates(documentId, doc)
+      } catch (error) {
+        console.error("Error loading document updates:", error)
+      }
+      if (cancelled) return
+
+      const {
+        data: { session: authSession },
+      } = await supabase.auth.getSession()
+      if (cancelled) return
+
+      provider = new WebsocketProvider(COLLABORATION_URL, documentId, doc, {
+        params: { token: authSession?.access_token ?? "" },
+      })
+      const currentProvider = provider
+      stopPersisting = persistDocumentUpdates(documentId, userId, doc, (origin) => origin === currentProvider)
+
+      if (doc.getXmlFragment(COLLABORATION_FIELD).length === 0 && initialContentRef.current) {
+        seedDocumentFromHtml(doc, initialContentRef.current)
+      }
+
+      provider.on("status", ({ status }: { status: CollaborationStatus }) => setStatus(status))
+      setSession({ doc, provider })
+    }
+
+    start()
+
+    return () => {
+      cancelled = true
+      subscription.unsubscribe()
+      setSession(null)
+      provider?.destroy()
+      // Flush pending local updates before tearing the document down
+      if (stopPersisting) stopPersisting().finally(() => doc.destroy())
+      else doc.destroy()
+    }
+  }, [documentId, userId])
+
+  return { session, status }
+}
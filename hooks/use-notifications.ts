@@ -0,0 +1,64 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  fetchNotifications,
+  fetchUnreadNotificationCount,
+  markAllNotificationsRead,
+  markNotificationsRead,
+  subscribeToNotifications,
+  type AppNotification,
+} from "@/lib/notifications"
+
+// The signed-in user's notifications, kept current through the change feed
+export function useNotifications(userId?: string) {
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
+  const [unreadCount, setUnreadCount] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  const load = useCallback(async () => {
+    if (!userId) return
+    try {
+      const [latest, unread] = await Promise.all([fetchNotifications(), fetchUnreadNotificationCount(userId)])
+      setNotifications(latest)
+      setUnreadCount(unread)
+    } catch (error) {
+      console.error("Error fetching notifications:", error)
+    } finally {
+      setLoading(false)
+    }
+  }, [userId])
+
+  useEffect(() => {
+    if (!userId) return
+    load()
+    return subscribeToNotifications(userId, load)
+  }, [userId, load])
+
+  // Updated here first so the badge responds at once; the change feed confirms it
+  const markRead = useCallback(async (notificationIds: number[]) => {
+    const now = new Date()
+    const newlyRead = notifications.filter((n) => notificationIds.includes(n.id) && !n.readAt).length
+    setNotifications((prev) =>
+      prev.map((n) => (notificationIds.includes(n.id) && !n.readAt ? { ...n, readAt: now } : n)),
+    )
+    setUnreadCount((prev) => Math.max(0, prev - newlyRead))
+    await markNotificationsRead(notificationIds)
+  }, [notifications])
+
+  const markAllRead = useCallback(async () => {
+    if (!userId) return
+    const now = new Date()
+    setNotifications((prev) => prev.map((n) => (n.readAt ? n : { ...n, readAt: now })))
+    setUnreadCount(0)
+    await markAllNotificationsRead(userId)
+  }, [userId])
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markRead,
+    markAllRead,
+  }
+}
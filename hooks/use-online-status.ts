@@ -0,0 +1,21 @@
+"use client"
+
+import { useSyncExternalStore } from "react"
+
+function subscribe(onChange: () => void) {
+  window.addEventListener("online", onChange)
+  window.addEventListener("offline", onChange)
+  return () => {
+    window.removeEventListener("online", onChange)
+    window.removeEventListener("offline", onChange)
+  }
+}
+
+// Whether the browser has a network connection; assumed online while rendering on the server
+export function useOnlineStatus() {
+  return useSyncExternalStore(
+    subscribe,
+    () => navigator.onLine,
+    () => true,
+  )
+}
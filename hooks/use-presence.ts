@@ -0,0 +1,64 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { WebsocketProvider } from "y-websocket"
+import { HEARTBEAT_INTERVAL, fetchLastSeen, recordHeartbeat, type PresenceUser } from "@/lib/presence"
+
+export interface OnlineUser extends PresenceUser {
+  // True while one of the user's sessions has its caret in the document
+  isEditing: boolean
+}
+
+interface UsePresenceOptions {
+  documentId: string
+  userId?: string
+  provider?: WebsocketProvider
+}
+
+export function usePresence({ documentId, userId, provider }: UsePresenceOptions) {
+  const [onlineUsers, setOnlineUsers] = useState<Map<string, OnlineUser>>(new Map())
+  const [lastSeen, setLastSeen] = useState<Map<string, Date>>(new Map())
+
+  // Awareness states time out after 30s without an update, so this map only
+  // holds sessions that are actually open.
+  useEffect(() => {
+    if (!provider) return
+    const awareness = provider.awareness
+
+    const handleChange = () => {
+      const users = new Map<string, OnlineUser>()
+      awareness.getStates().forEach((state) => {
+        const user = state.user as PresenceUser | undefined
+        if (!user?.id) return
+        const isEditing = Boolean(state.cursor) || Boolean(users.get(user.id)?.isEditing)
+        users.set(user.id, { ...user, isEditing })
+      })
+      setOnlineUsers(users)
+    }
+
+    handleChange()
+    awareness.on("change", handleChange)
+    return () => {
+      awareness.off("change", handleChange)
+      setOnlineUsers(new Map())
+    }
+  }, [provider])
+
+  useEffect(() => {
+    if (!userId) return
+
+    const beat = async () => {
+      await recordHeartbeat(documentId, userId)
+      setLastSeen(await fetchLastSeen(documentId))
+    }
+
+    beat()
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL)
+    return () => {
+      clearInterval(interval)
+      recordHeartbeat(documentId, userId)
+    }
+  }, [documentId, userId])
+
+  return { onlineUsers, lastSeen }
+}
@@ -0,0 +1,88 @@
+import { supabase } from "@/lib/supabase"
+
+// Files embedded in documents are stored under "<document id>/<random name>".
+// Production uses a Supabase Storage bucket; during development they go to the
+// local filesystem through /api/attachments so no bucket is needed.
+
+export const ATTACHMENT_BUCKET = "document-attachments"
+
+export const MAX_ATTACHMENT_SIZE = 20 * 1024 * 1024
+
+const LOCAL_ATTACHMENTS_URL = "/api/attachments"
+
+const useLocalStorage =
+  (process.env.NEXT_PUBLIC_ATTACHMENT_STORAGE || (process.env.NODE_ENV === "production" ? "supabase" : "local")) ===
+  "local"
+
+// Whether files go to the local development store instead of the bucket
+export function isLocalAttachmentStorage() {
+  return useLocalStorage
+}
+
+export interface Attachment {
+  url: string
+  name: string
+  type: string
+}
+
+function storagePath(documentId: string, file: File) {
+  const dot = file.name.lastIndexOf(".")
+  const extension = dot > 0 ? file.name.slice(dot + 1).toLowerCase().replace(/[^a-z0-9]/g, "") : ""
+  return `${documentId}/${crypto.randomUUID()}${extension ? `.${extension}` : ""}`
+}
+
+export async function uploadAttachment(documentId: string, file: File): Promise<Attachment> {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE / 1024 / 1024} MB.`)
+  }
+
+  const path = storagePath(documentId, file)
+  const contentType = file.type || "application/octet-stream"
+
+  if (useLocalStorage) {
+    const response = await fetch(`${LOCAL_ATTACHMENTS_URL}/${path}`, {
+      method: "PUT",
+      headers: { "Content-Type": contentType },
+      body: file,
+    })
+    if (!response.ok) throw new Error(`Upload failed (${response.status}).`)
+    return { url: `${LOCAL_ATTACHMENTS_URL}/${path}`, name: file.name, type: contentType }
+  }
+
+  const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).upload(path, file, { contentType })
+  if (error) throw error
+
+  const { data } = supabase.storage.from(ATTACHMENT_BUCKET).getPublicUrl(path)
+  return { url: data.publicUrl, name: file.name, type: contentType }
+}
+
+// Whether `url` points at a file uploaded to `documentId`
+export function isDocumentAttachment(url: string, documentId: string) {
+  const path = `/${documentId}/`
+  if (useLocalStorage) return url.startsWith(`${LOCAL_ATTACHMENTS_URL}${path}`)
+  return url.includes(`/${ATTACHMENT_BUCKET}${path}`)
+}
+
+// Must run while the caller still owns the document; storage policies check
+// the document's roles.
+export async function deleteDocumentAttachments(documentId: string) {
+  if (useLocalStorage) {
+    const response = await fetch(`${LOCAL_ATTACHMENTS_URL}/${documentId}`, { method: "DELETE" })
+    if (!response.ok) throw new Error(`Could not delete attachments (${response.status}).`)
+    return
+  }
+
+  const bucket = supabase.storage.from(ATTACHMENT_BUCKET)
+  for (;;) {
+    const { data: files, error } = await bucket.list(documentId, { limit: 100 })
+    if (error) throw error
+    if (!files?.length) return
+
+    const { data: removed, error: removeError } = await bucket.remove(
+      files.map((file) => `${documentId}/${file.name}`),
+    )
+    if (removeError) throw removeError
+    // Storage skips objects the policies don't allow instead of failing
+    if (!removed?.length) throw new Error("Only the owner can delete this document's attachments.")
+  }
+}
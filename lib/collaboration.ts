@@ -0,0 +1,223 @@
+import * as Y from "yjs"
+import { fromBase64, toBase64 } from "lib0/buffer"
+import { prosemirrorJSONToYXmlFragment } from "y-prosemirror"
+import { generateJSON, getSchema } from "@tiptap/core"
+import { supabase } from "@/lib/supabase"
+import { COLLABORATION_FIELD, createEditorExtensions } from "@/lib/editor-extensions"
+import {
+  isNetworkError,
+  loadDocumentSnapshot,
+  loadPendingUpdate,
+  saveDocumentSnapshot,
+  savePendingUpdate,
+} from "@/lib/offline"
+
+// Run `pnpm sync-server` for a local stand-in of the relay
+export const COLLABORATION_URL = process.env.NEXT_PUBLIC_COLLABORATION_URL || "ws://localhost:1234"
+
+// Origin used for updates replayed from storage so they are not written back
+export const STORAGE_ORIGIN = "document-updates"
+
+const PAGE_SIZE = 1000
+const FLUSH_INTERVAL = 1000
+const COMPACTION_THRESHOLD = 200
+// Postgres error raised when row level security rejects a write
+const INSUFFICIENT_PRIVILEGE = "42501"
+
+interface DocumentUpdateRow {
+  id: number
+  payload: string
+}
+
+// Replays the persisted update log into `doc`, compacting it when it grows long
+export async function loadDocumentUpdates(documentId: string, doc: Y.Doc) {
+  const rows: DocumentUpdateRow[] = []
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("document_updates")
+      .select("id, payload")
+      .eq("document_id", documentId)
+      .order("id", { ascending: true })
+      .range(from, from + PAGE_SIZE - 1)
+
+    if (error) throw error
+    rows.push(...(data as DocumentUpdateRow[]))
+    if (!data || data.length < PAGE_SIZE) break
+  }
+
+  if (rows.length === 0) return
+
+  const merged = Y.mergeUpdates(rows.map((row) => fromBase64(row.payload)))
+  Y.applyUpdate(doc, merged, STORAGE_ORIGIN)
+
+  if (rows.length > COMPACTION_THRESHOLD) {
+    await compactDocumentUpdates(documentId, merged, rows[rows.length - 1].id)
+  }
+}
+
+// Replaces every row up to `lastId` with one merged update. Rows appended
+// concurrently have higher ids and are left untouched. Only owners and editors
+// may delete rows, so other roles leave the log to them.
+async function compactDocumentUpdates(documentId: string, merged: Uint8Array, lastId: number) {
+  const { data: role, error: roleError } = await supabase.rpc("document_role", { doc: documentId })
+  if (roleError) {
+    console.error("Error compacting document updates:", roleError)
+    return
+  }
+  if (role !== "owner" && role !== "editor") return
+
+  const {
+    data: { session },
+  } = await supabase.auth.getSession()
+
+  const { error: insertError } = await supabase.from("document_updates").insert({
+    document_id: documentId,
+    author_id: session?.user?.id,
+    payload: toBase64(merged),
+  })
+  if (insertError) {
+    console.error("Error compacting document updates:", insertError)
+    return
+  }
+
+  const { error: deleteError } = await supabase
+    .from("document_updates")
+    .delete()
+    .eq("document_id", documentId)
+    .lte("id", lastId)
+  if (deleteError) {
+    console.error("Error compacting document updates:", deleteError)
+  }
+}
+
+// Appends locally produced updates to the log, batching them once per interval.
+// Remote and replayed updates are skipped: their authors persist them. Unsent
+// updates and a snapshot of the document are also kept in offline storage, so
+// edits made without a network survive closing the tab; the next session sends
+// them before anything new.
+export function persistDocumentUpdates(
+  documentId: string,
+  authorId: string,
+  doc: Y.Doc,
+  isRemoteOrigin: (origin: unknown) => boolean,
+) {
+  let pending: Uint8Array[] = []
+  let changed = false
+
+  // The offline snapshot already contains these edits, so applying them to the
+  // document again would not emit an update; queue the stored update itself
+  const restored = loadPendingUpdate(documentId)
+    .then((update) => {
+      if (update) pending.unshift(update)
+    })
+    .catch((error) => console.error("Error restoring offline changes:", error))
+
+  const flush = async () => {
+    await restored
+    if (changed) {
+      changed = false
+      saveDocumentSnapshot(documentId, Y.encodeStateAsUpdate(doc)).catch((error) =>
+        console.error("Error saving offline copy:", error),
+      )
+    }
+
+    if (pending.length === 0) return
+    const batch = Y.mergeUpdates(pending)
+    pending = []
+
+    try {
+      await savePendingUpdate(documentId, batch)
+    } catch (error) {
+      console.error("Error saving offline changes:", error)
+    }
+
+    if (!navigator.onLine) {
+      pending = [batch, ...pending]
+      return
+    }
+
+    const { error } = await supabase.from("document_updates").insert({
+      document_id: documentId,
+      author_id: authorId,
+      payload: toBase64(batch),
+    })
+
+    if (error) {
+      // Commenters' suggestions reach the log through the sync server, which checks them first
+      if (!isNetworkError(error) && error.code !== INSUFFICIENT_PRIVILEGE) {
+        console.error("Error persisting document updates:", error)
+      }
+      // Keep the batch so the next flush retries it, unless the user may not write at all
+      if (error.code !== INSUFFICIENT_PRIVILEGE) {
+        pending = [batch, ...pending]
+        return
+      }
+    }
+
+    try {
+      await savePendingUpdate(documentId, pending.length ? Y.mergeUpdates(pending) : null)
+    } catch (error) {
+      console.error("Error saving offline changes:", error)
+    }
+  }
+
+  const handleUpdate = (update: Uint8Array, origin: unknown) => {
+    changed = true
+    if (origin === STORAGE_ORIGIN || isRemoteOrigin(origin)) return
+    pending.push(update)
+  }
+
+  // Each flush is scheduled once the previous one has finished, so a slow
+  // insert is never overtaken by a flush that clears its offline backup
+  let stopped = false
+  let running: Promise<void> = Promise.resolve()
+  let timer: ReturnType<typeof setTimeout>
+  const schedule = () => {
+    timer = setTimeout(() => {
+      running = flush()
+        .catch((error) => console.error("Error persisting document updates:", error))
+        .finally(() => {
+          if (!stopped) schedule()
+        })
+    }, FLUSH_INTERVAL)
+  }
+
+  doc.on("update", handleUpdate)
+  schedule()
+
+  return async () => {
+    stopped = true
+    clearTimeout(timer)
+    doc.off("update", handleUpdate)
+    await running
+    await flush()
+  }
+}
+
+// Applies the offline copy of the document, including edits that never
+// reached the server, so it opens without a network. `persistDocumentUpdates`
+// sends those edits on.
+export async function restoreOfflineSnapshot(documentId: string, doc: Y.Doc) {
+  const [snapshot, unsent] = await Promise.all([loadDocumentSnapshot(documentId), loadPendingUpdate(documentId)])
+  if (snapshot) Y.applyUpdate(doc, snapshot, STORAGE_ORIGIN)
+  if (unsent) Y.applyUpdate(doc, unsent, STORAGE_ORIGIN)
+}
+
+// Converts legacy HTML content into the shared document. The update is built
+// by a fixed client id so that clients seeding the same HTML concurrently
+// produce identical updates, which Yjs merges instead of duplicating.
+export function seedDocumentFromHtml(doc: Y.Doc, html: string) {
+  const extensions = createEditorExtensions()
+  const seed = new Y.Doc()
+  seed.clientID = 0
+
+  prosemirrorJSONToYXmlFragment(
+    getSchema(extensions),
+    generateJSON(html, extensions),
+    seed.getXmlFragment(COLLABORATION_FIELD),
+  )
+
+  Y.applyUpdate(doc, Y.encodeStateAsUpdate(seed))
+  seed.destroy()
+}
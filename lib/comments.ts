@@ -0,0 +1,158 @@
+import { supabase } from "@/lib/supabase"
+
+export interface CommentAuthor {
+  id: string
+  name: string
+  avatar?: string
+}
+
+export interface Comment {
+  id: number
+  body: string
+  mentions: string[]
+  createdAt: Date
+  author: CommentAuthor | null
+}
+
+export interface CommentThread {
+  id: string
+  quote: string
+  createdAt: Date
+  resolvedAt: Date | null
+  resolvedBy: CommentAuthor | null
+  author: CommentAuthor | null
+  // Oldest first; the first comment opens the thread
+  comments: Comment[]
+}
+
+interface AuthorRow {
+  id: string
+  name: string
+  avatar: string | null
+}
+
+interface CommentRow {
+  id: number
+  body: string
+  mentions: string[]
+  created_at: string
+  author: AuthorRow | null
+}
+
+interface ThreadRow {
+  id: string
+  quote: string
+  created_at: string
+  resolved_at: string | null
+  resolver: AuthorRow | null
+  author: AuthorRow | null
+  comments: CommentRow[]
+}
+
+function toAuthor(row: AuthorRow | null): CommentAuthor | null {
+  return row ? { id: row.id, name: row.name, avatar: row.avatar || undefined } : null
+}
+
+function toThread(row: ThreadRow): CommentThread {
+  return {
+    id: row.id,
+    quote: row.quote,
+    createdAt: new Date(row.created_at),
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : null,
+    resolvedBy: toAuthor(row.resolver),
+    author: toAuthor(row.author),
+    comments: row.comments
+      .map((comment) => ({
+        id: comment.id,
+        body: comment.body,
+        mentions: comment.mentions,
+        createdAt: new Date(comment.created_at),
+        author: toAuthor(comment.author),
+      }))
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+  }
+}
+
+// Oldest first
+export async function fetchCommentThreads(documentId: string): Promise<CommentThread[]> {
+  const { data, error } = await supabase
+    .from("comment_threads")
+    .select(
+      `id, quote, created_at, resolved_at,
+       author:users_data!comment_threads_author_id_fkey(id, name, avatar),
+       resolver:users_data!comment_threads_resolved_by_fkey(id, name, avatar),
+       comments(id, body, mentions, created_at, author:users_data(id, name, avatar))`,
+    )
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: true })
+
+  if (error) throw error
+  return (data as unknown as ThreadRow[]).map(toThread)
+}
+
+// The thread id is chosen by the caller so the text can be marked with it
+// as soon as the thread exists.
+export async function createCommentThread(
+  documentId: string,
+  authorId: string,
+  thread: { id: string; quote: string; body: string; mentions: string[] },
+) {
+  const { error: threadError } = await supabase.from("comment_threads").insert({
+    id: thread.id,
+    document_id: documentId,
+    author_id: authorId,
+    quote: thread.quote,
+  })
+
+  if (threadError) throw threadError
+  await addComment(documentId, thread.id, authorId, { body: thread.body, mentions: thread.mentions })
+}
+
+export async function addComment(
+  documentId: string,
+  threadId: string,
+  authorId: string,
+  comment: { body: string; mentions: string[] },
+) {
+  const { error } = await supabase.from("comments").insert({
+    thread_id: threadId,
+    document_id: documentId,
+    author_id: authorId,
+    body: comment.body.trim(),
+    mentions: comment.mentions,
+  })
+
+  if (error) throw error
+}
+
+// Pass a user to resolve the thread, or null to reopen it
+export async function setThreadResolved(threadId: string, resolvedBy: string | null) {
+  const { data, error } = await supabase
+    .from("comment_threads")
+    .update({ resolved_at: resolvedBy ? new Date().toISOString() : null, resolved_by: resolvedBy })
+    .eq("id", threadId)
+    .select()
+
+  if (error) throw error
+  if (!data?.length) throw new Error("You don't have permission to resolve this discussion.")
+}
+
+// Calls `onChange` whenever a thread or comment on the document changes.
+// Returns a function that stops listening.
+export function subscribeToComments(documentId: string, onChange: () => void) {
+  const filter = `document_id=eq.${documentId}`
+  const channel = supabase
+    .channel(`comments:${documentId}`)
+    .on("postgres_changes", { event: "*", schema: "public", table: "comment_threads", filter }, onChange)
+    .on("postgres_changes", { event: "*", schema: "public", table: "comments", filter }, onChange)
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+// Mentions are written as "@Name"; returns the ids of the members mentioned
+export function extractMentions(body: string, members: { id: string; name: string }[]) {
+  return members.filter((member) => body.includes(`@${member.name}`)).map((member) => member.id)
+}
@@ -0,0 +1,259 @@
+import { generateJSON, type JSONContent } from "@tiptap/core"
+import { createEditorExtensions } from "@/lib/editor-extensions"
+
+// Block-level diff of two document snapshots. Both sides are parsed through the
+// editor schema and flattened into their leaf blocks (paragraphs, headings,
+// code blocks, rules), each remembering the containers it sits in (lists,
+// list items, blockquotes). Blocks are aligned first; a removed block directly
+// followed by an added block of the same kind is then diffed word by word.
+
+export type ChangeKind = "equal" | "inserted" | "deleted"
+
+export interface DiffMark {
+  type: string
+  attrs?: Record<string, any>
+}
+
+export interface DiffSegment {
+  text: string
+  marks: DiffMark[]
+  change: ChangeKind
+}
+
+export interface DiffContainer {
+  type: string
+  // Position among siblings, used to number ordered list items
+  index: number
+}
+
+export interface DiffBlock {
+  type: string
+  attrs: Record<string, any>
+  containers: DiffContainer[]
+  // First block of its container, e.g. the line that carries a list bullet
+  leading: boolean
+  change: ChangeKind | "modified"
+  segments: DiffSegment[]
+}
+
+interface FlatBlock {
+  type: string
+  attrs: Record<string, any>
+  containers: DiffContainer[]
+  leading: boolean
+  tokens: Token[]
+  key: string
+}
+
+interface Token {
+  text: string
+  marks: DiffMark[]
+  key: string
+}
+
+const CONTAINER_TYPES = new Set([
+  "bulletList",
+  "orderedList",
+  "listItem",
+  "blockquote",
+  "table",
+  "tableRow",
+  "tableCell",
+  "tableHeader",
+])
+
+function markKey(marks: DiffMark[]) {
+  return marks
+    .map((mark) => `${mark.type}${mark.attrs ? JSON.stringify(mark.attrs) : ""}`)
+    .sort()
+    .join(",")
+}
+
+function tokenize(content: JSONContent[] = []): Token[] {
+  const tokens: Token[] = []
+  for (const node of content) {
+    const marks = (node.marks || []).map((mark) => ({ type: mark.type, attrs: mark.attrs }))
+    const text = node.type === "hardBreak" ? "\n" : node.text || ""
+    // Words and the whitespace between them are separate tokens
+    for (const part of text.match(/\s+|[^\s]+/g) || []) {
+      tokens.push({ text: part, marks, key: `${part}\u0000${markKey(marks)}` })
+    }
+  }
+  return tokens
+}
+
+function flatten(node: JSONContent, containers: DiffContainer[], blocks: FlatBlock[]) {
+  ;(node.content || []).forEach((child, index) => {
+    if (!child.type) return
+    if (CONTAINER_TYPES.has(child.type)) {
+      flatten(child, [...containers, { type: child.type, index }], blocks)
+      return
+    }
+
+    const tokens = tokenize(child.content)
+    const attrs = child.attrs || {}
+    blocks.push({
+      type: child.type,
+      attrs,
+      containers,
+      leading: index === 0,
+      tokens,
+      key: [
+        child.type,
+        JSON.stringify(attrs),
+        containers.map((c) => c.type).join("/"),
+        tokens.map((t) => t.key).join("\u0001"),
+      ].join("\u0002"),
+    })
+  })
+}
+
+function parse(html: string) {
+  const blocks: FlatBlock[] = []
+  flatten(generateJSON(html || "", createEditorExtensions()), [], blocks)
+  return blocks
+}
+
+// Longest common subsequence alignment; returns the edit script in order
+function align<T>(a: T[], b: T[], key: (item: T) => string) {
+  let start = 0
+  while (start < a.length && start < b.length && key(a[start]) === key(b[start])) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && key(a[endA - 1]) === key(b[endB - 1])) {
+    endA--
+    endB--
+  }
+
+  const n = endA - start
+  const m = endB - start
+  const table = new Uint32Array((n + 1) * (m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i * (m + 1) + j] =
+        key(a[start + i]) === key(b[start + j])
+          ? table[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(table[(i + 1) * (m + 1) + j], table[i * (m + 1) + j + 1])
+    }
+  }
+
+  const ops: { change: ChangeKind; a?: T; b?: T }[] = []
+  for (let i = 0; i < start; i++) ops.push({ change: "equal", a: a[i], b: b[i] })
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && key(a[start + i]) === key(b[start + j])) {
+      ops.push({ change: "equal", a: a[start + i], b: b[start + j] })
+      i++
+      j++
+    } else if (j < m && (i === n || table[i * (m + 1) + j + 1] >= table[(i + 1) * (m + 1) + j])) {
+      ops.push({ change: "inserted", b: b[start + j] })
+      j++
+    } else {
+      ops.push({ change: "deleted", a: a[start + i] })
+      i++
+    }
+  }
+
+  for (let k = 0; k < a.length - endA; k++) ops.push({ change: "equal", a: a[endA + k], b: b[endB + k] })
+  return ops
+}
+
+function wholeBlock(block: FlatBlock, change: ChangeKind): DiffBlock {
+  return {
+    type: block.type,
+    attrs: block.attrs,
+    containers: block.containers,
+    leading: block.leading,
+    change,
+    segments: mergeSegments(block.tokens.map((token) => ({ text: token.text, marks: token.marks, change }))),
+  }
+}
+
+// Joins neighbouring segments with the same change and formatting
+function mergeSegments(segments: DiffSegment[]) {
+  const merged: DiffSegment[] = []
+  for (const segment of segments) {
+    const last = merged[merged.length - 1]
+    if (last && last.change === segment.change && markKey(last.marks) === markKey(segment.marks)) {
+      last.text += segment.text
+    } else {
+      merged.push({ ...segment })
+    }
+  }
+  return merged
+}
+
+function diffInline(before: FlatBlock, after: FlatBlock): DiffBlock {
+  const segments = align(before.tokens, after.tokens, (token) => token.key).map((op) => {
+    const token = (op.b || op.a)!
+    return { text: token.text, marks: token.marks, change: op.change }
+  })
+
+  return {
+    type: after.type,
+    attrs: after.attrs,
+    containers: after.containers,
+    leading: after.leading,
+    change: "modified",
+    segments: mergeSegments(segments),
+  }
+}
+
+export function diffDocuments(beforeHtml: string, afterHtml: string): DiffBlock[] {
+  const ops = align(parse(beforeHtml), parse(afterHtml), (block) => block.key)
+  const result: DiffBlock[] = []
+
+  for (let index = 0; index < ops.length; index++) {
+    const op = ops[index]
+
+    if (op.change === "equal") {
+      result.push(wholeBlock(op.b!, "equal"))
+      continue
+    }
+
+    // Collect the run of changes and pair removed blocks with added ones of the same type
+    const deleted: FlatBlock[] = []
+    const inserted: FlatBlock[] = []
+    while (index < ops.length && ops[index].change !== "equal") {
+      if (ops[index].change === "deleted") deleted.push(ops[index].a!)
+      else inserted.push(ops[index].b!)
+      index++
+    }
+    index--
+
+    while (deleted.length || inserted.length) {
+      const before = deleted[0]
+      const after = inserted[0]
+      if (before && after && before.type === after.type) {
+        result.push(diffInline(before, after))
+        deleted.shift()
+        inserted.shift()
+      } else if (before) {
+        result.push(wholeBlock(before, "deleted"))
+        deleted.shift()
+      } else {
+        result.push(wholeBlock(after, "inserted"))
+        inserted.shift()
+      }
+    }
+  }
+
+  return result
+}
+
+export function countChanges(blocks: DiffBlock[]) {
+  let inserted = 0
+  let deleted = 0
+  for (const block of blocks) {
+    for (const segment of block.segments) {
+      if (!segment.text.trim()) continue
+      if (segment.change === "inserted") inserted++
+      if (segment.change === "deleted") deleted++
+    }
+    if (block.segments.length === 0 && block.change === "inserted") inserted++
+    if (block.segments.length === 0 && block.change === "deleted") deleted++
+  }
+  return { inserted, deleted }
+}
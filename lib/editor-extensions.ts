@@ -0,0 +1,87 @@
+import type { Extensions } from "@tiptap/core"
+import StarterKit from "@tiptap/starter-kit"
+import Underline from "@tiptap/extension-underline"
+import TextAlign from "@tiptap/extension-text-align"
+import TextStyle from "@tiptap/extension-text-style"
+import Color from "@tiptap/extension-color"
+import Highlight from "@tiptap/extension-highlight"
+import Link from "@tiptap/extension-link"
+import Collaboration from "@tiptap/extension-collaboration"
+import CollaborationCursor from "@tiptap/extension-collaboration-cursor"
+import type * as Y from "yjs"
+import type { WebsocketProvider } from "y-websocket"
+import type { PresenceUser } from "@/lib/presence"
+import { SuggestionMode } from "@/lib/extensions/suggestion-mode"
+import { CommentMark } from "@/lib/extensions/comments"
+import { CodeBlock } from "@/lib/extensions/code-block"
+import { Image } from "@/lib/extensions/image"
+import { TableExtensions } from "@/lib/extensions/table"
+import { PageBreak } from "@/lib/extensions/page-break"
+import { TableOfContents } from "@/lib/extensions/table-of-contents"
+import { Pagination } from "@/lib/extensions/pagination"
+import { SearchReplace } from "@/lib/extensions/search-replace"
+import type { Attachment } from "@/lib/attachments"
+
+// Name of the Y.XmlFragment that holds the editor content inside a shared Y.Doc
+export const COLLABORATION_FIELD = "default"
+
+interface EditorExtensionOptions {
+  // When set, the editor is bound to this shared document instead of its `content` prop
+  document?: Y.Doc
+  // Publishes the local caret and renders remote ones; requires `document`
+  provider?: WebsocketProvider
+  user?: PresenceUser
+  // Stores pasted, dropped and inserted files; without it files are ignored
+  uploadFile?: (file: File) => Promise<Attachment>
+  onUploadError?: (error: Error, file: File) => void
+}
+
+// Single source of truth for the document schema, shared by the editor and
+// anything that converts HTML to or from editor content outside of it.
+export function createEditorExtensions({
+  document,
+  provider,
+  user,
+  uploadFile,
+  onUploadError,
+}: EditorExtensionOptions = {}): Extensions {
+  const extensions: Extensions = [
+    StarterKit.configure({
+      // Collaboration ships its own undo manager that only reverts local changes
+      history: document ? false : { depth: 50 },
+      codeBlock: false,
+    }),
+    CodeBlock,
+    Underline,
+    TextStyle,
+    Color,
+    Highlight.configure({ multicolor: true }),
+    Link.configure({
+      // Clicking edits the link; it opens from the link popover instead
+      openOnClick: false,
+      autolink: true,
+      HTMLAttributes: { target: "_blank", rel: "noopener noreferrer nofollow" },
+    }),
+    TextAlign.configure({
+      types: ["heading", "paragraph"],
+    }),
+    Image.configure({ upload: uploadFile ?? null, onUploadError: onUploadError ?? (() => {}) }),
+    ...TableExtensions,
+    PageBreak,
+    TableOfContents,
+    Pagination,
+    SearchReplace,
+    SuggestionMode,
+    CommentMark,
+  ]
+
+  if (document) {
+    extensions.push(Collaboration.configure({ document, field: COLLABORATION_FIELD }))
+
+    if (provider && user) {
+      extensions.push(CollaborationCursor.configure({ provider, user }))
+    }
+  }
+
+  return extensions
+}
@@ -0,0 +1,923 @@
+import { generateHTML, generateJSON, getSchema, type JSONContent } from "@tiptap/core"
+import { DOMSerializer, Node as ProseMirrorNode } from "@tiptap/pm/model"
+import { MarkdownSerializer, defaultMarkdownSerializer, type MarkdownSerializerState } from "@tiptap/pm/markdown"
+import { createEditorExtensions } from "@/lib/editor-extensions"
+import { escapeHtml, withoutReviewMarks } from "@/lib/html"
+import { buildOutline, type OutlineNode } from "@/lib/outline"
+import { PAGE_SIZES, pageDimensions, pageFieldParts, type PageSettings } from "@/lib/page-layout"
+
+// Converts a document's stored HTML into downloadable files. Everything runs in
+// the browser: HTML goes through the editor schema first, so every format sees
+// the same structure the editor shows. DOCX and PDF writers are loaded on
+// demand because they are large.
+//
+// Pending suggestions are left out: exports show the document as it stands
+// before they are accepted, and comment anchors are dropped. Paged documents
+// keep their page size, margins, headers and footers in PDF and Word files.
+
+export type ExportFormat = "html" | "markdown" | "text" | "docx" | "pdf"
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  pdf: { label: "PDF document", extension: "pdf", mimeType: "application/pdf" },
+  docx: {
+    label: "Word document",
+    extension: "docx",
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+  html: { label: "Web page", extension: "html", mimeType: "text/html" },
+  markdown: { label: "Markdown", extension: "md", mimeType: "text/markdown" },
+  text: { label: "Plain text", extension: "txt", mimeType: "text/plain" },
+}
+
+type Alignment = "left" | "center" | "right" | "justify"
+
+interface Run {
+  text: string
+  bold: boolean
+  italic: boolean
+  underline: boolean
+  strike: boolean
+  code: boolean
+  color?: string
+  highlight?: string
+  href?: string
+}
+
+function parseDocument(html: string): JSONContent {
+  return withTableOfContents(
+    withoutReviewMarks(generateJSON(html, createEditorExtensions()), { dropInsertions: true }),
+  )
+}
+
+type OutlineEntry = OutlineNode<{ level: number; text: string }>
+
+// The editor draws the table of contents from the headings; exports get it as
+// a title followed by a nested list of them
+function withTableOfContents(doc: JSONContent): JSONContent {
+  const headings: { level: number; text: string }[] = []
+  const collect = (node: JSONContent) => {
+    if (node.type === "heading") {
+      const text = textOf(node).trim()
+      if (text) headings.push({ level: node.attrs?.level || 1, text })
+    } else {
+      node.content?.forEach(collect)
+    }
+  }
+  collect(doc)
+
+  const toList = (entries: OutlineEntry[]): JSONContent => ({
+    type: "bulletList",
+    content: entries.map((entry) => ({
+      type: "listItem",
+      content: [
+        { type: "paragraph", content: [{ type: "text", text: entry.text }] },
+        ...(entry.children.length ? [toList(entry.children)] : []),
+      ],
+    })),
+  })
+  const outline = buildOutline(headings)
+  const contents: JSONContent[] = [
+    { type: "paragraph", content: [{ type: "text", text: "Contents", marks: [{ type: "bold" }] }] },
+    ...(outline.length ? [toList(outline)] : []),
+  ]
+
+  const expand = (node: JSONContent): JSONContent => ({
+    ...node,
+    content: node.content?.flatMap((child) => (child.type === "tableOfContents" ? contents : [expand(child)])),
+  })
+  return expand(doc)
+}
+
+function alignmentOf(node: JSONContent): Alignment {
+  return (node.attrs?.textAlign as Alignment) || "left"
+}
+
+function runsOf(node: JSONContent): Run[] {
+  return (node.content || []).map((child) => {
+    const find = (type: string) => child.marks?.find((mark) => mark.type === type)
+    const highlight = find("highlight")
+    return {
+      text: child.type === "hardBreak" ? "\n" : child.text || "",
+      bold: !!find("bold"),
+      italic: !!find("italic"),
+      underline: !!find("underline"),
+      strike: !!find("strike"),
+      code: !!find("code"),
+      color: toHex(find("textStyle")?.attrs?.color),
+      // Highlights without a color use the editor's default yellow
+      highlight: highlight ? toHex(highlight.attrs?.color) || "#fef08a" : undefined,
+      href: find("link")?.attrs?.href,
+    }
+  })
+}
+
+// Colors come from the picker as hex, but imported HTML may use rgb()
+function toHex(color: string | null | undefined) {
+  if (!color) return undefined
+  const short = color.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/i)
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`.toLowerCase()
+  if (/^#[0-9a-f]{6}$/i.test(color)) return color.toLowerCase()
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)/i)
+  if (rgb) return "#" + rgb.slice(1, 4).map((n) => Number(n).toString(16).padStart(2, "0")).join("")
+  return undefined
+}
+
+function textOf(node: JSONContent) {
+  return runsOf(node)
+    .map((run) => run.text)
+    .join("")
+}
+
+function isHeaderRow(row: JSONContent | undefined) {
+  return !!row?.content?.length && row.content.every((cell) => cell.type === "tableHeader")
+}
+
+function imageLabel(node: JSONContent) {
+  const label = node.attrs?.caption || node.attrs?.alt
+  return label ? `[Image: ${label}]` : "[Image]"
+}
+
+interface LoadedImage {
+  data: ArrayBuffer
+  dataUrl: string
+  width: number
+  height: number
+}
+
+// DOCX and PDF embed the image data. Every image is redrawn as PNG, which both
+// writers accept; images that can't be loaded are exported as their label.
+async function loadImages(doc: JSONContent) {
+  const sources = new Set<string>()
+  const collect = (node: JSONContent) => {
+    if (node.type === "image" && node.attrs?.src) sources.add(node.attrs.src)
+    node.content?.forEach(collect)
+  }
+  collect(doc)
+
+  const images = new Map<string, LoadedImage>()
+  await Promise.all(
+    Array.from(sources, async (src) => {
+      try {
+        const response = await fetch(src)
+        if (!response.ok) return
+        const bitmap = await createImageBitmap(await response.blob())
+        const canvas = document.createElement("canvas")
+        canvas.width = bitmap.width
+        canvas.height = bitmap.height
+        canvas.getContext("2d")?.drawImage(bitmap, 0, 0)
+        bitmap.close()
+        const dataUrl = canvas.toDataURL("image/png")
+        const data = await (await fetch(dataUrl)).arrayBuffer()
+        images.set(src, { data, dataUrl, width: canvas.width, height: canvas.height })
+      } catch {
+        // Exported as its label instead
+      }
+    }),
+  )
+  return images
+}
+
+// Images with a width take that share of the page; others keep their natural
+// size, shrunk to fit
+function imageSize(node: JSONContent, image: LoadedImage, pageWidth: number, scale: number) {
+  const width = node.attrs?.width ? (pageWidth * node.attrs.width) / 100 : Math.min(image.width * scale, pageWidth)
+  return { width: Math.round(width), height: Math.round((width * image.height) / image.width) }
+}
+
+function toHtml(title: string, doc: JSONContent, page: PageSettings | null) {
+  const body = generateHTML(doc, createEditorExtensions())
+  let pageRule = ""
+  if (page) {
+    const { width, height } = pageDimensions(page)
+    const { top, right, bottom, left } = page.margins
+    pageRule = `\n  @page { size: ${width}in ${height}in; margin: ${top}in ${right}in ${bottom}in ${left}in; }`
+  }
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>
+  body { max-width: 48rem; margin: 3rem auto; padding: 0 1.5rem; font-family: Georgia, serif; line-height: 1.6; color: #111827; }
+  h1, h2, h3, h4, h5, h6 { font-family: system-ui, sans-serif; line-height: 1.25; }
+  blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 4px solid #d1d5db; color: #4b5563; font-style: italic; }
+  pre { background: #f3f4f6; padding: 1rem; border-radius: 0.5rem; overflow-x: auto; }
+  code { font-family: ui-monospace, Menlo, monospace; font-size: 0.9em; }
+  hr { border: none; border-top: 1px solid #d1d5db; margin: 2rem 0; }
+  figure { margin: 1.5rem 0; }
+  figure img { max-width: 100%; height: auto; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+  td, th { border: 1px solid #d1d5db; padding: 0.375rem 0.5rem; vertical-align: top; }
+  th { background: #f3f4f6; text-align: left; }
+  td > p, th > p { margin: 0; }
+  figcaption { margin-top: 0.5rem; font-size: 0.875rem; color: #6b7280; font-style: italic; }
+  @media print { body { max-width: none; margin: 0; padding: 0; } }${pageRule}
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`
+}
+
+function writeHtml(state: MarkdownSerializerState, node: ProseMirrorNode) {
+  const container = document.createElement("div")
+  container.appendChild(DOMSerializer.fromSchema(node.type.schema).serializeNode(node))
+  state.write(container.innerHTML)
+  state.closeBlock(node)
+}
+
+// Markdown tables hold one line per cell and need a header row; anything else
+// is written as HTML
+function isMarkdownTable(node: ProseMirrorNode) {
+  let simple = isHeaderRow(node.firstChild?.toJSON())
+  node.descendants((child) => {
+    if (child.type.name === "tableCell" || child.type.name === "tableHeader") {
+      const spans = child.attrs.colspan !== 1 || child.attrs.rowspan !== 1
+      const paragraphs = child.childCount === 1 && child.firstChild!.type.name === "paragraph"
+      if (spans || !paragraphs) simple = false
+      return false
+    }
+    return true
+  })
+  return simple
+}
+
+// Markdown has no alignment, so aligned blocks are written as inline HTML
+function writeAlignedBlock(state: MarkdownSerializerState, node: ProseMirrorNode, tag: string) {
+  const container = document.createElement("div")
+  container.appendChild(DOMSerializer.fromSchema(node.type.schema).serializeFragment(node.content))
+  state.write(`<${tag} align="${node.attrs.textAlign}">${container.innerHTML}</${tag}>`)
+  state.closeBlock(node)
+}
+
+const markdownSerializer = new MarkdownSerializer(
+  {
+    blockquote: defaultMarkdownSerializer.nodes.blockquote,
+    codeBlock(state, node) {
+      const fence = node.textContent.includes("```") ? "````" : "```"
+      state.write(fence + (node.attrs.language || "") + "\n")
+      state.text(node.textContent, false)
+      state.ensureNewLine()
+      state.write(fence)
+      state.closeBlock(node)
+    },
+    heading(state, node) {
+      if (node.attrs.textAlign && node.attrs.textAlign !== "left") {
+        writeAlignedBlock(state, node, `h${node.attrs.level}`)
+        return
+      }
+      state.write(state.repeat("#", node.attrs.level) + " ")
+      state.renderInline(node, false)
+      state.closeBlock(node)
+    },
+    paragraph(state, node) {
+      if (node.attrs.textAlign && node.attrs.textAlign !== "left") {
+        writeAlignedBlock(state, node, "p")
+        return
+      }
+      state.renderInline(node)
+      state.closeBlock(node)
+    },
+    horizontalRule: defaultMarkdownSerializer.nodes.horizontal_rule,
+    pageBreak(state, node) {
+      state.write('<div style="break-after: page"></div>')
+      state.closeBlock(node)
+    },
+    // The caption becomes the image title
+    image(state, node) {
+      const title = node.attrs.caption ? ` "${node.attrs.caption.replace(/"/g, '\\"')}"` : ""
+      const src = node.attrs.src.replace(/[()\s]/g, (c: string) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+      state.write(`![${state.esc(node.attrs.alt || "")}](${src}${title})`)
+      state.closeBlock(node)
+    },
+    bulletList(state, node) {
+      state.renderList(node, "  ", () => "- ")
+    },
+    orderedList(state, node) {
+      const start = node.attrs.start || 1
+      const width = String(start + node.childCount - 1).length
+      state.renderList(node, state.repeat(" ", width + 2), (index) => {
+        const number = String(start + index)
+        return state.repeat(" ", width - number.length) + number + ". "
+      })
+    },
+    listItem: defaultMarkdownSerializer.nodes.list_item,
+    table(state, node) {
+      if (!isMarkdownTable(node)) {
+        writeHtml(state, node)
+        return
+      }
+      node.forEach((row, _offset, index) => {
+        const cells: string[] = []
+        row.forEach((cell) => {
+          const text = markdownSerializer.serialize(cell).trim()
+          cells.push(text.replace(/\|/g, "\\|").replace(/\n/g, "<br>"))
+        })
+        state.write(`| ${cells.join(" | ")} |`)
+        state.ensureNewLine()
+        if (index === 0) {
+          state.write(`|${cells.map(() => " --- ").join("|")}|`)
+          state.ensureNewLine()
+        }
+      })
+      state.closeBlock(node)
+    },
+    hardBreak: defaultMarkdownSerializer.nodes.hard_break,
+    text: defaultMarkdownSerializer.nodes.text,
+  },
+  {
+    bold: defaultMarkdownSerializer.marks.strong,
+    italic: defaultMarkdownSerializer.marks.em,
+    code: defaultMarkdownSerializer.marks.code,
+    strike: { open: "~~", close: "~~", mixable: true, expelEnclosingWhitespace: true },
+    underline: { open: "<u>", close: "</u>", mixable: true, expelEnclosingWhitespace: true },
+    link: defaultMarkdownSerializer.marks.link,
+    textStyle: {
+      open: (_state, mark) => (mark.attrs.color ? `<span style="color: ${mark.attrs.color}">` : ""),
+      close: (_state, mark) => (mark.attrs.color ? "</span>" : ""),
+      mixable: true,
+      expelEnclosingWhitespace: true,
+    },
+    highlight: {
+      open: (_state, mark) => (mark.attrs.color ? `<mark style="background-color: ${mark.attrs.color}">` : "<mark>"),
+      close: "</mark>",
+      mixable: true,
+      expelEnclosingWhitespace: true,
+    },
+  },
+)
+
+function toMarkdown(doc: JSONContent) {
+  const schema = getSchema(createEditorExtensions())
+  return markdownSerializer.serialize(ProseMirrorNode.fromJSON(schema, doc)) + "\n"
+}
+
+const TEXT_WIDTH = 72
+
+function alignLine(line: string, alignment: Alignment, width: number) {
+  const padding = Math.max(0, width - line.length)
+  if (alignment === "center") return " ".repeat(Math.floor(padding / 2)) + line
+  if (alignment === "right") return " ".repeat(padding) + line
+  return line
+}
+
+function textBlocks(node: JSONContent, prefix: string, firstPrefix: string, out: string[]) {
+  const children = node.content || []
+  children.forEach((child, index) => {
+    const lead = index === 0 ? firstPrefix : prefix
+    const width = TEXT_WIDTH - prefix.length
+
+    switch (child.type) {
+      case "paragraph":
+      case "heading": {
+        let lines = textOf(child).split("\n")
+        lines = lines.map((line) => alignLine(line, alignmentOf(child), width))
+        if (child.type === "heading" && child.attrs?.level <= 2) {
+          const longest = Math.max(...lines.map((line) => line.trimStart().length))
+          lines.push(alignLine((child.attrs?.level === 1 ? "=" : "-").repeat(longest), alignmentOf(child), width))
+        }
+        out.push(lines.map((line, i) => (i === 0 ? lead : prefix) + line).join("\n"))
+        break
+      }
+      case "codeBlock":
+        out.push(
+          textOf(child)
+            .split("\n")
+            .map((line, i) => (i === 0 ? lead : prefix) + "    " + line)
+            .join("\n"),
+        )
+        break
+      case "horizontalRule":
+        out.push(lead + "-".repeat(Math.min(width, 40)))
+        break
+      case "pageBreak":
+        out.push("\f")
+        break
+      case "table": {
+        const lines = (child.content || []).map((row) =>
+          (row.content || []).map((cell) => (cell.content || []).map(textOf).join(" ").replace(/\n/g, " ")).join(" | "),
+        )
+        if (isHeaderRow(child.content?.[0])) {
+          const longest = Math.max(...lines.map((line) => line.length))
+          lines.splice(1, 0, "-".repeat(Math.min(longest, width)))
+        }
+        out.push(lines.map((line, i) => (i === 0 ? lead : prefix) + line).join("\n"))
+        break
+      }
+      case "image":
+        out.push(lead + alignLine(imageLabel(child), child.attrs?.align || "center", width))
+        break
+      case "blockquote":
+        textBlocks(child, prefix + "> ", lead + "> ", out)
+        break
+      case "bulletList":
+      case "orderedList": {
+        const start = child.attrs?.start || 1
+        ;(child.content || []).forEach((item, i) => {
+          const marker = child.type === "bulletList" ? "- " : `${start + i}. `
+          const itemPrefix = prefix + " ".repeat(marker.length)
+          textBlocks(item, itemPrefix, (i === 0 ? lead : prefix) + marker, out)
+        })
+        break
+      }
+    }
+  })
+}
+
+function toPlainText(doc: JSONContent) {
+  const blocks: string[] = []
+  textBlocks(doc, "", "", blocks)
+  return blocks.join("\n\n") + "\n"
+}
+
+async function toDocx(title: string, doc: JSONContent, page: PageSettings | null) {
+  const {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    ExternalHyperlink,
+    Footer,
+    Header,
+    HeadingLevel,
+    ImageRun,
+    LevelFormat,
+    Packer,
+    PageBreak,
+    PageNumber,
+    PageOrientation,
+    Paragraph,
+    ShadingType,
+    Table,
+    TableCell,
+    TableRow,
+    TextRun,
+    WidthType,
+  } = await import("docx")
+  const images = await loadImages(doc)
+
+  const ALIGNMENTS = {
+    left: AlignmentType.LEFT,
+    center: AlignmentType.CENTER,
+    right: AlignmentType.RIGHT,
+    justify: AlignmentType.JUSTIFIED,
+  }
+  const HEADINGS = [
+    HeadingLevel.HEADING_1,
+    HeadingLevel.HEADING_2,
+    HeadingLevel.HEADING_3,
+    HeadingLevel.HEADING_4,
+    HeadingLevel.HEADING_5,
+    HeadingLevel.HEADING_6,
+  ]
+  // Content width in pixels; Word's default page is A4 with 1" margins
+  const PAGE_WIDTH = page ? (pageDimensions(page).width - page.margins.left - page.margins.right) * 96 : 600
+  const TWIPS_PER_INCH = 1440
+  // Each ordered list gets its own numbering instance so numbers restart
+  let orderedLists = 0
+
+  const toRuns = (runs: Run[]) =>
+    runs.flatMap((run): (InstanceType<typeof TextRun> | InstanceType<typeof ExternalHyperlink>)[] => {
+      const textRuns = run.text.split("\n").map(
+        (text, i) =>
+          new TextRun({
+            text,
+            break: i > 0 ? 1 : undefined,
+            bold: run.bold,
+            italics: run.italic,
+            underline: run.underline || run.href ? {} : undefined,
+            strike: run.strike,
+            font: run.code ? "Courier New" : undefined,
+            color: run.color?.slice(1) ?? (run.href ? "2563EB" : undefined),
+            shading: run.highlight ? { type: ShadingType.CLEAR, fill: run.highlight.slice(1) } : undefined,
+          }),
+      )
+      return run.href ? [new ExternalHyperlink({ link: run.href, children: textRuns })] : textRuns
+    })
+
+  interface Context {
+    quoteDepth: number
+    header?: boolean
+    list?: { level: number; ordered: boolean; instance: number; first: boolean }
+  }
+
+  type Block = InstanceType<typeof Paragraph> | InstanceType<typeof Table>
+
+  const convert = (node: JSONContent, context: Context): Block[] => {
+    const paragraphs: Block[] = []
+
+    ;(node.content || []).forEach((child) => {
+      const list = context.list
+      const listIndent = list ? { left: 720 * (list.level + 1), hanging: list.first ? 360 : 0 } : undefined
+      const numbering =
+        list?.first && list.ordered
+          ? { numbering: { reference: "ordered", level: list.level, instance: list.instance } }
+          : list?.first
+            ? { bullet: { level: list.level } }
+            : {}
+      const quote = context.quoteDepth
+        ? {
+            indent: { left: 720 * context.quoteDepth + (listIndent?.left || 0) },
+            border: { left: { style: BorderStyle.SINGLE, size: 18, color: "D1D5DB", space: 12 } },
+          }
+        : {}
+
+      switch (child.type) {
+        case "paragraph":
+        case "heading": {
+          const runs = toRuns(
+            runsOf(child).map((run) => ({
+              ...run,
+              bold: run.bold || !!context.header,
+              italic: run.italic || context.quoteDepth > 0,
+            })),
+          )
+          paragraphs.push(
+            new Paragraph({
+              children: runs,
+              heading: child.type === "heading" ? HEADINGS[(child.attrs?.level || 1) - 1] : undefined,
+              alignment: ALIGNMENTS[alignmentOf(child)],
+              ...(list && !list.first ? { indent: listIndent } : {}),
+              ...numbering,
+              ...quote,
+            }),
+          )
+          break
+        }
+        case "codeBlock":
+          paragraphs.push(
+            new Paragraph({
+              children: toRuns([{ text: textOf(child), bold: false, italic: false, underline: false, strike: false, code: true }]),
+              shading: { fill: "F3F4F6" },
+              ...(list ? { indent: { left: listIndent!.left } } : {}),
+              ...quote,
+            }),
+          )
+          break
+        case "pageBreak":
+          paragraphs.push(new Paragraph({ children: [new PageBreak()] }))
+          break
+        case "horizontalRule":
+          paragraphs.push(
+            new Paragraph({
+              children: [],
+              border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: "D1D5DB", space: 1 } },
+            }),
+          )
+          break
+        case "image": {
+          const image = images.get(child.attrs?.src)
+          const alignment = ALIGNMENTS[(child.attrs?.align as Alignment) || "center"]
+          paragraphs.push(
+            new Paragraph({
+              children: image
+                ? [
+                    new ImageRun({
+                      type: "png",
+                      data: image.data,
+                      transformation: imageSize(child, image, PAGE_WIDTH, 1),
+                      altText: { name: child.attrs?.alt || "Image", description: child.attrs?.alt || undefined },
+                    }),
+                  ]
+                : [new TextRun({ text: imageLabel(child), italics: true, color: "6B7280" })],
+              alignment,
+            }),
+          )
+          if (image && child.attrs?.caption) {
+            paragraphs.push(
+              new Paragraph({
+                children: [new TextRun({ text: child.attrs.caption, italics: true, color: "6B7280", size: 18 })],
+                alignment,
+              }),
+            )
+          }
+          break
+        }
+        case "table": {
+          const headerRow = isHeaderRow(child.content?.[0])
+          paragraphs.push(
+            new Table({
+              width: { size: 100, type: WidthType.PERCENTAGE },
+              rows: (child.content || []).map(
+                (row, index) =>
+                  new TableRow({
+                    tableHeader: headerRow && index === 0,
+                    children: (row.content || []).map((cell) => {
+                      const content = convert(cell, { quoteDepth: 0, header: cell.type === "tableHeader" })
+                      return new TableCell({
+                        children: content.length ? content : [new Paragraph({})],
+                        columnSpan: cell.attrs?.colspan || 1,
+                        rowSpan: cell.attrs?.rowspan || 1,
+                        shading: cell.type === "tableHeader" ? { type: ShadingType.CLEAR, fill: "F3F4F6" } : undefined,
+                      })
+                    }),
+                  }),
+              ),
+            }),
+            // Word merges tables that touch, so keep one paragraph between them
+            new Paragraph({}),
+          )
+          break
+        }
+        case "blockquote":
+          paragraphs.push(...convert(child, { ...context, quoteDepth: context.quoteDepth + 1 }))
+          break
+        case "bulletList":
+        case "orderedList": {
+          const ordered = child.type === "orderedList"
+          const instance = ordered ? orderedLists++ : 0
+          const level = list ? list.level + 1 : 0
+          for (const item of child.content || []) {
+            const [first, ...rest] = item.content || []
+            if (first) paragraphs.push(...convert({ content: [first] }, { ...context, list: { level, ordered, instance, first: true } }))
+            if (rest.length) paragraphs.push(...convert({ content: rest }, { ...context, list: { level, ordered, instance, first: false } }))
+          }
+          break
+        }
+      }
+    })
+
+    return paragraphs
+  }
+
+  const pageField = (template: string) =>
+    new Paragraph({
+      alignment: AlignmentType.CENTER,
+      children: pageFieldParts(template).map((part) =>
+        "text" in part
+          ? new TextRun({ text: part.text, size: 18, color: "6B7280" })
+          : new TextRun({
+              children: [part.field === "page" ? PageNumber.CURRENT : PageNumber.TOTAL_PAGES],
+              size: 18,
+              color: "6B7280",
+            }),
+      ),
+    })
+
+  const file = new Document({
+    title,
+    numbering: {
+      config: [
+        {
+          reference: "ordered",
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.START,
+            style: { paragraph: { indent: { left: 720 * (level + 1), hanging: 360 } } },
+          })),
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: page
+          ? {
+              page: {
+                // Given in portrait; Word swaps them for landscape
+                size: {
+                  width: PAGE_SIZES[page.size].width * TWIPS_PER_INCH,
+                  height: PAGE_SIZES[page.size].height * TWIPS_PER_INCH,
+                  orientation: page.orientation === "landscape" ? PageOrientation.LANDSCAPE : PageOrientation.PORTRAIT,
+                },
+                margin: {
+                  top: page.margins.top * TWIPS_PER_INCH,
+                  right: page.margins.right * TWIPS_PER_INCH,
+                  bottom: page.margins.bottom * TWIPS_PER_INCH,
+                  left: page.margins.left * TWIPS_PER_INCH,
+                  header: (page.margins.top * TWIPS_PER_INCH) / 2,
+                  footer: (page.margins.bottom * TWIPS_PER_INCH) / 2,
+                },
+              },
+            }
+          : undefined,
+        headers: page?.header ? { default: new Header({ children: [pageField(page.header)] }) } : undefined,
+        footers: page?.footer ? { default: new Footer({ children: [pageField(page.footer)] }) } : undefined,
+        children: convert(doc, { quoteDepth: 0 }),
+      },
+    ],
+  })
+
+  return Packer.toBlob(file)
+}
+
+async function toPdf(title: string, doc: JSONContent, page: PageSettings | null) {
+  const [{ default: pdfMake }, { default: vfs }] = await Promise.all([
+    import("pdfmake/build/pdfmake"),
+    import("pdfmake/build/vfs_fonts"),
+  ])
+  type Content = import("pdfmake/interfaces").Content
+  type TableCell = import("pdfmake/interfaces").TableCell
+  const images = await loadImages(doc)
+  const POINTS_PER_INCH = 72
+  // [left, top, right, bottom] in points; pdfmake's default page is A4
+  const margins = page
+    ? [page.margins.left, page.margins.top, page.margins.right, page.margins.bottom].map((m) => m * POINTS_PER_INCH)
+    : [40, 48, 40, 48]
+  const PAGE_WIDTH = page
+    ? pageDimensions(page).width * POINTS_PER_INCH - margins[0] - margins[2]
+    : 595 - margins[0] - margins[2]
+
+  const pageField = (template: string, currentPage: number, pageCount: number, height: number): Content => ({
+    text: pageFieldParts(template)
+      .map((part) => ("text" in part ? part.text : String(part.field === "page" ? currentPage : pageCount)))
+      .join(""),
+    alignment: "center",
+    fontSize: 9,
+    color: "#6b7280",
+    // Centered in the margin
+    margin: [margins[0], Math.max(0, height / 2 - 5), margins[2], 0],
+  })
+
+  const toText = (runs: Run[]) =>
+    runs.length === 0
+      ? " "
+      : runs.map((run) => ({
+          text: run.text,
+          bold: run.bold,
+          italics: run.italic,
+          decoration: [run.underline && "underline", run.strike && "lineThrough"].filter(Boolean) as (
+            | "underline"
+            | "lineThrough"
+          )[],
+          background: run.highlight ?? (run.code ? "#f3f4f6" : undefined),
+          color: run.color ?? (run.href ? "#2563eb" : undefined),
+          link: run.href,
+        }))
+
+  // pdfmake wants a cell for every grid position, with placeholders under spans
+  const toTableBody = (table: JSONContent) => {
+    const covered: number[] = []
+    return (table.content || []).map((row) => {
+      const cells: TableCell[] = []
+      let column = 0
+      const skipCovered = () => {
+        while (covered[column] > 0) {
+          covered[column]--
+          cells.push({})
+          column++
+        }
+      }
+
+      for (const cell of row.content || []) {
+        skipCovered()
+        const colSpan = cell.attrs?.colspan || 1
+        const rowSpan = cell.attrs?.rowspan || 1
+        cells.push({
+          stack: convert(cell),
+          colSpan,
+          rowSpan,
+          bold: cell.type === "tableHeader" || undefined,
+          fillColor: cell.type === "tableHeader" ? "#f3f4f6" : undefined,
+        })
+        for (let i = 0; i < colSpan; i++) {
+          if (i > 0) cells.push({})
+          covered[column + i] = rowSpan - 1
+        }
+        column += colSpan
+      }
+      skipCovered()
+      return cells
+    })
+  }
+
+  const convert = (node: JSONContent): Content[] =>
+    (node.content || []).map((child): Content => {
+      switch (child.type) {
+        case "heading":
+          return { text: toText(runsOf(child)), style: `h${child.attrs?.level || 1}`, alignment: alignmentOf(child) }
+        case "codeBlock":
+          return {
+            table: { widths: ["*"], body: [[{ text: textOf(child), preserveLeadingSpaces: true, fontSize: 9 }]] },
+            layout: { fillColor: "#f3f4f6", hLineWidth: () => 0, vLineWidth: () => 0, paddingTop: () => 6, paddingBottom: () => 6 },
+            margin: [0, 0, 0, 8],
+          }
+        case "pageBreak":
+          return { text: "", pageBreak: "after" }
+        case "horizontalRule":
+          return {
+            canvas: [{ type: "line", x1: 0, y1: 0, x2: PAGE_WIDTH, y2: 0, lineWidth: 0.5, lineColor: "#d1d5db" }],
+            margin: [0, 8, 0, 16],
+          }
+        case "image": {
+          const image = images.get(child.attrs?.src)
+          const alignment = (child.attrs?.align as Alignment) || "center"
+          if (!image) return { text: imageLabel(child), italics: true, color: "#6b7280", alignment, margin: [0, 0, 0, 8] }
+          return {
+            stack: [
+              { image: image.dataUrl, width: imageSize(child, image, PAGE_WIDTH, 0.75).width, alignment },
+              ...(child.attrs?.caption
+                ? [{ text: child.attrs.caption, italics: true, fontSize: 9, color: "#6b7280", alignment, margin: [0, 4, 0, 0] }]
+                : []),
+            ],
+            margin: [0, 4, 0, 12],
+          } as Content
+        }
+        case "table": {
+          const body = toTableBody(child)
+          return {
+            table: {
+              widths: Array(Math.max(...body.map((row) => row.length))).fill("*"),
+              headerRows: isHeaderRow(child.content?.[0]) ? 1 : 0,
+              body,
+            },
+            layout: {
+              hLineColor: () => "#d1d5db",
+              vLineColor: () => "#d1d5db",
+              hLineWidth: () => 0.5,
+              vLineWidth: () => 0.5,
+            },
+            margin: [0, 0, 0, 8],
+          }
+        }
+        case "blockquote":
+          return {
+            table: { widths: ["*"], body: [[{ stack: convert(child), italics: true, color: "#4b5563" }]] },
+            layout: {
+              hLineWidth: () => 0,
+              vLineWidth: (i) => (i === 0 ? 3 : 0),
+              vLineColor: () => "#d1d5db",
+              paddingLeft: () => 12,
+            },
+            margin: [0, 0, 0, 8],
+          }
+        case "bulletList":
+          return { ul: (child.content || []).map((item) => ({ stack: convert(item) })), margin: [0, 0, 0, 8] }
+        case "orderedList":
+          return {
+            ol: (child.content || []).map((item) => ({ stack: convert(item) })),
+            start: child.attrs?.start || 1,
+            margin: [0, 0, 0, 8],
+          }
+        default:
+          return { text: toText(runsOf(child)), alignment: alignmentOf(child), margin: [0, 0, 0, 8] }
+      }
+    })
+
+  const pdf = pdfMake.createPdf(
+    {
+      info: { title },
+      pageSize: page ? (page.size.toUpperCase() as "LETTER" | "A4" | "LEGAL") : undefined,
+      pageOrientation: page?.orientation,
+      pageMargins: margins as [number, number, number, number],
+      header: page?.header ? (current, count) => pageField(page.header, current, count, margins[1]) : undefined,
+      footer: page?.footer ? (current, count) => pageField(page.footer, current, count, margins[3]) : undefined,
+      content: convert(doc),
+      defaultStyle: { fontSize: 11, lineHeight: 1.3 },
+      styles: {
+        h1: { fontSize: 24, bold: true, margin: [0, 12, 0, 8] },
+        h2: { fontSize: 19, bold: true, margin: [0, 10, 0, 6] },
+        h3: { fontSize: 16, bold: true, margin: [0, 8, 0, 6] },
+        h4: { fontSize: 14, bold: true, margin: [0, 8, 0, 4] },
+        h5: { fontSize: 12, bold: true, margin: [0, 6, 0, 4] },
+        h6: { fontSize: 11, bold: true, margin: [0, 6, 0, 4] },
+      },
+    },
+    undefined,
+    undefined,
+    vfs,
+  )
+
+  return new Promise<Blob>((resolve) => pdf.getBlob(resolve))
+}
+
+export async function exportDocument(
+  source: { title: string; content: string; pageSettings?: PageSettings },
+  format: ExportFormat,
+) {
+  const title = source.title || "Untitled Document"
+  const doc = parseDocument(source.content || "")
+  // Pageless documents export on the writers' default pages
+  const page = source.pageSettings?.layout === "paged" ? source.pageSettings : null
+  const { mimeType } = EXPORT_FORMATS[format]
+
+  switch (format) {
+    case "html":
+      return new Blob([toHtml(title, doc, page)], { type: `${mimeType};charset=utf-8` })
+    case "markdown":
+      return new Blob([toMarkdown(doc)], { type: `${mimeType};charset=utf-8` })
+    case "text":
+      return new Blob([toPlainText(doc)], { type: `${mimeType};charset=utf-8` })
+    case "docx":
+      return toDocx(title, doc, page)
+    case "pdf":
+      return toPdf(title, doc, page)
+  }
+}
+
+export function exportFileName(title: string, format: ExportFormat) {
+  const base = title.replace(/[\\/:*?"<>|]+/g, " ").trim() || "Untitled Document"
+  return `${base}.${EXPORT_FORMATS[format].extension}`
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
@@ -0,0 +1,38 @@
+import CodeBlockLowlight from "@tiptap/extension-code-block-lowlight"
+import { common, createLowlight } from "lowlight"
+
+// Code blocks with syntax highlighting. Highlighting is computed as
+// decorations, so the stored HTML is still a plain
+// `<pre><code class="language-…">` block.
+
+// Offered in the language picker; `common` ships grammars for all of them.
+// "xml" covers HTML.
+export const CODE_LANGUAGES = [
+  { value: "bash", label: "Bash" },
+  { value: "c", label: "C" },
+  { value: "cpp", label: "C++" },
+  { value: "csharp", label: "C#" },
+  { value: "css", label: "CSS" },
+  { value: "go", label: "Go" },
+  { value: "xml", label: "HTML / XML" },
+  { value: "java", label: "Java" },
+  { value: "javascript", label: "JavaScript" },
+  { value: "json", label: "JSON" },
+  { value: "kotlin", label: "Kotlin" },
+  { value: "markdown", label: "Markdown" },
+  { value: "php", label: "PHP" },
+  { value: "plaintext", label: "Plain text" },
+  { value: "python", label: "Python" },
+  { value: "ruby", label: "Ruby" },
+  { value: "rust", label: "Rust" },
+  { value: "sql", label: "SQL" },
+  { value: "swift", label: "Swift" },
+  { value: "typescript", label: "TypeScript" },
+  { value: "yaml", label: "YAML" },
+]
+
+// Blocks without a language are highlighted by auto-detection
+export const CodeBlock = CodeBlockLowlight.configure({
+  lowlight: createLowlight(common),
+  defaultLanguage: null,
+})
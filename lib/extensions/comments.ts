@@ -0,0 +1,165 @@
+import { Mark, mergeAttributes } from "@tiptap/core"
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model"
+import { Plugin, PluginKey } from "@tiptap/pm/state"
+import { Decoration, DecorationSet } from "@tiptap/pm/view"
+
+// Anchors for comment threads. The commented text carries a `comment` mark
+// with the thread id, so the anchor follows the text through later edits.
+// The mark renders without styling; highlights come from decorations so
+// resolved threads can disappear without rewriting the document.
+
+export interface CommentAnchor {
+  threadId: string
+  from: number
+  to: number
+}
+
+export interface CommentStorage {
+  openThreads: Set<string>
+  activeThread: string | null
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    comment: {
+      setComment: (threadId: string) => ReturnType
+      unsetComment: (threadId: string) => ReturnType
+      // Refreshes highlights after `openThreads` or `activeThread` changed
+      refreshComments: () => ReturnType
+    }
+  }
+}
+
+const commentKey = new PluginKey("comment")
+
+export function getCommentAnchors(doc: ProseMirrorNode): Map<string, CommentAnchor> {
+  const anchors = new Map<string, CommentAnchor>()
+
+  doc.descendants((node, pos) => {
+    if (!node.isText) return
+    for (const mark of node.marks) {
+      if (mark.type.name !== "comment") continue
+      const existing = anchors.get(mark.attrs.threadId)
+      if (existing) {
+        existing.from = Math.min(existing.from, pos)
+        existing.to = Math.max(existing.to, pos + node.nodeSize)
+      } else {
+        anchors.set(mark.attrs.threadId, { threadId: mark.attrs.threadId, from: pos, to: pos + node.nodeSize })
+      }
+    }
+  })
+
+  return anchors
+}
+
+// Threads whose anchor covers `pos`, innermost last
+export function commentThreadsAt(doc: ProseMirrorNode, pos: number) {
+  const $pos = doc.resolve(pos)
+  const marks = [...($pos.nodeAfter?.marks || []), ...($pos.nodeBefore?.marks || [])]
+  return Array.from(new Set(marks.filter((mark) => mark.type.name === "comment").map((mark) => mark.attrs.threadId)))
+}
+
+export const CommentMark = Mark.create<Record<string, never>, CommentStorage>({
+  name: "comment",
+  inclusive: false,
+  // Overlapping threads each keep their own mark
+  excludes: "",
+
+  addStorage() {
+    return {
+      openThreads: new Set(),
+      activeThread: null,
+    }
+  },
+
+  addAttributes() {
+    return {
+      threadId: {
+        default: null,
+        parseHTML: (el) => el.getAttribute("data-comment-id"),
+        renderHTML: (attrs) => ({ "data-comment-id": attrs.threadId }),
+      },
+    }
+  },
+
+  parseHTML() {
+    return [{ tag: "span[data-comment-id]" }]
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return ["span", mergeAttributes(HTMLAttributes), 0]
+  },
+
+  addCommands() {
+    return {
+      // Added directly rather than through setMark, which would rewrite the
+      // thread id of any comment already covering the selection
+      setComment:
+        (threadId) =>
+        ({ state, tr, dispatch }) => {
+          const { from, to, empty } = state.selection
+          if (empty) return false
+          if (dispatch) tr.addMark(from, to, state.schema.marks[this.name].create({ threadId }))
+          return true
+        },
+      unsetComment:
+        (threadId) =>
+        ({ state, tr, dispatch }) => {
+          const anchor = getCommentAnchors(state.doc).get(threadId)
+          if (!anchor) return false
+          if (dispatch) {
+            state.doc.nodesBetween(anchor.from, anchor.to, (node, pos) => {
+              const mark = node.marks.find((m) => m.type.name === this.name && m.attrs.threadId === threadId)
+              if (mark) tr.removeMark(pos, pos + node.nodeSize, mark)
+            })
+          }
+          return true
+        },
+      refreshComments:
+        () =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(commentKey, true).setMeta("addToHistory", false)
+          return true
+        },
+    }
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage
+
+    const buildDecorations = (doc: ProseMirrorNode) => {
+      const decorations: Decoration[] = []
+      doc.descendants((node, pos) => {
+        if (!node.isText) return
+        const threads = node.marks
+          .filter((mark) => mark.type.name === "comment" && storage.openThreads.has(mark.attrs.threadId))
+          .map((mark) => mark.attrs.threadId as string)
+        if (threads.length === 0) return
+
+        const active = storage.activeThread !== null && threads.includes(storage.activeThread)
+        decorations.push(
+          Decoration.inline(pos, pos + node.nodeSize, {
+            class: active ? "comment-anchor comment-anchor--active" : "comment-anchor",
+          }),
+        )
+      })
+      return DecorationSet.create(doc, decorations)
+    }
+
+    return [
+      new Plugin({
+        key: commentKey,
+        state: {
+          init: (_, state) => buildDecorations(state.doc),
+          apply: (tr, decorations) =>
+            tr.docChanged || tr.getMeta(commentKey) ? buildDecorations(tr.doc) : decorations,
+        },
+        props: {
+          decorations(state) {
+            return commentKey.getState(state)
+          },
+        },
+      }),
+    ]
+  },
+})
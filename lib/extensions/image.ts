@@ -0,0 +1,168 @@
+import { Node, mergeAttributes, type Editor } from "@tiptap/core"
+import { ReactNodeViewRenderer } from "@tiptap/react"
+import { Plugin, PluginKey } from "@tiptap/pm/state"
+import { ImageNodeView } from "@/components/image-node-view"
+import type { Attachment } from "@/lib/attachments"
+
+// Block images with a caption, alt text, alignment and a width relative to the
+// page. Stored as
+// <figure data-type="image" data-align="…" data-width="…"><img><figcaption></figure>
+// Pasted or dropped files are uploaded through the `upload` option: images
+// become image nodes, other files a link to the upload.
+
+export type ImageAlignment = "left" | "center" | "right"
+
+export interface ImageOptions {
+  upload: ((file: File) => Promise<Attachment>) | null
+  onUploadError: (error: Error, file: File) => void
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    image: {
+      setImage: (attrs: { src: string; alt?: string; caption?: string }) => ReturnType
+      // Uploads in the background and inserts each file once it is stored
+      uploadFiles: (files: File[], pos?: number) => ReturnType
+    }
+  }
+}
+
+function fileLabel(name: string) {
+  const dot = name.lastIndexOf(".")
+  return dot > 0 ? name.slice(0, dot) : name
+}
+
+async function insertFiles(editor: Editor, options: ImageOptions, files: File[], pos?: number) {
+  if (!options.upload) return
+  let at = pos ?? editor.state.selection.to
+
+  for (const file of files) {
+    try {
+      const attachment = await options.upload(file)
+      if (editor.isDestroyed) return
+      const insertAt = Math.min(at, editor.state.doc.content.size)
+      const content = attachment.type.startsWith("image/")
+        ? { type: "image", attrs: { src: attachment.url, alt: fileLabel(attachment.name) } }
+        : { type: "text", text: attachment.name, marks: [{ type: "link", attrs: { href: attachment.url } }] }
+
+      const sizeBefore = editor.state.doc.content.size
+      editor.chain().insertContentAt(insertAt, content).run()
+      at = insertAt + (editor.state.doc.content.size - sizeBefore)
+    } catch (error: any) {
+      options.onUploadError(error, file)
+    }
+  }
+}
+
+export const Image = Node.create<ImageOptions>({
+  name: "image",
+  group: "block",
+  atom: true,
+  draggable: true,
+
+  addOptions() {
+    return {
+      upload: null,
+      onUploadError: () => {},
+    }
+  },
+
+  addAttributes() {
+    return {
+      src: { default: null },
+      alt: { default: "" },
+      caption: { default: "" },
+      align: {
+        default: "center",
+        parseHTML: (el) => el.getAttribute("data-align") || "center",
+        renderHTML: (attrs) => ({ "data-align": attrs.align }),
+      },
+      // Percentage of the page width; null keeps the image's natural size
+      width: {
+        default: null,
+        parseHTML: (el) => Number(el.getAttribute("data-width")) || null,
+        renderHTML: (attrs) => (attrs.width ? { "data-width": attrs.width } : {}),
+      },
+    }
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: 'figure[data-type="image"]',
+        getAttrs: (el) => {
+          const img = (el as HTMLElement).querySelector("img")
+          if (!img?.getAttribute("src")) return false
+          return {
+            src: img.getAttribute("src"),
+            alt: img.getAttribute("alt") || "",
+            caption: (el as HTMLElement).querySelector("figcaption")?.textContent || "",
+          }
+        },
+      },
+      {
+        tag: "img[src]",
+        getAttrs: (el) => ({
+          src: (el as HTMLElement).getAttribute("src"),
+          alt: (el as HTMLElement).getAttribute("alt") || "",
+        }),
+      },
+    ]
+  },
+
+  renderHTML({ node, HTMLAttributes }) {
+    const { src, alt, caption, ...attrs } = HTMLAttributes
+    const textAlign = node.attrs.align === "left" ? "left" : node.attrs.align === "right" ? "right" : "center"
+
+    return [
+      "figure",
+      mergeAttributes(attrs, { "data-type": "image", style: `text-align: ${textAlign}` }),
+      ["img", { src, alt, style: node.attrs.width ? `width: ${node.attrs.width}%` : undefined }],
+      ...(caption ? [["figcaption", {}, caption]] : []),
+    ]
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(ImageNodeView)
+  },
+
+  addCommands() {
+    return {
+      setImage:
+        (attrs) =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name, attrs }),
+      uploadFiles:
+        (files, pos) =>
+        ({ editor }) => {
+          if (!this.options.upload || files.length === 0) return false
+          insertFiles(editor, this.options, files, pos)
+          return true
+        },
+    }
+  },
+
+  addProseMirrorPlugins() {
+    const editor = this.editor
+
+    return [
+      new Plugin({
+        key: new PluginKey("imageUpload"),
+        props: {
+          handlePaste: (_view, event) => {
+            const files = Array.from(event.clipboardData?.files || [])
+            if (files.length === 0 || !editor.isEditable) return false
+            return editor.commands.uploadFiles(files)
+          },
+          handleDrop: (view, event, _slice, moved) => {
+            const files = Array.from(event.dataTransfer?.files || [])
+            if (moved || files.length === 0 || !editor.isEditable) return false
+            const pos = view.posAtCoords({ left: event.clientX, top: event.clientY })?.pos
+            event.preventDefault()
+            return editor.commands.uploadFiles(files, pos)
+          },
+        },
+      }),
+    ]
+  },
+})
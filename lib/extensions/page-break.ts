@@ -0,0 +1,43 @@
+import { Node } from "@tiptap/core"
+
+// Manual page break. In the paged layout the next block starts a new page; in
+// the pageless layout it shows as a labelled rule. Exports and printing break
+// the page there as well.
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    pageBreak: {
+      setPageBreak: () => ReturnType
+    }
+  }
+}
+
+export const PageBreak = Node.create({
+  name: "pageBreak",
+  group: "block",
+  atom: true,
+  selectable: true,
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="page-break"]' }]
+  },
+
+  renderHTML() {
+    return ["div", { "data-type": "page-break", class: "page-break", style: "break-after: page" }]
+  },
+
+  addCommands() {
+    return {
+      setPageBreak:
+        () =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name }),
+    }
+  },
+
+  addKeyboardShortcuts() {
+    return {
+      "Mod-Enter": () => this.editor.commands.setPageBreak(),
+    }
+  },
+})
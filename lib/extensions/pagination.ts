@@ -0,0 +1,194 @@
+import { Extension } from "@tiptap/core"
+import { Plugin, PluginKey, type EditorState } from "@tiptap/pm/state"
+import { Decoration, DecorationSet, type EditorView } from "@tiptap/pm/view"
+
+// Paged layout. Top-level blocks are measured after every change and a spacer
+// is placed before each block that would cross the bottom of a page, pushing
+// it to the top of the next one. The editor component draws the pages,
+// headers and footers behind the content from the page count kept here.
+// Blocks taller than a page are not split.
+//
+// Measuring assumes top-level blocks have no top margin (see `.paged-document`
+// in globals.css), so a spacer moves everything after it by exactly its height.
+
+export interface PageGeometry {
+  // Height between the top and bottom margins of a page, in pixels
+  contentHeight: number
+  // Distance from the end of one page's content to the start of the next:
+  // the bottom margin, the space between pages and the top margin
+  gapHeight: number
+}
+
+interface PageGap {
+  pos: number
+  height: number
+}
+
+interface PaginationState {
+  geometry: PageGeometry | null
+  gaps: PageGap[]
+  pages: number
+  decorations: DecorationSet
+}
+
+type PaginationMeta = { geometry: PageGeometry | null } | { gaps: PageGap[]; pages: number }
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    pagination: {
+      // Turns the paged layout on with the given geometry, or off with null
+      setPageGeometry: (geometry: PageGeometry | null) => ReturnType
+    }
+  }
+}
+
+const paginationKey = new PluginKey<PaginationState>("pagination")
+
+export function getPageCount(state: EditorState) {
+  return paginationKey.getState(state)?.pages ?? 1
+}
+
+function gapDecorations(state: EditorState, gaps: PageGap[]) {
+  return DecorationSet.create(
+    state.doc,
+    gaps.map((gap) =>
+      Decoration.widget(
+        gap.pos,
+        () => {
+          const spacer = document.createElement("div")
+          spacer.className = "page-gap"
+          spacer.contentEditable = "false"
+          spacer.style.height = `${gap.height}px`
+          return spacer
+        },
+        { side: -1, key: `page-gap-${gap.height.toFixed(1)}`, ignoreSelection: true },
+      ),
+    ),
+  )
+}
+
+function sameLayout(a: PaginationState, gaps: PageGap[], pages: number) {
+  return (
+    a.pages === pages &&
+    a.gaps.length === gaps.length &&
+    a.gaps.every((gap, i) => gap.pos === gaps[i].pos && Math.abs(gap.height - gaps[i].height) < 1)
+  )
+}
+
+function measure(view: EditorView) {
+  const state = paginationKey.getState(view.state)
+  if (!state?.geometry) return
+
+  const { contentHeight, gapHeight } = state.geometry
+  const start = (page: number) => page * (contentHeight + gapHeight)
+  const end = (page: number) => start(page) + contentHeight
+
+  const origin = view.dom.getBoundingClientRect().top + parseFloat(getComputedStyle(view.dom).paddingTop)
+  // Spacers already on screen, so block positions can be measured without them
+  const spacers = Array.from(view.dom.children)
+    .filter((el) => el.classList.contains("page-gap"))
+    .map((el) => ({ top: el.getBoundingClientRect().top, height: (el as HTMLElement).offsetHeight }))
+
+  const gaps: PageGap[] = []
+  let shift = 0
+  let page = 0
+  let bottom = 0
+  let forceBreak = false
+
+  view.state.doc.forEach((node, offset) => {
+    const dom = view.nodeDOM(offset)
+    if (!(dom instanceof HTMLElement)) return
+
+    const rect = dom.getBoundingClientRect()
+    const spaced = spacers.reduce((sum, spacer) => (spacer.top < rect.top ? sum + spacer.height : sum), 0)
+    let top = rect.top - origin - spaced + shift
+
+    while (top >= end(page)) page++
+    let push = 0
+    if (top < start(page)) {
+      // Between pages
+      push = start(page) - top
+    } else if (top > start(page) && (forceBreak || top + rect.height > end(page))) {
+      page++
+      push = start(page) - top
+    }
+
+    if (push > 0.5) {
+      gaps.push({ pos: offset, height: push })
+      shift += push
+      top += push
+    }
+    bottom = top + rect.height
+    forceBreak = node.type.name === "pageBreak"
+  })
+
+  let pages = page + 1
+  while (bottom > end(pages - 1)) pages++
+  if (forceBreak) pages++
+
+  if (sameLayout(state, gaps, pages)) return
+  view.dispatch(view.state.tr.setMeta(paginationKey, { gaps, pages }).setMeta("addToHistory", false))
+}
+
+export const Pagination = Extension.create({
+  name: "pagination",
+
+  addCommands() {
+    return {
+      setPageGeometry:
+        (geometry) =>
+        ({ tr, dispatch }) => {
+          if (dispatch) tr.setMeta(paginationKey, { geometry }).setMeta("addToHistory", false)
+          return true
+        },
+    }
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<PaginationState>({
+        key: paginationKey,
+        state: {
+          init: () => ({ geometry: null, gaps: [], pages: 1, decorations: DecorationSet.empty }),
+          apply: (tr, value, _oldState, newState) => {
+            const meta = tr.getMeta(paginationKey) as PaginationMeta | undefined
+            if (meta && "geometry" in meta) {
+              return { geometry: meta.geometry, gaps: [], pages: 1, decorations: DecorationSet.empty }
+            }
+            if (meta && value.geometry) {
+              return { ...value, ...meta, decorations: gapDecorations(newState, meta.gaps) }
+            }
+            if (!tr.docChanged) return value
+            return { ...value, decorations: value.decorations.map(tr.mapping, tr.doc) }
+          },
+        },
+        props: {
+          decorations: (state) => paginationKey.getState(state)?.decorations,
+        },
+        view: (view) => {
+          let frame = 0
+          const schedule = () => {
+            cancelAnimationFrame(frame)
+            frame = requestAnimationFrame(() => measure(view))
+          }
+          // Catches images loading, fonts and width changes as well
+          const observer = new ResizeObserver(schedule)
+          observer.observe(view.dom)
+
+          return {
+            update: (view, prevState) => {
+              const geometry = paginationKey.getState(view.state)?.geometry
+              if (view.state.doc !== prevState.doc || geometry !== paginationKey.getState(prevState)?.geometry) {
+                schedule()
+              }
+            },
+            destroy: () => {
+              cancelAnimationFrame(frame)
+              observer.disconnect()
+            },
+          }
+        },
+      }),
+    ]
+  },
+})
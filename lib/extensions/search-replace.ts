@@ -0,0 +1,215 @@
+import { Extension, type CommandProps } from "@tiptap/core"
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model"
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from "@tiptap/pm/state"
+import { Decoration, DecorationSet } from "@tiptap/pm/view"
+
+// In-document find and replace. The query and the matches it finds live in
+// plugin state, so they follow every edit, local or remote. Matches never span
+// text blocks. Replacing all matches is one transaction and so one undo step.
+
+export interface SearchOptions {
+  caseSensitive: boolean
+  wholeWord: boolean
+  regex: boolean
+}
+
+export interface SearchMatch {
+  from: number
+  to: number
+  text: string
+  // Capture groups, for $1-style references in regex replacements
+  groups: string[]
+}
+
+export interface SearchState {
+  query: string
+  options: SearchOptions
+  matches: SearchMatch[]
+  // Index into `matches`, or -1 when there are none
+  current: number
+  // Why the query could not be used, e.g. an invalid regular expression
+  error: string | null
+  decorations: DecorationSet
+}
+
+type SearchMeta = { query: string; options: SearchOptions } | { current: number }
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    searchReplace: {
+      setSearchTerm: (query: string, options?: Partial<SearchOptions>) => ReturnType
+      clearSearch: () => ReturnType
+      nextSearchMatch: () => ReturnType
+      previousSearchMatch: () => ReturnType
+      replaceSearchMatch: (replacement: string) => ReturnType
+      replaceAllSearchMatches: (replacement: string) => ReturnType
+    }
+  }
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = { caseSensitive: false, wholeWord: false, regex: false }
+
+const searchReplaceKey = new PluginKey<SearchState>("searchReplace")
+
+export function getSearchState(state: EditorState) {
+  return searchReplaceKey.getState(state)
+}
+
+function buildPattern(query: string, options: SearchOptions) {
+  const source = options.regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  const bounded = options.wholeWord ? `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])` : source
+  return new RegExp(bounded, options.caseSensitive ? "gu" : "giu")
+}
+
+function findMatches(doc: ProseMirrorNode, pattern: RegExp) {
+  const matches: SearchMatch[] = []
+  doc.descendants((node, pos) => {
+    if (!node.isTextblock) return true
+    // One character per leaf node keeps string offsets equal to document positions
+    const text = node.textBetween(0, node.content.size, undefined, "\uFFFC")
+    pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text))) {
+      if (match[0].length === 0) {
+        pattern.lastIndex++
+        continue
+      }
+      const from = pos + 1 + match.index
+      matches.push({ from, to: from + match[0].length, text: match[0], groups: match.slice(1) })
+    }
+    return false
+  })
+  return matches
+}
+
+function matchDecorations(doc: ProseMirrorNode, matches: SearchMatch[], current: number) {
+  return DecorationSet.create(
+    doc,
+    matches.map((match, index) =>
+      Decoration.inline(match.from, match.to, {
+        class: index === current ? "search-match search-match-current" : "search-match",
+      }),
+    ),
+  )
+}
+
+function search(doc: ProseMirrorNode, query: string, options: SearchOptions, current: number): SearchState {
+  let matches: SearchMatch[] = []
+  let error: string | null = null
+  if (query) {
+    try {
+      matches = findMatches(doc, buildPattern(query, options))
+    } catch (e) {
+      error = e instanceof Error ? e.message : "Invalid search"
+    }
+  }
+  const index = matches.length ? Math.min(Math.max(current, 0), matches.length - 1) : -1
+  return { query, options, matches, current: index, error, decorations: matchDecorations(doc, matches, index) }
+}
+
+// Expands $1-$99, $& and $$ in a regex replacement
+function expandReplacement(replacement: string, match: SearchMatch) {
+  return replacement.replace(/\$(\$|&|\d{1,2})/g, (token, ref: string) => {
+    if (ref === "$") return "$"
+    if (ref === "&") return match.text
+    return match.groups[Number(ref) - 1] ?? token
+  })
+}
+
+function replacementFor(state: SearchState, replacement: string, match: SearchMatch) {
+  return state.options.regex ? expandReplacement(replacement, match) : replacement
+}
+
+function selectMatch(tr: Transaction, match: SearchMatch) {
+  return tr.setSelection(TextSelection.create(tr.doc, match.from, match.to)).scrollIntoView()
+}
+
+export const SearchReplace = Extension.create({
+  name: "searchReplace",
+
+  addCommands() {
+    const step =
+      (direction: 1 | -1) =>
+      () =>
+      ({ state, tr, dispatch }: CommandProps) => {
+        const search = getSearchState(state)
+        if (!search?.matches.length) return false
+        if (dispatch) {
+          const count = search.matches.length
+          const current = (search.current + direction + count) % count
+          const meta: SearchMeta = { current }
+          selectMatch(tr, search.matches[current]).setMeta(searchReplaceKey, meta)
+        }
+        return true
+      }
+
+    return {
+      setSearchTerm:
+        (query, options = {}) =>
+        ({ state, tr, dispatch }) => {
+          const search = getSearchState(state)
+          if (dispatch) {
+            const meta: SearchMeta = { query, options: { ...(search?.options ?? DEFAULT_SEARCH_OPTIONS), ...options } }
+            tr.setMeta(searchReplaceKey, meta)
+          }
+          return true
+        },
+      clearSearch:
+        () =>
+        ({ commands }) =>
+          commands.setSearchTerm(""),
+      nextSearchMatch: step(1),
+      previousSearchMatch: step(-1),
+      replaceSearchMatch:
+        (replacement) =>
+        ({ editor, state, tr, dispatch }) => {
+          const search = getSearchState(state)
+          const match = search?.matches[search.current]
+          if (!editor.isEditable || !search || !match) return false
+          if (dispatch) {
+            tr.insertText(replacementFor(search, replacement, match), match.from, match.to)
+          }
+          return true
+        },
+      replaceAllSearchMatches:
+        (replacement) =>
+        ({ editor, state, tr, dispatch }) => {
+          const search = getSearchState(state)
+          if (!editor.isEditable || !search?.matches.length) return false
+          // Suggestion mode tracks one replacement per transaction; use replaceSearchMatch
+          if (editor.storage.suggestionMode?.enabled) return false
+          if (dispatch) {
+            // Back to front, so earlier positions stay valid
+            for (const match of [...search.matches].reverse()) {
+              tr.insertText(replacementFor(search, replacement, match), match.from, match.to)
+            }
+          }
+          return true
+        },
+    }
+  },
+
+  addProseMirrorPlugins() {
+    return [
+      new Plugin<SearchState>({
+        key: searchReplaceKey,
+        state: {
+          init: (_, state) => search(state.doc, "", DEFAULT_SEARCH_OPTIONS, -1),
+          apply(tr, value) {
+            const meta = tr.getMeta(searchReplaceKey) as SearchMeta | undefined
+            if (meta && "query" in meta) return search(tr.doc, meta.query, meta.options, 0)
+            if (meta && "current" in meta) {
+              const decorations = matchDecorations(tr.doc, value.matches, meta.current)
+              return { ...value, current: meta.current, decorations }
+            }
+            if (tr.docChanged && value.query) return search(tr.doc, value.query, value.options, value.current)
+            return value
+          },
+        },
+        props: {
+          decorations: (state) => searchReplaceKey.getState(state)?.decorations,
+        },
+      }),
+    ]
+  },
+})
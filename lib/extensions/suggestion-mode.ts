@@ -0,0 +1,331 @@
+import { Extension, Mark, mergeAttributes } from "@tiptap/core"
+import { isChangeOrigin } from "@tiptap/extension-collaboration"
+import type { Mark as ProseMirrorMark, Node as ProseMirrorNode, Slice } from "@tiptap/pm/model"
+import { Plugin, PluginKey, TextSelection, type EditorState, type Transaction } from "@tiptap/pm/state"
+import { AddMarkStep, RemoveMarkStep, ReplaceStep } from "@tiptap/pm/transform"
+import type { EditorView } from "@tiptap/pm/view"
+
+// Tracked changes. While suggesting, every plain edit transaction is rewritten:
+// removed text stays in the document under a `deletion` mark, new text is
+// added under an `insertion` mark, and both carry the author and time.
+// Edits that cannot be tracked this way (formatting, new paragraphs and line
+// breaks, lists, images, tables, moving content) are blocked; only comment
+// anchors may be added or removed.
+//
+// Commenters are also checked on the sync server, which only relays and
+// stores their updates when they add or remove suggestions and comment anchors.
+
+export type SuggestionKind = "insertion" | "deletion"
+
+export interface SuggestionAuthor {
+  id: string
+  name: string
+}
+
+export interface Suggestion {
+  id: string
+  kind: SuggestionKind
+  authorId: string
+  authorName: string
+  createdAt: string
+  text: string
+  from: number
+  to: number
+}
+
+export interface SuggestionModeStorage {
+  enabled: boolean
+  author: SuggestionAuthor | null
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    suggestionMode: {
+      acceptSuggestion: (id: string) => ReturnType
+      rejectSuggestion: (id: string) => ReturnType
+      acceptAllSuggestions: () => ReturnType
+      rejectAllSuggestions: () => ReturnType
+    }
+  }
+}
+
+const suggestionModeKey = new PluginKey("suggestionMode")
+
+const suggestionAttributes = {
+  id: { default: null, parseHTML: (el: HTMLElement) => el.getAttribute("data-suggestion-id") },
+  authorId: { default: null, parseHTML: (el: HTMLElement) => el.getAttribute("data-author-id") },
+  authorName: { default: null, parseHTML: (el: HTMLElement) => el.getAttribute("data-author-name") },
+  createdAt: { default: null, parseHTML: (el: HTMLElement) => el.getAttribute("data-created-at") },
+}
+
+function renderSuggestionAttributes(attrs: Record<string, any>) {
+  return {
+    "data-suggestion-id": attrs.id,
+    "data-author-id": attrs.authorId,
+    "data-author-name": attrs.authorName,
+    "data-created-at": attrs.createdAt,
+    title: attrs.authorName ? `${attrs.authorName}, ${new Date(attrs.createdAt).toLocaleString()}` : undefined,
+  }
+}
+
+export const Insertion = Mark.create({
+  name: "insertion",
+  inclusive: false,
+  excludes: "deletion",
+  addAttributes: () => suggestionAttributes,
+  parseHTML: () => [{ tag: "ins[data-suggestion-id]" }],
+  renderHTML: ({ HTMLAttributes }) => [
+    "ins",
+    mergeAttributes(renderSuggestionAttributes(HTMLAttributes), { class: "suggestion-insertion" }),
+    0,
+  ],
+})
+
+export const Deletion = Mark.create({
+  name: "deletion",
+  inclusive: false,
+  excludes: "insertion",
+  addAttributes: () => suggestionAttributes,
+  parseHTML: () => [{ tag: "del[data-suggestion-id]" }],
+  renderHTML: ({ HTMLAttributes }) => [
+    "del",
+    mergeAttributes(renderSuggestionAttributes(HTMLAttributes), { class: "suggestion-deletion" }),
+    0,
+  ],
+})
+
+function suggestionMark(node: ProseMirrorNode | null | undefined, kind: SuggestionKind) {
+  return node?.marks.find((mark) => mark.type.name === kind)
+}
+
+// Consecutive edits by the same author extend the neighbouring suggestion
+// instead of starting a new one, so a typed word is accepted as a unit.
+function adjacentSuggestionId(doc: ProseMirrorNode, pos: number, kind: SuggestionKind, authorId: string) {
+  const $pos = doc.resolve(pos)
+  for (const node of [$pos.nodeBefore, $pos.nodeAfter]) {
+    const mark = suggestionMark(node, kind)
+    if (mark && mark.attrs.authorId === authorId) return mark.attrs.id as string
+  }
+  return null
+}
+
+function newSuggestionId() {
+  return Math.random().toString(36).slice(2, 10)
+}
+
+// Only text carries suggestion marks into the shared document, so the slice
+// must add text inside one block. Splitting or joining blocks (Enter), line
+// breaks, images and tables cannot be tracked.
+function isTrackable(slice: Slice) {
+  if (slice.openStart !== slice.openEnd) return false
+
+  let content = slice.content
+  for (let depth = 0; depth < slice.openStart; depth++) {
+    if (content.childCount !== 1) return false
+    content = content.firstChild!.content
+  }
+
+  let trackable = true
+  content.forEach((node) => {
+    if (!node.isText) trackable = false
+  })
+  return trackable
+}
+
+// Comment anchors are the only marks that may change while suggesting
+function isCommentChange(tr: Transaction) {
+  return tr.steps.every(
+    (step) =>
+      (step instanceof AddMarkStep || step instanceof RemoveMarkStep) && step.mark.type.name === "comment",
+  )
+}
+
+// Rewrites a single replace step as tracked changes. Returns null when the
+// transaction cannot be tracked.
+function trackChanges(state: EditorState, tr: Transaction, author: SuggestionAuthor) {
+  if (tr.steps.length !== 1 || !(tr.steps[0] instanceof ReplaceStep)) return null
+
+  const step = tr.steps[0] as ReplaceStep
+  const { from, to, slice } = step as unknown as { from: number; to: number; slice: ReplaceStep["slice"] }
+  if (!isTrackable(slice)) return null
+  const { schema } = state
+  const createdAt = new Date().toISOString()
+  const tracked = state.tr
+
+  if (from < to) {
+    // Own pending insertions are simply removed; anything else is marked deleted
+    const ownInsertions: [number, number][] = []
+    const deletionId = adjacentSuggestionId(state.doc, from, "deletion", author.id) ||
+      adjacentSuggestionId(state.doc, to, "deletion", author.id) ||
+      newSuggestionId()
+
+    state.doc.nodesBetween(from, to, (node, pos) => {
+      if (!node.isText) return
+      const start = Math.max(pos, from)
+      const end = Math.min(pos + node.nodeSize, to)
+      const insertion = suggestionMark(node, "insertion")
+
+      if (insertion && insertion.attrs.authorId === author.id) {
+        ownInsertions.push([start, end])
+      } else if (!suggestionMark(node, "deletion")) {
+        if (insertion) tracked.removeMark(start, end, schema.marks.insertion)
+        tracked.addMark(
+          start,
+          end,
+          schema.marks.deletion.create({ id: deletionId, authorId: author.id, authorName: author.name, createdAt }),
+        )
+      }
+    })
+
+    for (const [start, end] of ownInsertions.reverse()) {
+      tracked.delete(tracked.mapping.map(start), tracked.mapping.map(end))
+    }
+  }
+
+  const insertAt = tracked.mapping.map(to)
+  if (slice.size > 0) {
+    const sizeBefore = tracked.doc.content.size
+    tracked.replace(insertAt, insertAt, slice)
+    const insertEnd = insertAt + tracked.doc.content.size - sizeBefore
+    const insertionId = adjacentSuggestionId(tracked.doc, insertAt, "insertion", author.id) || newSuggestionId()
+
+    tracked.removeMark(insertAt, insertEnd, schema.marks.deletion)
+    tracked.addMark(
+      insertAt,
+      insertEnd,
+      schema.marks.insertion.create({ id: insertionId, authorId: author.id, authorName: author.name, createdAt }),
+    )
+    tracked.setSelection(TextSelection.near(tracked.doc.resolve(insertEnd)))
+  } else {
+    // Backspace leaves the caret before the struck-through text, Delete after it
+    const caret = state.selection.head >= to ? tracked.mapping.map(from, -1) : insertAt
+    tracked.setSelection(TextSelection.near(tracked.doc.resolve(caret)))
+  }
+
+  tracked.setMeta(suggestionModeKey, true)
+  return tracked
+}
+
+export function getSuggestions(doc: ProseMirrorNode): Suggestion[] {
+  const byId = new Map<string, Suggestion>()
+
+  doc.descendants((node, pos) => {
+    if (!node.isText) return
+    for (const mark of node.marks) {
+      if (mark.type.name !== "insertion" && mark.type.name !== "deletion") continue
+      const key = `${mark.type.name}:${mark.attrs.id}`
+      const existing = byId.get(key)
+      if (existing) {
+        existing.text += node.text
+        existing.to = pos + node.nodeSize
+      } else {
+        byId.set(key, {
+          id: mark.attrs.id,
+          kind: mark.type.name as SuggestionKind,
+          authorId: mark.attrs.authorId,
+          authorName: mark.attrs.authorName,
+          createdAt: mark.attrs.createdAt,
+          text: node.text || "",
+          from: pos,
+          to: pos + node.nodeSize,
+        })
+      }
+    }
+  })
+
+  return Array.from(byId.values()).sort((a, b) => a.from - b.from)
+}
+
+// Accepting keeps insertions and drops deletions; rejecting does the opposite
+function resolveSuggestions(state: EditorState, tr: Transaction, accept: boolean, id?: string) {
+  const keep = accept ? "insertion" : "deletion"
+  const drop = accept ? "deletion" : "insertion"
+  const unmark: [number, number, ProseMirrorMark][] = []
+  const remove: [number, number][] = []
+
+  state.doc.descendants((node, pos) => {
+    if (!node.isText) return
+    const keepMark = suggestionMark(node, keep)
+    const dropMark = suggestionMark(node, drop)
+    if (keepMark && (!id || keepMark.attrs.id === id)) unmark.push([pos, pos + node.nodeSize, keepMark])
+    if (dropMark && (!id || dropMark.attrs.id === id)) remove.push([pos, pos + node.nodeSize])
+  })
+
+  unmark.forEach(([from, to, mark]) => tr.removeMark(from, to, mark))
+  remove.reverse().forEach(([from, to]) => tr.delete(tr.mapping.map(from), tr.mapping.map(to)))
+  tr.setMeta(suggestionModeKey, true)
+  return unmark.length > 0 || remove.length > 0
+}
+
+export const SuggestionMode = Extension.create<Record<string, never>, SuggestionModeStorage>({
+  name: "suggestionMode",
+
+  addExtensions() {
+    return [Insertion, Deletion]
+  },
+
+  addStorage() {
+    return {
+      enabled: false,
+      author: null,
+    }
+  },
+
+  addCommands() {
+    return {
+      acceptSuggestion:
+        (id) =>
+        ({ state, tr }) =>
+          resolveSuggestions(state, tr, true, id),
+      rejectSuggestion:
+        (id) =>
+        ({ state, tr }) =>
+          resolveSuggestions(state, tr, false, id),
+      acceptAllSuggestions:
+        () =>
+        ({ state, tr }) =>
+          resolveSuggestions(state, tr, true),
+      rejectAllSuggestions:
+        () =>
+        ({ state, tr }) =>
+          resolveSuggestions(state, tr, false),
+    }
+  },
+
+  addProseMirrorPlugins() {
+    const storage = this.storage
+    let view: EditorView | null = null
+
+    return [
+      new Plugin({
+        key: suggestionModeKey,
+        view: (editorView) => {
+          view = editorView
+          return { destroy: () => (view = null) }
+        },
+        filterTransaction: (tr, state) => {
+          if (!storage.enabled || !storage.author || !tr.docChanged) return true
+          if (tr.getMeta(suggestionModeKey) || isChangeOrigin(tr) || isCommentChange(tr)) return true
+
+          let tracked = trackChanges(state, tr, storage.author)
+          if (!tracked) {
+            // An input rule (e.g. "- " starting a list) would swallow the
+            // typed text along with it; suggest the text on its own instead
+            const inputRules = state.plugins.find((plugin) => plugin.spec.isInputRules)
+            const typed = inputRules && tr.getMeta(inputRules)
+            if (!typed?.text) return false
+            tracked = trackChanges(state, state.tr.insertText(typed.text, typed.from, typed.to), storage.author)
+            if (!tracked) return false
+          }
+
+          // Swap the edit for its tracked form once this dispatch has unwound
+          const replacement = tracked
+          queueMicrotask(() => {
+            if (view && view.state === state) view.dispatch(replacement)
+          })
+          return false
+        },
+      }),
+    ]
+  },
+})
@@ -0,0 +1,44 @@
+import { Node } from "@tiptap/core"
+import { ReactNodeViewRenderer } from "@tiptap/react"
+import { TableOfContentsView } from "@/components/table-of-contents-view"
+
+// Insertable table of contents. Only the block itself is stored; its entries
+// are read from the document's headings (see lib/outline.ts) whenever it is
+// drawn, so they follow every edit. Exports write the entries out as a list.
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    tableOfContents: {
+      insertTableOfContents: () => ReturnType
+    }
+  }
+}
+
+export const TableOfContents = Node.create({
+  name: "tableOfContents",
+  group: "block",
+  atom: true,
+  selectable: true,
+  draggable: true,
+
+  parseHTML() {
+    return [{ tag: 'div[data-type="table-of-contents"]' }]
+  },
+
+  renderHTML() {
+    return ["div", { "data-type": "table-of-contents" }]
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(TableOfContentsView)
+  },
+
+  addCommands() {
+    return {
+      insertTableOfContents:
+        () =>
+        ({ commands }) =>
+          commands.insertContent({ type: this.name }),
+    }
+  },
+})
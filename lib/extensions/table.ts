@@ -0,0 +1,18 @@
+import Table from "@tiptap/extension-table"
+import TableRow from "@tiptap/extension-table-row"
+import TableHeader from "@tiptap/extension-table-header"
+import TableCell from "@tiptap/extension-table-cell"
+
+// Tables with header rows and columns, merged cells and draggable column
+// widths. Tab and Shift-Tab move between cells (Tab in the last cell adds a
+// row), arrow keys leave the table at its edges, and Backspace with every
+// cell selected removes it.
+
+export const MAX_TABLE_SIZE = { rows: 10, cols: 8 }
+
+export const TableExtensions = [
+  Table.configure({ resizable: true, cellMinWidth: 60 }),
+  TableRow,
+  TableHeader,
+  TableCell,
+]
@@ -0,0 +1,161 @@
+import { supabase } from "@/lib/supabase"
+import type { DocumentMember, DocumentRole } from "@/lib/permissions"
+
+export interface Folder {
+  id: string
+  name: string
+  parentId: string | null
+  createdAt: Date
+}
+
+// Roles a folder can pass on to the documents in it
+export type FolderRole = Exclude<DocumentRole, "owner">
+
+export type FolderMember = DocumentMember & { role: FolderRole }
+
+interface FolderRow {
+  id: string
+  name: string
+  parent_id: string | null
+  created_at: string
+}
+
+interface FolderPermissionRow {
+  role: FolderRole
+  user: { id: string; name: string; email: string; avatar: string | null } | null
+}
+
+function toFolder(row: FolderRow): Folder {
+  return { id: row.id, name: row.name, parentId: row.parent_id, createdAt: new Date(row.created_at) }
+}
+
+// Every folder the user owns, at all depths, sorted by name
+export async function fetchFolders(ownerId: string): Promise<Folder[]> {
+  const { data, error } = await supabase
+    .from("folders")
+    .select("id, name, parent_id, created_at")
+    .eq("owner_id", ownerId)
+    .order("name", { ascending: true })
+
+  if (error) throw error
+  return (data as FolderRow[]).map(toFolder)
+}
+
+export async function createFolder(ownerId: string, name: string, parentId: string | null): Promise<Folder> {
+  const { data, error } = await supabase
+    .from("folders")
+    .insert({ owner_id: ownerId, name: name.trim(), parent_id: parentId })
+    .select("id, name, parent_id, created_at")
+    .single()
+
+  if (error) throw error
+  return toFolder(data as FolderRow)
+}
+
+export async function renameFolder(folderId: string, name: string) {
+  const { error } = await supabase.from("folders").update({ name: name.trim() }).eq("id", folderId)
+  if (error) throw error
+}
+
+// Subfolders go with the folder; its documents move to the top level
+export async function deleteFolder(folderId: string) {
+  const { error } = await supabase.from("folders").delete().eq("id", folderId)
+  if (error) throw error
+}
+
+export async function moveFolder(folderId: string, parentId: string | null) {
+  const { error } = await supabase.from("folders").update({ parent_id: parentId }).eq("id", folderId)
+  if (error) throw error
+}
+
+export async function moveDocument(documentId: string, folderId: string | null) {
+  const { data, error } = await supabase
+    .from("documents")
+    .update({ folder_id: folderId })
+    .eq("id", documentId)
+    .select("id")
+
+  if (error) throw error
+  if (!data?.length) throw new Error("Only the owner can move this document.")
+}
+
+// From the top-level folder down to `folderId` itself
+export function folderPath(folders: Folder[], folderId: string | null): Folder[] {
+  const path: Folder[] = []
+  let current = folders.find((folder) => folder.id === folderId)
+  while (current) {
+    path.unshift(current)
+    current = folders.find((folder) => folder.id === current!.parentId)
+  }
+  return path
+}
+
+// The folder and all folders nested in it; a folder cannot move into these
+export function folderSubtree(folders: Folder[], folderId: string): Set<string> {
+  const subtree = new Set([folderId])
+  let grew = true
+  while (grew) {
+    grew = false
+    for (const folder of folders) {
+      if (folder.parentId && subtree.has(folder.parentId) && !subtree.has(folder.id)) {
+        subtree.add(folder.id)
+        grew = true
+      }
+    }
+  }
+  return subtree
+}
+
+export async function fetchFolderMembers(folderId: string): Promise<FolderMember[]> {
+  const { data, error } = await supabase
+    .from("folder_permissions")
+    .select("role, user:users_data(id, name, email, avatar)")
+    .eq("folder_id", folderId)
+    .order("created_at", { ascending: true })
+
+  if (error) throw error
+
+  return (data as unknown as FolderPermissionRow[])
+    .filter((row) => row.user)
+    .map((row) => ({
+      id: row.user!.id,
+      name: row.user!.name,
+      email: row.user!.email,
+      avatar: row.user!.avatar || undefined,
+      role: row.role,
+    }))
+}
+
+// Documents in the folder and its subfolders pick the new member up on the server
+export async function addFolderMember(folderId: string, email: string, role: FolderRole) {
+  const { data: users, error: lookupError } = await supabase
+    .from("users_data")
+    .select("id")
+    // Stored addresses keep the case they signed up with; escape the wildcards so
+    // ilike only folds case
+    .ilike("email", email.trim().replace(/[\\%_]/g, "\\$&"))
+    .limit(1)
+
+  if (lookupError) throw lookupError
+  if (!users?.length) {
+    throw new Error(`No DocuWrite account found for ${email}.`)
+  }
+
+  const { error } = await supabase
+    .from("folder_permissions")
+    .upsert({ folder_id: folderId, user_id: users[0].id, role })
+
+  if (error) throw error
+}
+
+export async function removeFolderMember(folderId: string, userId: string) {
+  const { data, error } = await supabase
+    .from("folder_permissions")
+    .delete()
+    .eq("folder_id", folderId)
+    .eq("user_id", userId)
+    .select()
+
+  if (error) throw error
+  if (!data?.length) throw new Error("Only the owner can remove people from a folder.")
+}
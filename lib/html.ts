@@ -0,0 +1,22 @@
+import type { JSONContent } from "@tiptap/core"
+
+// Helpers shared by code that writes document HTML outside the editor:
+// exports, imports, templates and emails.
+
+export function escapeHtml(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+}
+
+// Marks that only make sense inside the document they were created in
+export const REVIEW_MARKS = new Set(["insertion", "deletion", "comment"])
+
+// Strips suggestion and comment marks. With `dropInsertions`, text that is
+// still only a suggested insertion is removed as well, leaving the document as
+// it stands before its suggestions are accepted.
+export function withoutReviewMarks(node: JSONContent, { dropInsertions = false } = {}): JSONContent {
+  const content = node.content
+    ?.filter((child) => !dropInsertions || !child.marks?.some((mark) => mark.type === "insertion"))
+    .map((child) => withoutReviewMarks(child, { dropInsertions }))
+  const marks = node.marks?.filter((mark) => !REVIEW_MARKS.has(mark.type))
+  return { ...node, content, marks: marks?.length ? marks : undefined }
+}
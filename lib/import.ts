@@ -0,0 +1,108 @@
+import { generateHTML, generateJSON, type JSONContent } from "@tiptap/core"
+import { createEditorExtensions } from "@/lib/editor-extensions"
+import { escapeHtml, withoutReviewMarks } from "@/lib/html"
+
+// Turns uploaded files into document content. Every format is first converted
+// to HTML and then parsed through the editor schema, which is what sanitizes
+// it: elements, attributes and styles the editor has no extension for are
+// dropped, and scripts never run because the markup is only ever parsed.
+
+export const IMPORT_EXTENSIONS = [".md", ".markdown", ".html", ".htm", ".txt", ".docx"]
+
+export const IMPORT_ACCEPT = IMPORT_EXTENSIONS.join(",")
+
+export interface ImportedDocument {
+  title: string
+  content: string
+}
+
+function extensionOf(fileName: string) {
+  const dot = fileName.lastIndexOf(".")
+  return dot === -1 ? "" : fileName.slice(dot).toLowerCase()
+}
+
+export function isImportable(file: File) {
+  return IMPORT_EXTENSIONS.includes(extensionOf(file.name))
+}
+
+// Blank lines separate paragraphs; single line breaks are kept
+function textToHtml(text: string) {
+  return text
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .filter((block) => block.trim())
+    .map((block) => `<p>${escapeHtml(block).replace(/\n/g, "<br>")}</p>`)
+    .join("")
+}
+
+async function markdownToHtml(markdown: string) {
+  const { default: MarkdownIt } = await import("markdown-it")
+  // Raw HTML is allowed so underline and aligned blocks survive a round trip
+  // through our own Markdown export; the schema parse strips anything else.
+  return new MarkdownIt({ html: true, linkify: true }).render(markdown)
+}
+
+async function docxToHtml(file: File) {
+  const { default: mammoth } = await import("mammoth")
+  const result = await mammoth.convertToHtml(
+    { arrayBuffer: await file.arrayBuffer() },
+    { styleMap: ["u => u"] },
+  )
+  return result.value
+}
+
+// Legacy `align` attributes (Markdown exports, older HTML) become the inline
+// style TextAlign reads
+function normalizeAlignment(html: string) {
+  const body = new DOMParser().parseFromString(html, "text/html").body
+  body.querySelectorAll("[align]").forEach((el) => {
+    const element = el as HTMLElement
+    element.style.textAlign = element.getAttribute("align") || ""
+    element.removeAttribute("align")
+  })
+  return body.innerHTML
+}
+
+function textOf(node: JSONContent): string {
+  return node.text || (node.content || []).map(textOf).join("")
+}
+
+function firstHeading(doc: JSONContent) {
+  const heading = (doc.content || []).find((node) => node.type === "heading")
+  return heading ? textOf(heading).trim() : ""
+}
+
+function titleFromFileName(fileName: string) {
+  const dot = fileName.lastIndexOf(".")
+  return (dot > 0 ? fileName.slice(0, dot) : fileName).replace(/[_-]+/g, " ").trim()
+}
+
+export async function importFile(file: File): Promise<ImportedDocument> {
+  let html: string
+  switch (extensionOf(file.name)) {
+    case ".md":
+    case ".markdown":
+      html = await markdownToHtml(await file.text())
+      break
+    case ".html":
+    case ".htm":
+      html = await file.text()
+      break
+    case ".txt":
+      html = textToHtml(await file.text())
+      break
+    case ".docx":
+      html = await docxToHtml(file)
+      break
+    default:
+      throw new Error(`${file.name} is not a supported file type.`)
+  }
+
+  const extensions = createEditorExtensions()
+  const doc = withoutReviewMarks(generateJSON(normalizeAlignment(html), extensions))
+
+  return {
+    title: firstHeading(doc) || titleFromFileName(file.name) || "Untitled Document",
+    content: generateHTML(doc, extensions),
+  }
+}
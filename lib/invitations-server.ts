@@ -0,0 +1,105 @@
+import { createHmac, timingSafeEqual } from "crypto"
+import type { SupabaseClient, User } from "@supabase/supabase-js"
+import { escapeHtml } from "@/lib/html"
+import { sendMail } from "@/lib/mail"
+import { createServiceClient } from "@/lib/supabase-server"
+import type { InvitationRole } from "@/lib/invitations"
+
+// Server side of email invitations. The link in the email carries the
+// invitation id signed with INVITATION_SECRET, so ids cannot be guessed or
+// altered; whether the invitation is still open is checked against the table.
+
+const DEVELOPMENT_SECRET = "docuwrite-development-invitation-secret"
+
+function signingSecret() {
+  const secret = process.env.INVITATION_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") throw new Error("INVITATION_SECRET is not configured.")
+  return DEVELOPMENT_SECRET
+}
+
+function sign(invitationId: string) {
+  return createHmac("sha256", signingSecret()).update(invitationId).digest("base64url")
+}
+
+export function createInvitationToken(invitationId: string) {
+  return `${invitationId}.${sign(invitationId)}`
+}
+
+// The invitation id, or null when the token was not signed by this server
+export function verifyInvitationToken(token: string) {
+  const [invitationId, signature] = token.split(".")
+  if (!invitationId || !signature) return null
+
+  const expected = Buffer.from(sign(invitationId))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? invitationId : null
+}
+
+const ROLE_ACTIONS: Record<InvitationRole, string> = {
+  editor: "edit",
+  commenter: "comment on",
+  viewer: "view",
+}
+
+// APP_URL when set, so links in emails do not depend on the host header
+function appOrigin(request: Request) {
+  return process.env.APP_URL?.replace(/\/$/, "") || new URL(request.url).origin
+}
+
+// Gives the in-app notification written for an invitation to an existing
+// account the same signed link as the email. Only the service role may write
+// to notifications.
+export async function signInvitationNotification(invitationId: string) {
+  const service = createServiceClient()
+  if (!service) throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured.")
+
+  const { error } = await service
+    .from("notifications")
+    .update({ link_token: createInvitationToken(invitationId) })
+    .eq("invitation_id", invitationId)
+  if (error) throw error
+}
+
+// Emails the invitation link; `client` acts as the inviter, who can read the
+// document title and their own profile
+export async function sendInvitationEmail(
+  client: SupabaseClient,
+  request: Request,
+  inviter: User,
+  invitation: { id: string; document_id: string; email: string; role: InvitationRole; expires_at: string },
+) {
+  const [{ data: document }, { data: profile }] = await Promise.all([
+    client.from("documents").select("title").eq("id", invitation.document_id).single(),
+    client.from("users_data").select("name").eq("id", inviter.id).single(),
+  ])
+
+  const inviterName = profile?.name || inviter.email || "Someone"
+  const url = `${appOrigin(request)}/invite/${createInvitationToken(invitation.id)}`
+  const title = document?.title || "Untitled Document"
+  const action = ROLE_ACTIONS[invitation.role]
+  const expires = new Date(invitation.expires_at).toLocaleDateString("en-US", {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  })
+
+  await sendMail({
+    to: invitation.email,
+    subject: `${inviterName} invited you to ${action} “${title}”`,
+    text: [
+      `${inviterName} invited you to ${action} “${title}” on DocuWrite.`,
+      "",
+      `Open the document: ${url}`,
+      "",
+      `Sign in or create an account with ${invitation.email} to accept. The invitation expires on ${expires}.`,
+    ].join("\n"),
+    html: [
+      `<p>${escapeHtml(inviterName)} invited you to ${action} <strong>${escapeHtml(title)}</strong>`,
+      " on DocuWrite.</p>",
+      `<p><a href="${escapeHtml(url)}">Open the document</a></p>`,
+      `<p style="color:#6b7280;font-size:13px">Sign in or create an account with ${escapeHtml(invitation.email)}`,
+      ` to accept. The invitation expires on ${expires}.</p>`,
+    ].join(""),
+  })
+}
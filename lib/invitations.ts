@@ -0,0 +1,91 @@
+import { supabase } from "@/lib/supabase"
+import type { DocumentRole } from "@/lib/permissions"
+
+export type InvitationRole = Exclude<DocumentRole, "owner">
+
+// An invitation that has not been accepted yet; only the owner sees them
+export interface DocumentInvitation {
+  id: string
+  email: string
+  role: InvitationRole
+  sentAt: Date
+  expiresAt: Date
+}
+
+interface InvitationRow {
+  id: string
+  email: string
+  role: InvitationRole
+  sent_at: string
+  expires_at: string
+}
+
+export const INVITATION_COLUMNS = "id, email, role, sent_at, expires_at"
+
+export function toInvitation(row: InvitationRow): DocumentInvitation {
+  return {
+    id: row.id,
+    email: row.email,
+    role: row.role,
+    sentAt: new Date(row.sent_at),
+    expiresAt: new Date(row.expires_at),
+  }
+}
+
+export function isInvitationExpired(invitation: DocumentInvitation) {
+  return invitation.expiresAt.getTime() <= Date.now()
+}
+
+// Sending and accepting go through the invitation routes, which send the
+// email and add the member on the server
+async function callInvitationRoute<T>(path: string, body?: unknown): Promise<T> {
+  const { data } = await supabase.auth.getSession()
+  const response = await fetch(`/api/invitations${path}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...(data.session && { Authorization: `Bearer ${data.session.access_token}` }),
+    },
+    body: JSON.stringify(body ?? {}),
+  })
+
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(result.error || "Something went wrong. Please try again.")
+  return result as T
+}
+
+export async function fetchInvitations(documentId: string): Promise<DocumentInvitation[]> {
+  const { data, error } = await supabase
+    .from("document_invitations")
+    .select(INVITATION_COLUMNS)
+    .eq("document_id", documentId)
+    .is("accepted_at", null)
+    .order("created_at", { ascending: true })
+
+  if (error) throw error
+  return (data as InvitationRow[]).map(toInvitation)
+}
+
+export async function sendInvitation(documentId: string, email: string, role: InvitationRole) {
+  const { invitation } = await callInvitationRoute<{ invitation: InvitationRow }>("", { documentId, email, role })
+  return toInvitation(invitation)
+}
+
+// Sends the email again and restarts the expiry period
+export async function resendInvitation(invitationId: string) {
+  const { invitation } = await callInvitationRoute<{ invitation: InvitationRow }>(`/${invitationId}/resend`)
+  return toInvitation(invitation)
+}
+
+export async function revokeInvitation(invitationId: string) {
+  const { data, error } = await supabase.from("document_invitations").delete().eq("id", invitationId).select("id")
+
+  if (error) throw error
+  if (!data?.length) throw new Error("Only the owner of the document can revoke invitations.")
+}
+
+// Adds the signed-in user to the invited document and returns its id
+export async function acceptInvitation(token: string) {
+  const { documentId } = await callInvitationRoute<{ documentId: string }>("/accept", { token })
+  return documentId
+}
@@ -0,0 +1,109 @@
+import { supabase } from "@/lib/supabase"
+import type { DocumentRole } from "@/lib/permissions"
+
+// "restricted" means there is no link and only members can open the document
+export type LinkRole = Exclude<DocumentRole, "owner">
+export type LinkAccess = "restricted" | LinkRole
+
+export interface DocumentLink {
+  token: string
+  role: LinkRole
+  expiresAt: Date | null
+  hasPassword: boolean
+}
+
+interface DocumentLinkRow {
+  token: string
+  role: LinkRole
+  expires_at: string | null
+  has_password: boolean
+}
+
+// Postgres error raised when a link needs a password that was missing or wrong
+const INVALID_PASSWORD = "28P01"
+
+const LINK_COLUMNS = "token, role, expires_at, has_password"
+
+function toLink(row: DocumentLinkRow): DocumentLink {
+  return {
+    token: row.token,
+    role: row.role,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+    hasPassword: row.has_password,
+  }
+}
+
+export function linkUrl(token: string) {
+  return `${window.location.origin}/share/${token}`
+}
+
+export function isLinkExpired(link: DocumentLink, now = new Date()) {
+  return link.expiresAt !== null && link.expiresAt <= now
+}
+
+export async function fetchDocumentLink(documentId: string): Promise<DocumentLink | null> {
+  const { data, error } = await supabase
+    .from("document_links")
+    .select(LINK_COLUMNS)
+    .eq("document_id", documentId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ? toLink(data as DocumentLinkRow) : null
+}
+
+// Creates the link on first use; switching to restricted removes it
+export async function setLinkAccess(
+  documentId: string,
+  access: LinkAccess,
+  current: DocumentLink | null,
+): Promise<DocumentLink | null> {
+  if (access === "restricted") {
+    const { error } = await supabase.from("document_links").delete().eq("document_id", documentId)
+    if (error) throw error
+    return null
+  }
+
+  const query = current
+    ? supabase.from("document_links").update({ role: access }).eq("document_id", documentId)
+    : supabase.from("document_links").insert({ document_id: documentId, role: access })
+  const { data, error } = await query.select(LINK_COLUMNS).single()
+
+  if (error) throw error
+  return toLink(data as DocumentLinkRow)
+}
+
+export async function setLinkExpiry(documentId: string, expiresAt: Date | null): Promise<DocumentLink> {
+  const { data, error } = await supabase
+    .from("document_links")
+    .update({ expires_at: expiresAt?.toISOString() ?? null })
+    .eq("document_id", documentId)
+    .select(LINK_COLUMNS)
+    .single()
+
+  if (error) throw error
+  return toLink(data as DocumentLinkRow)
+}
+
+// Pass null to remove the password
+export async function setLinkPassword(documentId: string, password: string | null) {
+  const { error } = await supabase.rpc("set_document_link_password", { doc: documentId, password: password ?? "" })
+  if (error) throw error
+}
+
+// Everyone who joined through the old link loses access
+export async function regenerateLink(documentId: string): Promise<string> {
+  const { data, error } = await supabase.rpc("regenerate_document_link", { doc: documentId })
+  if (error) throw error
+  return data as string
+}
+
+export type JoinLinkResult = { documentId: string } | { passwordRequired: true }
+
+export async function joinDocumentLink(token: string, password?: string): Promise<JoinLinkResult> {
+  const { data, error } = await supabase.rpc("join_document_link", { link_token: token, password: password ?? null })
+
+  if (error?.code === INVALID_PASSWORD) return { passwordRequired: true }
+  if (error) throw error
+  return { documentId: data as string }
+}
@@ -0,0 +1,198 @@
+import { supabase } from "@/lib/supabase"
+
+// Notifications are written by database triggers; the app only reads them,
+// marks them read and changes which kinds are sent.
+
+export type NotificationType = "share" | "invitation" | "mention" | "reply"
+
+// Kinds of notification a user can turn off; invitations count as shares
+export type NotificationSetting = Exclude<NotificationType, "invitation">
+
+export const NOTIFICATION_SETTINGS: Record<NotificationSetting, { label: string; description: string }> = {
+  share: { label: "Shared with me", description: "Someone shares a document or folder or invites you by email" },
+  mention: { label: "Mentions", description: "Someone @-mentions you in a comment" },
+  reply: { label: "Replies", description: "Someone replies to a discussion you're part of" },
+}
+
+export type NotificationPreferences = Record<NotificationSetting, boolean>
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  share: true,
+  mention: true,
+  reply: true,
+}
+
+export interface NotificationActor {
+  id: string
+  name: string
+  avatar?: string
+}
+
+export interface AppNotification {
+  id: number
+  type: NotificationType
+  // Folder shares have a folder instead of a document
+  documentId: string | null
+  folderId: string | null
+  invitationId: string | null
+  // Signed token for the invitation's accept page
+  invitationToken: string | null
+  // Document title or folder name
+  title: string
+  threadId: string | null
+  // The comment that mentioned or replied, if any
+  excerpt: string | null
+  actor: NotificationActor | null
+  createdAt: Date
+  readAt: Date | null
+}
+
+interface NotificationRow {
+  id: number
+  type: NotificationType
+  document_id: string | null
+  folder_id: string | null
+  invitation_id: string | null
+  link_token: string | null
+  thread_id: string | null
+  subject: string | null
+  created_at: string
+  read_at: string | null
+  actor: { id: string; name: string; avatar: string | null } | null
+  document: { title: string } | null
+  folder: { name: string } | null
+  comment: { body: string } | null
+}
+
+// How many notifications the menu keeps; older ones are still stored
+const NOTIFICATION_LIMIT = 50
+
+function toNotification(row: NotificationRow): AppNotification {
+  return {
+    id: row.id,
+    type: row.type,
+    documentId: row.document_id,
+    folderId: row.folder_id,
+    invitationId: row.invitation_id,
+    invitationToken: row.link_token,
+    // The stored subject covers rows the user cannot read, e.g. before accepting an invitation
+    title:
+      row.document?.title || row.folder?.name || row.subject || (row.folder_id ? "Untitled folder" : "Untitled Document"),
+    threadId: row.thread_id,
+    excerpt: row.comment?.body ?? null,
+    actor: row.actor ? { id: row.actor.id, name: row.actor.name, avatar: row.actor.avatar || undefined } : null,
+    createdAt: new Date(row.created_at),
+    readAt: row.read_at ? new Date(row.read_at) : null,
+  }
+}
+
+// Where clicking the notification goes: the accept page for invitations, the
+// folder's documents under "Shared with me", or the document opened on the
+// thread. Null for an invitation that has no signed link; its email still has one.
+export function notificationHref(notification: AppNotification) {
+  if (notification.invitationId) return notification.invitationToken ? `/invite/${notification.invitationToken}` : null
+  if (!notification.documentId) return `/?view=shared&folder=${notification.folderId}`
+  const path = `/doc/${notification.documentId}`
+  return notification.threadId ? `${path}?thread=${notification.threadId}` : path
+}
+
+export function describeNotification(notification: AppNotification) {
+  const actor = notification.actor?.name || "Someone"
+  const title = `“${notification.title}”`
+  switch (notification.type) {
+    case "share":
+      return notification.documentId
+        ? `${actor} shared ${title} with you`
+        : `${actor} shared the folder ${title} with you`
+    case "invitation":
+      return `${actor} invited you to ${title}`
+    case "mention":
+      return `${actor} mentioned you in ${title}`
+    case "reply":
+      return `${actor} replied to a discussion in ${title}`
+  }
+}
+
+// Newest first
+export async function fetchNotifications(): Promise<AppNotification[]> {
+  const { data, error } = await supabase
+    .from("notifications")
+    .select(
+      `id, type, document_id, folder_id, invitation_id, link_token, thread_id, subject, created_at, read_at,
+       actor:users_data!notifications_actor_id_fkey(id, name, avatar),
+       document:documents(title),
+       folder:folders(name),
+       comment:comments(body)`,
+    )
+    .order("created_at", { ascending: false })
+    .limit(NOTIFICATION_LIMIT)
+
+  if (error) throw error
+  return (data as unknown as NotificationRow[]).map(toNotification)
+}
+
+// Counted separately because unread notifications can fall outside the latest page
+export async function fetchUnreadNotificationCount(userId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from("notifications")
+    .select("id", { count: "exact", head: true })
+    .eq("user_id", userId)
+    .is("read_at", null)
+
+  if (error) throw error
+  return count ?? 0
+}
+
+export async function markNotificationsRead(notificationIds: number[]) {
+  if (notificationIds.length === 0) return
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .in("id", notificationIds)
+    .is("read_at", null)
+
+  if (error) throw error
+}
+
+export async function markAllNotificationsRead(userId: string) {
+  const { error } = await supabase
+    .from("notifications")
+    .update({ read_at: new Date().toISOString() })
+    .eq("user_id", userId)
+    .is("read_at", null)
+
+  if (error) throw error
+}
+
+// Calls `onChange` whenever one of the user's notifications is added or
+// changes, e.g. marked read in another tab. Returns a function that stops listening.
+export function subscribeToNotifications(userId: string, onChange: () => void) {
+  const filter = `user_id=eq.${userId}`
+  const channel = supabase
+    .channel(`notifications:${userId}`)
+    .on("postgres_changes", { event: "*", schema: "public", table: "notifications", filter }, onChange)
+    .subscribe()
+
+  return () => {
+    supabase.removeChannel(channel)
+  }
+}
+
+export async function fetchNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+  const { data, error } = await supabase
+    .from("notification_preferences")
+    .select("share, mention, reply")
+    .eq("user_id", userId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data ?? DEFAULT_NOTIFICATION_PREFERENCES
+}
+
+export async function saveNotificationPreferences(userId: string, preferences: NotificationPreferences) {
+  const { error } = await supabase
+    .from("notification_preferences")
+    .upsert({ user_id: userId, ...preferences, updated_at: new Date().toISOString() })
+
+  if (error) throw error
+}
@@ -0,0 +1,271 @@
+import { supabase } from "@/lib/supabase"
+
+// Local copies kept in IndexedDB so documents open and edits survive without
+// a network. Row changes (title, page setup, content snapshot) wait in a queue
+// until they reach the server; content edits are kept as Yjs updates by
+// `persistDocumentUpdates`. Browsers without IndexedDB fall back to memory.
+
+const DB_NAME = "docuwrite-offline"
+const DB_VERSION = 1
+
+type StoreName = "documents" | "changes" | "snapshots" | "pendingUpdates" | "profile"
+
+const STORES: StoreName[] = ["documents", "changes", "snapshots", "pendingUpdates", "profile"]
+
+const memoryStores = new Map<StoreName, Map<string, unknown>>(STORES.map((name) => [name, new Map()]))
+
+let databasePromise: Promise<IDBDatabase | null> | null = null
+
+function openDatabase() {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") return resolve(null)
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        STORES.forEach((name) => {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name)
+        })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.error("Error opening offline storage:", request.error)
+        resolve(null)
+      }
+    })
+  }
+  return databasePromise
+}
+
+async function withStore<T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+  fallback: (store: Map<string, unknown>) => T,
+): Promise<T> {
+  const database = await openDatabase()
+  if (!database) return fallback(memoryStores.get(name)!)
+
+  return new Promise((resolve, reject) => {
+    const request = run(database.transaction(name, mode).objectStore(name))
+    request.onsuccess = () => resolve(request.result as T)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function getItem<T>(name: StoreName, key: string) {
+  return withStore<T | undefined>(
+    name,
+    "readonly",
+    (store) => store.get(key),
+    (store) => store.get(key) as T | undefined,
+  )
+}
+
+async function setItem(name: StoreName, key: string, value: unknown) {
+  await withStore(
+    name,
+    "readwrite",
+    (store) => store.put(value, key),
+    (store) => store.set(key, value),
+  )
+}
+
+async function removeItem(name: StoreName, key: string) {
+  await withStore(
+    name,
+    "readwrite",
+    (store) => store.delete(key),
+    (store) => store.delete(key),
+  )
+}
+
+function itemKeys(name: StoreName) {
+  return withStore<string[]>(
+    name,
+    "readonly",
+    (store) => store.getAllKeys(),
+    (store) => Array.from(store.keys()),
+  )
+}
+
+// Supabase reports failed requests as errors rather than throwing
+export function isNetworkError(error: { message?: string } | null | undefined) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(error?.message || "")
+}
+
+export async function cacheDocument<T extends { id: string }>(document: T) {
+  await setItem("documents", document.id, document)
+}
+
+export function loadCachedDocument<T>(documentId: string) {
+  return getItem<T>("documents", documentId)
+}
+
+export interface CachedProfile {
+  id: string
+  email: string
+  name: string
+  avatar?: string
+}
+
+export async function cacheProfile(profile: CachedProfile) {
+  await setItem("profile", profile.id, profile)
+}
+
+export function loadCachedProfile(userId: string) {
+  return getItem<CachedProfile>("profile", userId)
+}
+
+// The last known state of a document's collaboration log
+export async function saveDocumentSnapshot(documentId: string, snapshot: Uint8Array) {
+  await setItem("snapshots", documentId, snapshot)
+}
+
+export function loadDocumentSnapshot(documentId: string) {
+  return getItem<Uint8Array>("snapshots", documentId)
+}
+
+// Local Yjs updates the server has not confirmed yet; null once it has them all
+export async function savePendingUpdate(documentId: string, update: Uint8Array | null) {
+  if (update) await setItem("pendingUpdates", documentId, update)
+  else await removeItem("pendingUpdates", documentId)
+}
+
+export function loadPendingUpdate(documentId: string) {
+  return getItem<Uint8Array>("pendingUpdates", documentId)
+}
+
+type DocumentChanges = Record<string, unknown>
+
+// Raised by the documents version check when a save is based on an old version
+const VERSION_CONFLICT = "PT409"
+
+interface QueuedChanges {
+  changes: DocumentChanges
+  // The version the changes were based on. The server rejects content
+  // changes without one as a conflict.
+  version?: number
+}
+
+export interface DocumentConflict<T = Record<string, any>> {
+  // Everything still waiting to be saved, and the document as it is on the server now
+  mine: Partial<T>
+  theirs: T
+}
+
+export type SaveResult =
+  | { status: "saved"; version?: number }
+  | { status: "queued" }
+  | { status: "conflict"; conflict: DocumentConflict }
+
+// Versions this tab's own saves produced, so a save that was started before
+// an earlier one finished is not mistaken for a stale write
+const savedVersions = new Map<string, number>()
+
+// Saves for one document run one after another, so a replayed change cannot
+// land after (and overwrite) a newer one
+const documentLocks = new Map<string, Promise<unknown>>()
+
+function withDocumentLock<T>(documentId: string, run: () => Promise<T>): Promise<T> {
+  const previous = documentLocks.get(documentId) ?? Promise.resolve()
+  const next = previous.catch(() => undefined).then(run)
+  documentLocks.set(documentId, next)
+  next.finally(() => {
+    if (documentLocks.get(documentId) === next) documentLocks.delete(documentId)
+  })
+  return next
+}
+
+// Sends the queued changes for a document. They stay queued while offline and
+// on a version conflict, until the user resolves it; other server errors drop
+// them and are thrown.
+async function flushDocumentChanges(documentId: string): Promise<SaveResult> {
+  const queued = await getItem<QueuedChanges>("changes", documentId)
+  if (!queued) return { status: "saved" }
+  if (typeof navigator !== "undefined" && !navigator.onLine) return { status: "queued" }
+
+  // The server expects the version the changes produce
+  const changes = queued.version === undefined ? queued.changes : { ...queued.changes, version: queued.version + 1 }
+  const { data, error } = await supabase.from("documents").update(changes).eq("id", documentId).select("id, version")
+
+  if (error && isNetworkError(error)) return { status: "queued" }
+  if (error?.code === VERSION_CONFLICT) {
+    const { data: theirs, error: fetchError } = await supabase
+      .from("documents")
+      .select("*")
+      .eq("id", documentId)
+      .single()
+
+    if (fetchError && isNetworkError(fetchError)) return { status: "queued" }
+    if (fetchError) throw fetchError
+    return { status: "conflict", conflict: { mine: queued.changes, theirs } }
+  }
+
+  await removeItem("changes", documentId)
+  if (error) throw error
+  // Row level security filters out documents the user may not edit
+  if (!data?.length) throw new Error("You don't have permission to edit this document.")
+  savedVersions.set(documentId, data[0].version)
+  return { status: "saved", version: data[0].version }
+}
+
+// Queues the changes, merged with any still waiting, then tries to send them.
+// `version` is the document version they are based on.
+export function saveDocumentChanges(documentId: string, changes: DocumentChanges, version?: number) {
+  return withDocumentLock(documentId, async () => {
+    const queued = await getItem<QueuedChanges>("changes", documentId)
+    await setItem("changes", documentId, {
+      changes: { ...queued?.changes, ...changes },
+      version: queued ? queued.version : Math.max(version ?? 0, savedVersions.get(documentId) ?? 0) || undefined,
+    })
+    return flushDocumentChanges(documentId)
+  })
+}
+
+// Sends whatever is queued for the document, e.g. edits made offline in an earlier visit
+export function syncDocumentChanges(documentId: string) {
+  return withDocumentLock(documentId, () => flushDocumentChanges(documentId))
+}
+
+// Resolves a conflict: replaces the queued changes with `changes`, now based
+// on `version`, or drops them when `changes` is null
+export function resolveDocumentConflict(documentId: string, changes: DocumentChanges | null, version?: number) {
+  return withDocumentLock(documentId, async () => {
+    if (!changes) {
+      await removeItem("changes", documentId)
+      return { status: "saved" } as SaveResult
+    }
+    await setItem("changes", documentId, { changes, version })
+    return flushDocumentChanges(documentId)
+  })
+}
+
+// Replays every queued change; returns how many documents were brought up to
+// date. Conflicting changes stay queued until their document is opened.
+export async function syncQueuedChanges() {
+  let synced = 0
+  for (const documentId of await itemKeys("changes")) {
+    try {
+      const result = await syncDocumentChanges(documentId)
+      if (result.status === "saved") synced++
+    } catch (error) {
+      console.error("Error syncing offline changes:", error)
+    }
+  }
+  return synced
+}
+
+export async function clearOfflineData() {
+  await Promise.all(
+    STORES.map((name) =>
+      withStore(
+        name,
+        "readwrite",
+        (store) => store.clear(),
+        (store) => store.clear(),
+      ),
+    ),
+  )
+}
@@ -0,0 +1,48 @@
+import type { Editor } from "@tiptap/react"
+import type { Node as ProseMirrorNode } from "@tiptap/pm/model"
+
+// Headings of a document as a tree, for the outline sidebar and the table of
+// contents block.
+
+export interface HeadingEntry {
+  level: number
+  text: string
+  pos: number
+}
+
+export type OutlineNode<T extends { level: number }> = T & { children: OutlineNode<T>[] }
+
+export function getHeadings(doc: ProseMirrorNode): HeadingEntry[] {
+  const headings: HeadingEntry[] = []
+  doc.descendants((node, pos) => {
+    if (node.type.name === "heading") {
+      const text = node.textContent.trim()
+      if (text) headings.push({ level: node.attrs.level, text, pos })
+    }
+    return !node.isTextblock
+  })
+  return headings
+}
+
+// Nests each heading under the closest earlier heading of a higher level
+export function buildOutline<T extends { level: number }>(headings: T[]): OutlineNode<T>[] {
+  const roots: OutlineNode<T>[] = []
+  const stack: OutlineNode<T>[] = []
+
+  for (const heading of headings) {
+    const node: OutlineNode<T> = { ...heading, children: [] }
+    while (stack.length && stack[stack.length - 1].level >= heading.level) stack.pop()
+    if (stack.length) stack[stack.length - 1].children.push(node)
+    else roots.push(node)
+    stack.push(node)
+  }
+
+  return roots
+}
+
+// Places the caret in the heading and brings it to the top of the window
+export function scrollToHeading(editor: Editor, pos: number) {
+  editor.commands.setTextSelection(pos + 1)
+  const dom = editor.view.nodeDOM(pos)
+  if (dom instanceof HTMLElement) dom.scrollIntoView({ behavior: "smooth", block: "start" })
+}
@@ -0,0 +1,98 @@
+// Page setup stored with each document in `documents.page_settings`. Sizes and
+// margins are in inches; the editor draws pages at 96 pixels per inch and PDF
+// and Word exports convert to their own units.
+
+export type PageLayout = "pageless" | "paged"
+export type PageSize = "letter" | "a4" | "legal"
+export type PageOrientation = "portrait" | "landscape"
+
+export interface PageMargins {
+  top: number
+  right: number
+  bottom: number
+  left: number
+}
+
+export interface PageSettings {
+  layout: PageLayout
+  size: PageSize
+  orientation: PageOrientation
+  margins: PageMargins
+  // Templates shown on every page; PAGE_NUMBER_FIELD and PAGE_COUNT_FIELD are
+  // replaced with the page number and the number of pages
+  header: string
+  footer: string
+}
+
+export const PAGE_SIZES: Record<PageSize, { label: string; width: number; height: number }> = {
+  letter: { label: "Letter (8.5″ × 11″)", width: 8.5, height: 11 },
+  a4: { label: "A4 (8.27″ × 11.69″)", width: 8.27, height: 11.69 },
+  legal: { label: "Legal (8.5″ × 14″)", width: 8.5, height: 14 },
+}
+
+export const PAGE_NUMBER_FIELD = "{page}"
+export const PAGE_COUNT_FIELD = "{pages}"
+
+export const PIXELS_PER_INCH = 96
+
+export const DEFAULT_PAGE_SETTINGS: PageSettings = {
+  layout: "pageless",
+  size: "letter",
+  orientation: "portrait",
+  margins: { top: 1, right: 1, bottom: 1, left: 1 },
+  header: "",
+  footer: "",
+}
+
+const MAX_MARGIN = 3
+
+function clampMargin(value: unknown, fallback: number) {
+  const margin = Number(value)
+  return Number.isFinite(margin) ? Math.min(MAX_MARGIN, Math.max(0, margin)) : fallback
+}
+
+// Fills in defaults for documents saved before a setting existed
+export function normalizePageSettings(value: unknown): PageSettings {
+  const settings = (value && typeof value === "object" ? value : {}) as Partial<PageSettings>
+  const margins = (settings.margins || {}) as Partial<PageMargins>
+  const defaults = DEFAULT_PAGE_SETTINGS
+
+  return {
+    layout: settings.layout === "paged" ? "paged" : "pageless",
+    size: settings.size && settings.size in PAGE_SIZES ? settings.size : defaults.size,
+    orientation: settings.orientation === "landscape" ? "landscape" : "portrait",
+    margins: {
+      top: clampMargin(margins.top, defaults.margins.top),
+      right: clampMargin(margins.right, defaults.margins.right),
+      bottom: clampMargin(margins.bottom, defaults.margins.bottom),
+      left: clampMargin(margins.left, defaults.margins.left),
+    },
+    header: typeof settings.header === "string" ? settings.header : "",
+    footer: typeof settings.footer === "string" ? settings.footer : "",
+  }
+}
+
+// Page width and height in inches after applying the orientation
+export function pageDimensions(settings: PageSettings) {
+  const { width, height } = PAGE_SIZES[settings.size]
+  return settings.orientation === "landscape" ? { width: height, height: width } : { width, height }
+}
+
+export function formatPageField(template: string, page: number, pages: number) {
+  return template.split(PAGE_NUMBER_FIELD).join(String(page)).split(PAGE_COUNT_FIELD).join(String(pages))
+}
+
+// Splits a template around its fields so writers with native page number
+// fields (PDF, Word) can emit them in place
+export function pageFieldParts(template: string) {
+  return template
+    .split(/(\{page\}|\{pages\})/)
+    .filter(Boolean)
+    .map((part) =>
+      part === PAGE_NUMBER_FIELD
+        ? ({ field: "page" } as const)
+        : part === PAGE_COUNT_FIELD
+          ? ({ field: "pages" } as const)
+          : ({ text: part } as const),
+    )
+}
@@ -0,0 +1,91 @@
+import { supabase } from "@/lib/supabase"
+
+export type DocumentRole = "owner" | "editor" | "commenter" | "viewer"
+
+export interface DocumentMember {
+  id: string
+  name: string
+  email: string
+  avatar?: string
+  role: DocumentRole
+}
+
+interface PermissionRow {
+  role: DocumentRole
+  user: { id: string; name: string; email: string; avatar: string | null } | null
+}
+
+export function canEdit(role: DocumentRole | null | undefined) {
+  return role === "owner" || role === "editor"
+}
+
+// Commenters change the document only through tracked suggestions
+export function canSuggest(role: DocumentRole | null | undefined) {
+  return canEdit(role) || role === "commenter"
+}
+
+const ROLE_RANK: Record<DocumentRole, number> = { viewer: 0, commenter: 1, editor: 2, owner: 3 }
+
+// Membership and a share link can both grant access; the stronger one applies
+export function higherRole(a: DocumentRole | null | undefined, b: DocumentRole | null | undefined) {
+  if (!a) return b ?? null
+  if (!b) return a
+  return ROLE_RANK[a] >= ROLE_RANK[b] ? a : b
+}
+
+// The calling user's role, including access gained through a share link
+export async function fetchDocumentRole(documentId: string): Promise<DocumentRole | null> {
+  const { data, error } = await supabase.rpc("document_role", { doc: documentId })
+  if (error) throw error
+  return data as DocumentRole | null
+}
+
+// Members are only visible to other members; row level security returns an
+// empty list to anyone else.
+export async function fetchDocumentMembers(documentId: string): Promise<DocumentMember[]> {
+  const { data, error } = await supabase
+    .from("document_permissions")
+    .select("role, user:users_data(id, name, email, avatar)")
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: true })
+
+  if (error) throw error
+
+  return (data as unknown as PermissionRow[])
+    .filter((row) => row.user)
+    .map((row) => ({
+      id: row.user!.id,
+      name: row.user!.name,
+      email: row.user!.email,
+      avatar: row.user!.avatar || undefined,
+      role: row.role,
+    }))
+}
+
+export async function updateDocumentMemberRole(
+  documentId: string,
+  userId: string,
+  role: Exclude<DocumentRole, "owner">,
+) {
+  const { data, error } = await supabase
+    .from("document_permissions")
+    .update({ role })
+    .eq("document_id", documentId)
+    .eq("user_id", userId)
+    .select()
+
+  if (error) throw error
+  if (!data?.length) throw new Error("Only the owner can change roles.")
+}
+
+export async function removeDocumentMember(documentId: string, userId: string) {
+  const { data, error } = await supabase
+    .from("document_permissions")
+    .delete()
+    .eq("document_id", documentId)
+    .eq("user_id", userId)
+    .select()
+
+  if (error) throw error
+  if (!data?.length) throw new Error("Only the owner can remove collaborators.")
+}
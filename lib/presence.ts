@@ -0,0 +1,56 @@
+import { supabase } from "@/lib/supabase"
+
+// How often an open document records that its user is still around
+export const HEARTBEAT_INTERVAL = 30000
+
+const CURSOR_COLORS = [
+  "#2563eb",
+  "#db2777",
+  "#16a34a",
+  "#ea580c",
+  "#9333ea",
+  "#0891b2",
+  "#ca8a04",
+  "#dc2626",
+]
+
+// Awareness state each client publishes under the `user` field
+export interface PresenceUser {
+  id: string
+  name: string
+  avatar?: string
+  color: string
+}
+
+// Stable per-user color, so a collaborator keeps theirs across sessions and documents
+export function colorForUser(userId: string) {
+  let hash = 0
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length]
+}
+
+export async function recordHeartbeat(documentId: string, userId: string) {
+  const { error } = await supabase
+    .from("document_presence")
+    .upsert({ document_id: documentId, user_id: userId, last_seen_at: new Date() })
+
+  if (error) {
+    console.error("Error recording presence heartbeat:", error)
+  }
+}
+
+export async function fetchLastSeen(documentId: string) {
+  const { data, error } = await supabase
+    .from("document_presence")
+    .select("user_id, last_seen_at")
+    .eq("document_id", documentId)
+
+  if (error) {
+    console.error("Error fetching presence:", error)
+    return new Map<string, Date>()
+  }
+
+  return new Map<string, Date>(data.map((row) => [row.user_id, new Date(row.last_seen_at)]))
+}
@@ -0,0 +1,78 @@
+import { supabase } from "@/lib/supabase"
+
+// Revisions are listed without their content, which is loaded one at a time
+// with `fetchRevisionContent` when a version is previewed or restored
+export const REVISION_PAGE_SIZE = 50
+
+export interface Revision {
+  id: number
+  title: string
+  name: string | null
+  createdAt: Date
+  author: { id: string; name: string; avatar?: string } | null
+}
+
+interface RevisionRow {
+  id: number
+  title: string
+  name: string | null
+  created_at: string
+  author: { id: string; name: string; avatar: string | null } | null
+}
+
+function toRevision(row: RevisionRow): Revision {
+  return {
+    id: row.id,
+    title: row.title,
+    name: row.name,
+    createdAt: new Date(row.created_at),
+    author: row.author ? { id: row.author.id, name: row.author.name, avatar: row.author.avatar || undefined } : null,
+  }
+}
+
+// Newest first, one page of REVISION_PAGE_SIZE from `offset`
+export async function fetchRevisions(documentId: string, offset = 0): Promise<Revision[]> {
+  const { data, error } = await supabase
+    .from("document_revisions")
+    .select("id, title, name, created_at, author:users_data(id, name, avatar)")
+    .eq("document_id", documentId)
+    .order("created_at", { ascending: false })
+    .order("id", { ascending: false })
+    .range(offset, offset + REVISION_PAGE_SIZE - 1)
+
+  if (error) throw error
+  return (data as unknown as RevisionRow[]).map(toRevision)
+}
+
+export async function fetchRevisionContent(revisionId: number): Promise<string> {
+  const { data, error } = await supabase.from("document_revisions").select("content").eq("id", revisionId).single()
+
+  if (error) throw error
+  return data.content
+}
+
+export async function createRevision(
+  documentId: string,
+  authorId: string,
+  snapshot: { title: string; content: string; name?: string },
+) {
+  const { error } = await supabase.from("document_revisions").insert({
+    document_id: documentId,
+    author_id: authorId,
+    title: snapshot.title,
+    content: snapshot.content,
+    name: snapshot.name ?? null,
+  })
+
+  if (error) throw error
+}
+
+// Naming is the only change allowed on a recorded revision
+export async function renameRevision(revisionId: number, name: string) {
+  const { error } = await supabase
+    .from("document_revisions")
+    .update({ name: name.trim() || null })
+    .eq("id", revisionId)
+
+  if (error) throw error
+}
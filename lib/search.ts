@@ -0,0 +1,60 @@
+import { supabase } from "@/lib/supabase"
+
+// Server-side full-text search (see the search_documents function). Queries
+// use web search syntax: "quoted phrases", -excluded words and `or`.
+
+export const SEARCH_PAGE_SIZE = 30
+
+// Delimiters the database wraps around matched words in headlines
+const MATCH_START = "\uE000"
+const MATCH_END = "\uE001"
+
+export interface HighlightPart {
+  text: string
+  match: boolean
+}
+
+export interface SearchMatch {
+  id: string
+  rank: number
+  title: HighlightPart[]
+  // Matched passages from the content; empty when only the title matched
+  snippet: HighlightPart[]
+}
+
+interface SearchRow {
+  id: string
+  rank: number
+  title_headline: string
+  content_headline: string
+}
+
+export function parseHighlight(headline: string): HighlightPart[] {
+  const parts: HighlightPart[] = []
+  headline.split(MATCH_START).forEach((chunk, index) => {
+    const [matched, rest] = index === 0 ? ["", chunk] : chunk.split(MATCH_END)
+    if (matched) parts.push({ text: matched, match: true })
+    if (rest) parts.push({ text: rest, match: false })
+  })
+  return parts
+}
+
+// Best match first, `offset` matches in
+export async function searchDocuments(query: string, offset = 0): Promise<SearchMatch[]> {
+  const { data, error } = await supabase.rpc("search_documents", {
+    query,
+    max_results: SEARCH_PAGE_SIZE,
+    skip: offset,
+  })
+
+  if (error) throw error
+  return (data as SearchRow[]).map((row) => {
+    const snippet = parseHighlight(row.content_headline.trim())
+    return {
+      id: row.id,
+      rank: row.rank,
+      title: parseHighlight(row.title_headline),
+      snippet: snippet.some((part) => part.match) ? snippet : [],
+    }
+  })
+}
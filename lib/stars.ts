@@ -0,0 +1,19 @@
+import { supabase } from "@/lib/supabase"
+
+// Stars are per user, on any document they can read
+export async function fetchStarredIds(userId: string): Promise<Set<string>> {
+  const { data, error } = await supabase.from("document_stars").select("document_id").eq("user_id", userId)
+
+  if (error) throw error
+  return new Set(data.map((row) => row.document_id as string))
+}
+
+export async function starDocument(userId: string, documentId: string) {
+  const { error } = await supabase.from("document_stars").upsert({ user_id: userId, document_id: documentId })
+  if (error) throw error
+}
+
+export async function unstarDocument(userId: string, documentId: string) {
+  const { error } = await supabase.from("document_stars").delete().eq("user_id", userId).eq("document_id", documentId)
+  if (error) throw error
+}
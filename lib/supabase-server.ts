@@ -0,0 +1,27 @@
+import { createClient } from "@supabase/supabase-js"
+
+// Clients for route handlers. Requests from the app carry the user's access
+// token, so queries made with `createUserClient` run under row level security
+// as that user; the service client bypasses it and must only be used after
+// the route has checked what the caller is allowed to do.
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_KEY!
+
+export function createUserClient(request: Request) {
+  const token = request.headers.get("Authorization")?.replace(/^Bearer\s+/i, "")
+  if (!token) return null
+
+  const client = createClient(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  })
+  return { client, token }
+}
+
+// Null when SUPABASE_SERVICE_ROLE_KEY is not configured
+export function createServiceClient() {
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceKey) return null
+  return createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } })
+}
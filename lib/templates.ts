@@ -0,0 +1,208 @@
+import { generateHTML, generateJSON, type JSONContent } from "@tiptap/core"
+import { supabase } from "@/lib/supabase"
+import { isDocumentAttachment } from "@/lib/attachments"
+import { createEditorExtensions } from "@/lib/editor-extensions"
+import { escapeHtml, withoutReviewMarks } from "@/lib/html"
+
+// Placeholders in a template's title pattern and content, filled in when a
+// document is created from it
+export const TEMPLATE_FIELDS = {
+  date: "{date}",
+  time: "{time}",
+  author: "{author}",
+} as const
+
+export type TemplateField = keyof typeof TEMPLATE_FIELDS
+
+export const TEMPLATE_FIELD_LABELS: Record<TemplateField, string> = {
+  date: "Today's date",
+  time: "Current time",
+  author: "Your name",
+}
+
+export interface DocumentTemplate {
+  id: string
+  name: string
+  description: string
+  titlePattern: string
+  content: string
+  // Built-in templates ship with the app; the rest are saved by users and
+  // visible to the people they share documents or folders with
+  builtIn: boolean
+  createdBy: string | null
+}
+
+interface TemplateRow {
+  id: string
+  name: string
+  description: string
+  title_pattern: string
+  content: string
+  created_by: string | null
+}
+
+export const BLANK_TEMPLATE: DocumentTemplate = {
+  id: "blank",
+  name: "Blank document",
+  description: "Start from an empty page",
+  titlePattern: "Untitled Document",
+  content: "",
+  builtIn: true,
+  createdBy: null,
+}
+
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  BLANK_TEMPLATE,
+  {
+    id: "meeting-notes",
+    name: "Meeting notes",
+    description: "Attendees, agenda, notes and action items",
+    titlePattern: "Meeting notes – {date}",
+    content: [
+      "<h1>Meeting notes</h1>",
+      "<p><strong>Date:</strong> {date} at {time}</p>",
+      "<p><strong>Note taker:</strong> {author}</p>",
+      "<h2>Attendees</h2><ul><li><p></p></li></ul>",
+      "<h2>Agenda</h2><ol><li><p></p></li></ol>",
+      "<h2>Notes</h2><p></p>",
+      "<h2>Action items</h2><ul><li><p></p></li></ul>",
+    ].join(""),
+    builtIn: true,
+    createdBy: null,
+  },
+  {
+    id: "design-doc",
+    name: "Design document",
+    description: "Problem, proposal, alternatives and open questions",
+    titlePattern: "Design: Untitled proposal",
+    content: [
+      "<h1>Design: Untitled proposal</h1>",
+      "<p><strong>Author:</strong> {author} · <strong>Last updated:</strong> {date}</p>",
+      "<h2>Background</h2><p>What problem are we solving, and why now?</p>",
+      "<h2>Goals</h2><ul><li><p></p></li></ul>",
+      "<h2>Non-goals</h2><ul><li><p></p></li></ul>",
+      "<h2>Proposal</h2><p></p>",
+      "<h2>Alternatives considered</h2><p></p>",
+      "<h2>Open questions</h2><ul><li><p></p></li></ul>",
+    ].join(""),
+    builtIn: true,
+    createdBy: null,
+  },
+  {
+    id: "status-report",
+    name: "Status report",
+    description: "Highlights, progress, risks and next steps",
+    titlePattern: "Status report – {date}",
+    content: [
+      "<h1>Status report</h1>",
+      "<p><strong>Week of:</strong> {date} · <strong>Prepared by:</strong> {author}</p>",
+      "<h2>Highlights</h2><ul><li><p></p></li></ul>",
+      "<h2>Progress</h2><p></p>",
+      "<h2>Risks and blockers</h2><ul><li><p></p></li></ul>",
+      "<h2>Next steps</h2><ul><li><p></p></li></ul>",
+    ].join(""),
+    builtIn: true,
+    createdBy: null,
+  },
+]
+
+function toTemplate(row: TemplateRow): DocumentTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description,
+    titlePattern: row.title_pattern,
+    content: row.content,
+    builtIn: false,
+    createdBy: row.created_by,
+  }
+}
+
+function fieldValues(author: string, now: Date): Record<TemplateField, string> {
+  return {
+    date: now.toLocaleDateString(undefined, { year: "numeric", month: "long", day: "numeric" }),
+    time: now.toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" }),
+    author,
+  }
+}
+
+function fillFields(text: string, values: Record<TemplateField, string>) {
+  return (Object.keys(TEMPLATE_FIELDS) as TemplateField[]).reduce(
+    (result, field) => result.split(TEMPLATE_FIELDS[field]).join(values[field]),
+    text,
+  )
+}
+
+// Title and content for a new document, with placeholders filled in
+export function fillTemplate(template: DocumentTemplate, author: string, now = new Date()) {
+  const values = fieldValues(author, now)
+  const htmlValues = { ...values, author: escapeHtml(author) }
+
+  return {
+    title: fillFields(template.titlePattern, values).trim() || BLANK_TEMPLATE.titlePattern,
+    content: fillFields(template.content, htmlValues),
+  }
+}
+
+function usesAttachments(node: JSONContent, documentId: string): boolean {
+  const urls = [node.attrs?.src, ...(node.marks ?? []).map((mark) => mark.attrs?.href)]
+  return (
+    urls.some((url) => typeof url === "string" && isDocumentAttachment(url, documentId)) ||
+    (node.content ?? []).some((child) => usesAttachments(child, documentId))
+  )
+}
+
+// Template content from a document's HTML, without its comments and pending
+// suggestions. Uploaded files are stored under the source document and are
+// deleted with it, which would break every document made from the template,
+// so templates can't include them.
+function templateContent(documentId: string, html: string) {
+  const extensions = createEditorExtensions()
+  const doc = withoutReviewMarks(generateJSON(html, extensions), { dropInsertions: true })
+  if (usesAttachments(doc, documentId)) {
+    throw new Error("Remove uploaded images and files from the document before saving it as a template.")
+  }
+  return generateHTML(doc, extensions)
+}
+
+// Templates saved by the user and the people they share documents or folders
+// with, newest first
+export async function fetchTemplates(): Promise<DocumentTemplate[]> {
+  const { data, error } = await supabase
+    .from("document_templates")
+    .select("id, name, description, title_pattern, content, created_by")
+    .order("created_at", { ascending: false })
+
+  if (error) throw error
+  return (data as TemplateRow[]).map(toTemplate)
+}
+
+// Only owners and editors of `documentId` may save it as a template
+export async function saveTemplate(
+  userId: string,
+  documentId: string,
+  template: { name: string; description: string; titlePattern: string; content: string },
+): Promise<DocumentTemplate> {
+  const { data, error } = await supabase
+    .from("document_templates")
+    .insert({
+      created_by: userId,
+      document_id: documentId,
+      name: template.name.trim(),
+      description: template.description.trim(),
+      title_pattern: template.titlePattern.trim(),
+      content: templateContent(documentId, template.content),
+    })
+    .select("id, name, description, title_pattern, content, created_by")
+    .single()
+
+  if (error) throw error
+  return toTemplate(data as TemplateRow)
+}
+
+export async function deleteTemplate(templateId: string) {
+  const { data, error } = await supabase.from("document_templates").delete().eq("id", templateId).select("id")
+
+  if (error) throw error
+  if (!data?.length) throw new Error("Only the person who saved a template can delete it.")
+}
@@ -0,0 +1,61 @@
+import { rm } from "fs/promises"
+import path from "path"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { ATTACHMENT_BUCKET, isLocalAttachmentStorage } from "@/lib/attachments"
+import { TRASH_RETENTION_DAYS } from "@/lib/trash"
+
+// Server side of the trash: deletes documents whose time in the trash is up.
+// Runs with the service client, as their owners may never come back.
+
+const DAY = 24 * 60 * 60 * 1000
+const BATCH_SIZE = 100
+
+async function deleteAttachments(client: SupabaseClient, documentId: string) {
+  if (isLocalAttachmentStorage()) {
+    await rm(path.join(process.cwd(), ".attachments", documentId), { recursive: true, force: true })
+    return
+  }
+
+  const bucket = client.storage.from(ATTACHMENT_BUCKET)
+  for (;;) {
+    const { data: files, error } = await bucket.list(documentId, { limit: 100 })
+    if (error) throw error
+    if (!files?.length) return
+
+    const { error: removeError } = await bucket.remove(files.map((file) => `${documentId}/${file.name}`))
+    if (removeError) throw removeError
+  }
+}
+
+// Returns how many documents were deleted. A document whose attachments could
+// not be removed is kept for the next run.
+export async function purgeExpiredDocuments(client: SupabaseClient) {
+  const cutoff = new Date(Date.now() - TRASH_RETENTION_DAYS * DAY).toISOString()
+  let purged = 0
+
+  for (;;) {
+    const { data, error } = await client
+      .from("documents")
+      .select("id")
+      .lte("deleted_at", cutoff)
+      .order("deleted_at", { ascending: true })
+      .range(0, BATCH_SIZE - 1)
+    if (error) throw error
+
+    let failed = 0
+    for (const { id } of data) {
+      try {
+        await deleteAttachments(client, id)
+        const { error: deleteError } = await client.from("documents").delete().eq("id", id)
+        if (deleteError) throw deleteError
+        purged++
+      } catch (error) {
+        console.error(`Error purging document ${id}:`, error)
+        failed++
+      }
+    }
+
+    // Stop once a batch is short, or when nothing in it could be deleted
+    if (data.length < BATCH_SIZE || failed === data.length) return purged
+  }
+}
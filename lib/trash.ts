@@ -0,0 +1,44 @@
+import { supabase } from "@/lib/supabase"
+import { deleteDocumentAttachments } from "@/lib/attachments"
+
+// Documents stay in the trash this long before they are deleted for good
+export const TRASH_RETENTION_DAYS = 30
+
+const DAY = 24 * 60 * 60 * 1000
+
+export function trashExpiresAt(deletedAt: Date | string) {
+  return new Date(new Date(deletedAt).getTime() + TRASH_RETENTION_DAYS * DAY)
+}
+
+export function isTrashExpired(deletedAt: Date | string) {
+  return trashExpiresAt(deletedAt).getTime() <= Date.now()
+}
+
+async function setDeletedAt(documentId: string, deletedAt: string | null) {
+  const { data, error } = await supabase
+    .from("documents")
+    .update({ deleted_at: deletedAt })
+    .eq("id", documentId)
+    .select("id")
+
+  if (error) throw error
+  if (!data?.length) throw new Error("Only the owner can do this.")
+}
+
+export function trashDocument(documentId: string) {
+  return setDeletedAt(documentId, new Date().toISOString())
+}
+
+export function restoreDocument(documentId: string) {
+  return setDeletedAt(documentId, null)
+}
+
+// Permanent. Storage policies check ownership, so files go before the document does
+export async function purgeDocument(documentId: string) {
+  await deleteDocumentAttachments(documentId)
+
+  const { data, error } = await supabase.from("documents").delete().eq("id", documentId).select("id")
+
+  if (error) throw error
+  if (!data?.length) throw new Error("Only the owner can delete this document.")
+}
@@ -4,3 +4,16 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// Page to return to after signing in, from the `next` query parameter. Only
+// paths on this site are followed; anything else falls back to the dashboard.
+export function returnPath(search: string, origin: string) {
+  const next = new URLSearchParams(search).get("next")
+  if (!next) return "/"
+  try {
+    const url = new URL(next, origin)
+    return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : "/"
+  } catch {
+    return "/"
+  }
+}
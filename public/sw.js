@@ -0,0 +1,65 @@
+// App shell cache. Pages and Next.js assets come from the network when it is
+// available and from this cache when it is not, so documents opened before
+// still load offline. API, Supabase and sync server requests are never cached;
+// the app keeps document data in IndexedDB itself.
+const CACHE_NAME = "docuwrite-shell-v1"
+const SHELL_URLS = ["/", "/placeholder-logo.svg", "/placeholder-user.jpg"]
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE_NAME)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .then(() => self.skipWaiting()),
+  )
+})
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((names) => Promise.all(names.filter((name) => name !== CACHE_NAME).map((name) => caches.delete(name))))
+      .then(() => self.clients.claim()),
+  )
+})
+
+// Build assets are content-hashed, so a cached copy is always current
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(CACHE_NAME)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request)
+    if (response.ok) {
+      const cache = await caches.open(CACHE_NAME)
+      cache.put(request, response.clone())
+    }
+    return response
+  } catch (error) {
+    const cached = await caches.match(request)
+    if (cached) return cached
+    throw error
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  if (request.method !== "GET" || url.origin !== self.location.origin) return
+  if (url.pathname.startsWith("/api/")) return
+  // Client-side navigations fetch server component payloads; when these fail
+  // Next.js falls back to a full page load, which the cache can answer
+  if (request.headers.get("RSC")) return
+
+  event.respondWith(url.pathname.startsWith("/_next/static/") ? cacheFirst(request) : networkFirst(request))
+})
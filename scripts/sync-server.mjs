@@ -0,0 +1,405 @@
+#!/usr/bin/env node
+// Local stand-in for the collaboration relay. Speaks the y-websocket protocol:
+// one room per document id, holding an in-memory Y.Doc that is dropped once the
+// last client leaves. Durable state lives in the `document_updates` table,
+// which owners and editors write to directly.
+//
+// When Supabase is configured, every connection must carry the user's access
+// token and is checked against `document_permissions`: viewers receive updates
+// and share presence but their document edits are dropped. A room starts from
+// the stored update log, and each update from a commenter is tried on a copy
+// of it first: it is relayed only if all it does is add suggested insertions,
+// mark text as a suggested deletion, add or remove comment anchors, or remove
+// suggested insertions again. Accepted commenter updates are stored by this
+// server, which needs SUPABASE_SERVICE_ROLE_KEY for that.
+//
+//   HOST=localhost PORT=1234 node scripts/sync-server.mjs
+
+import http from "node:http"
+import { WebSocketServer } from "ws"
+import { createClient } from "@supabase/supabase-js"
+import * as Y from "yjs"
+import * as syncProtocol from "y-protocols/sync"
+import * as awarenessProtocol from "y-protocols/awareness"
+import * as encoding from "lib0/encoding"
+import * as decoding from "lib0/decoding"
+
+const host = process.env.HOST || "localhost"
+const port = Number(process.env.PORT || 1234)
+const pingInterval = 30000
+const supabaseUrl = process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL
+const supabaseKey = process.env.SUPABASE_KEY || process.env.NEXT_PUBLIC_SUPABASE_KEY
+const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+// Must match COLLABORATION_FIELD in lib/editor-extensions.ts
+const collaborationField = "default"
+const storeInterval = 1000
+const pageSize = 1000
+
+const messageSync = 0
+const messageAwareness = 1
+
+const rooms = new Map()
+
+const serviceClient =
+  supabaseUrl && serviceKey ? createClient(supabaseUrl, serviceKey, { auth: { persistSession: false } }) : null
+
+function userClient(token) {
+  return createClient(supabaseUrl, supabaseKey, {
+    auth: { persistSession: false },
+    global: { headers: { Authorization: `Bearer ${token}` } },
+  })
+}
+
+// Resolves the caller's role on a document, or null when they have none
+async function authorize(documentId, token) {
+  if (!supabaseUrl || !supabaseKey) return "editor"
+  if (!token) return null
+
+  const { data, error } = await userClient(token).rpc("document_role", { doc: documentId })
+  if (error) {
+    console.error(`[${documentId}] Permission check failed:`, error.message)
+    return null
+  }
+  return data
+}
+
+async function userIdOf(token) {
+  if (!supabaseUrl || !supabaseKey || !token) return null
+  const { data } = await userClient(token).auth.getUser(token)
+  return data.user?.id ?? null
+}
+
+// Replays the stored update log, read as the first member to open the room
+async function loadStoredUpdates(room, token) {
+  if (!supabaseUrl || !supabaseKey) return
+  const client = serviceClient ?? userClient(token)
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await client
+      .from("document_updates")
+      .select("payload")
+      .eq("document_id", room.name)
+      .order("id", { ascending: true })
+      .range(from, from + pageSize - 1)
+
+    if (error) throw error
+    for (const row of data) Y.applyUpdate(room.doc, Buffer.from(row.payload, "base64"))
+    if (data.length < pageSize) return
+  }
+}
+
+// Yjs stores marks as text attributes; marks that may overlap get a hash suffix
+const markName = (attribute) => attribute.replace(/--[a-zA-Z0-9+/=]{8}$/, "")
+
+const isInsertion = (attributes) =>
+  Object.entries(attributes ?? {}).some(([key, value]) => markName(key) === "insertion" && value !== null)
+
+// Marks a commenter may add to or remove from existing text
+const reviewMarks = new Set(["deletion", "comment"])
+
+// Whether `item` was part of the document before `transaction`
+const existedBefore = (transaction, item) =>
+  item.id.clock < (transaction.beforeState.get(item.id.client) ?? 0) &&
+  (!item.deleted || Y.isDeleted(transaction.deleteSet, item.id))
+
+function applyFormat(attributes, { key, value }) {
+  if (value === null) delete attributes[key]
+  else attributes[key] = value
+}
+
+// Reads the marks of `text` both before and after `transaction`: new text must
+// be a suggested insertion, removed text must have been one, and the marks of
+// text that stays may only change by suggested deletions and comment anchors.
+function isSuggestionText(transaction, text) {
+  const before = {}
+  const after = {}
+  for (let item = text._start; item; item = item.right) {
+    const existed = existedBefore(transaction, item)
+    const exists = !item.deleted
+    if (item.content instanceof Y.ContentFormat) {
+      if (existed) applyFormat(before, item.content)
+      if (exists) applyFormat(after, item.content)
+    } else if (existed && exists) {
+      const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+      for (const key of keys) {
+        if (JSON.stringify(before[key]) !== JSON.stringify(after[key]) && !reviewMarks.has(markName(key))) return false
+      }
+    } else if (existed && !isInsertion(before)) {
+      return false
+    } else if (exists && !existed && !(item.content instanceof Y.ContentString && isInsertion(after))) {
+      return false
+    }
+  }
+  return true
+}
+
+function isSuggestionEvent(transaction, event) {
+  if (event.keys.size > 0) return false
+  if (event.target instanceof Y.XmlText) return isSuggestionText(transaction, event.target)
+
+  // Paragraphs and other nodes: only runs of suggested text may come and go
+  const isSuggestedText = (type) => type instanceof Y.XmlText && type.toDelta().every((op) => isInsertion(op.attributes))
+  return (
+    event.changes.delta.every((op) => op.insert === undefined || op.insert.every(isSuggestedText)) &&
+    Array.from(event.changes.deleted).every(
+      (item) => item.content.type instanceof Y.XmlText && isSuggestionText(transaction, item.content.type),
+    )
+  )
+}
+
+// Whether applying `update` to the room would only add, change or remove
+// suggestions and comment anchors. Into an empty document, commenters may also
+// send the seed every client builds from the legacy HTML under client id 0.
+function isSuggestionUpdate(room, update) {
+  if (room.doc.getXmlFragment(collaborationField).length === 0) {
+    return Y.decodeUpdate(update).structs.every((struct) => struct.id.client === 0)
+  }
+
+  const copy = new Y.Doc({ gc: false })
+  Y.applyUpdate(copy, Y.encodeStateAsUpdate(room.doc))
+  const fragment = copy.getXmlFragment(collaborationField)
+
+  let allowed = true
+  fragment.observeDeep((events, transaction) => {
+    allowed &&= events.every((event) => isSuggestionEvent(transaction, event))
+  })
+  copy.on("afterTransaction", (transaction) => {
+    for (let type of transaction.changed.keys()) {
+      while (type._item) type = type._item.parent
+      if (type !== fragment) allowed = false
+    }
+  })
+
+  try {
+    Y.applyUpdate(copy, update)
+    // Updates that depend on state the room lacks would be applied unchecked later
+    return allowed && !copy.store.pendingStructs && !copy.store.pendingDs
+  } finally {
+    copy.destroy()
+  }
+}
+
+// Stores accepted commenter updates, batched per author once per interval
+function storeUpdate(room, authorId, update) {
+  if (!serviceClient || !authorId) return
+  const updates = room.unsaved.get(authorId) ?? []
+  updates.push(update)
+  room.unsaved.set(authorId, updates)
+  room.storeTimer ??= setTimeout(() => flushUnsaved(room), storeInterval)
+}
+
+async function flushUnsaved(room) {
+  clearTimeout(room.storeTimer)
+  room.storeTimer = null
+  if (room.unsaved.size === 0) return
+
+  const rows = Array.from(room.unsaved, ([authorId, updates]) => ({
+    document_id: room.name,
+    author_id: authorId,
+    payload: Buffer.from(Y.mergeUpdates(updates)).toString("base64"),
+  }))
+  room.unsaved.clear()
+
+  const { error } = await serviceClient.from("document_updates").insert(rows)
+  if (error) console.error(`[${room.name}] Failed to store suggestions:`, error.message)
+}
+
+function send(room, conn, message) {
+  if (conn.readyState !== conn.OPEN) {
+    closeConnection(room, conn)
+    return
+  }
+  conn.send(message, (error) => {
+    if (error) closeConnection(room, conn)
+  })
+}
+
+function broadcast(room, message) {
+  for (const conn of room.conns.keys()) send(room, conn, message)
+}
+
+function getRoom(name, token) {
+  let room = rooms.get(name)
+  if (room) return room
+
+  const doc = new Y.Doc({ gc: true })
+  const awareness = new awarenessProtocol.Awareness(doc)
+  awareness.setLocalState(null)
+  room = { name, doc, awareness, conns: new Map(), unsaved: new Map(), storeTimer: null }
+  room.ready = loadStoredUpdates(room, token)
+
+  doc.on("update", (update) => {
+    const encoder = encoding.createEncoder()
+    encoding.writeVarUint(encoder, messageSync)
+    syncProtocol.writeUpdate(encoder, update)
+    broadcast(room, encoding.toUint8Array(encoder))
+  })
+
+  awareness.on("update", ({ added, updated, removed }, conn) => {
+    const changed = added.concat(updated, removed)
+    const controlled = room.conns.get(conn)
+    if (controlled) {
+      added.forEach((id) => controlled.add(id))
+      removed.forEach((id) => controlled.delete(id))
+    }
+    const encoder = encoding.createEncoder()
+    encoding.writeVarUint(encoder, messageAwareness)
+    encoding.writeVarUint8Array(encoder, awarenessProtocol.encodeAwarenessUpdate(awareness, changed))
+    broadcast(room, encoding.toUint8Array(encoder))
+  })
+
+  rooms.set(name, room)
+  return room
+}
+
+function closeConnection(room, conn) {
+  const controlled = room.conns.get(conn)
+  if (!controlled) return
+
+  room.conns.delete(conn)
+  awarenessProtocol.removeAwarenessStates(room.awareness, Array.from(controlled), null)
+  conn.close()
+
+  if (room.conns.size === 0) {
+    flushUnsaved(room)
+    room.awareness.destroy()
+    room.doc.destroy()
+    rooms.delete(room.name)
+  }
+}
+
+function handleMessage(room, conn, message) {
+  const decoder = decoding.createDecoder(message)
+  const encoder = encoding.createEncoder()
+
+  switch (decoding.readVarUint(decoder)) {
+    case messageSync:
+      // Viewers may request state (step 1) but never contribute changes
+      if (conn.role === "viewer" && decoding.peekVarUint(decoder) !== syncProtocol.messageYjsSyncStep1) break
+      if (conn.role === "commenter" && decoding.peekVarUint(decoder) !== syncProtocol.messageYjsSyncStep1) {
+        decoding.readVarUint(decoder)
+        const update = decoding.readVarUint8Array(decoder)
+        if (!isSuggestionUpdate(room, update)) {
+          console.warn(`[${room.name}] Dropped an update from a commenter that is not a suggestion`)
+          break
+        }
+        Y.applyUpdate(room.doc, update, conn)
+        storeUpdate(room, conn.userId, update)
+        break
+      }
+      encoding.writeVarUint(encoder, messageSync)
+      syncProtocol.readSyncMessage(decoder, encoder, room.doc, conn)
+      // Only sync step 1 produces a reply
+      if (encoding.length(encoder) > 1) send(room, conn, encoding.toUint8Array(encoder))
+      break
+    case messageAwareness:
+      awarenessProtocol.applyAwarenessUpdate(room.awareness, decoding.readVarUint8Array(decoder), conn)
+      break
+  }
+}
+
+async function setupConnection(conn, req) {
+  conn.binaryType = "arraybuffer"
+  const url = new URL(req.url || "/", "http://localhost")
+  const name = decodeURIComponent(url.pathname.slice(1))
+  const token = url.searchParams.get("token")
+
+  // Hold messages that arrive while the permission check is in flight
+  const early = []
+  const queue = (data) => early.push(data)
+  conn.on("message", queue)
+
+  const [role, userId] = await Promise.all([authorize(name, token), userIdOf(token)])
+  conn.role = role
+  conn.userId = userId
+  if (conn.readyState !== conn.OPEN) return
+  if (!conn.role) {
+    conn.close(4403, "Permission denied")
+    return
+  }
+
+  const room = getRoom(name, token)
+  room.conns.set(conn, new Set())
+  try {
+    await room.ready
+  } catch (error) {
+    console.error(`[${name}] Failed to load stored updates:`, error.message)
+    closeConnection(room, conn)
+    return
+  }
+  if (conn.readyState !== conn.OPEN) {
+    closeConnection(room, conn)
+    return
+  }
+  conn.off("message", queue)
+
+  const onMessage = (data) => {
+    try {
+      handleMessage(room, conn, new Uint8Array(data))
+    } catch (error) {
+      console.error(`[${name}] Failed to handle message:`, error)
+    }
+  }
+  conn.on("message", onMessage)
+
+  let alive = true
+  const ping = setInterval(async () => {
+    if (!alive) {
+      clearInterval(ping)
+      closeConnection(room, conn)
+      return
+    }
+    alive = false
+    conn.ping()
+
+    // Pick up role changes and revoked access while the document stays open
+    conn.role = await authorize(name, token)
+    if (!conn.role) {
+      clearInterval(ping)
+      closeConnection(room, conn)
+    }
+  }, pingInterval)
+  conn.on("pong", () => {
+    alive = true
+  })
+  conn.on("close", () => {
+    clearInterval(ping)
+    closeConnection(room, conn)
+  })
+
+  // Start the sync handshake and send everyone already present
+  const encoder = encoding.createEncoder()
+  encoding.writeVarUint(encoder, messageSync)
+  syncProtocol.writeSyncStep1(encoder, room.doc)
+  send(room, conn, encoding.toUint8Array(encoder))
+
+  const states = room.awareness.getStates()
+  if (states.size > 0) {
+    const awarenessEncoder = encoding.createEncoder()
+    encoding.writeVarUint(awarenessEncoder, messageAwareness)
+    encoding.writeVarUint8Array(
+      awarenessEncoder,
+      awarenessProtocol.encodeAwarenessUpdate(room.awareness, Array.from(states.keys())),
+    )
+    send(room, conn, encoding.toUint8Array(awarenessEncoder))
+  }
+
+  early.forEach(onMessage)
+}
+
+const server = http.createServer((_req, res) => {
+  res.writeHead(200, { "Content-Type": "text/plain" })
+  res.end("okay")
+})
+
+const wss = new WebSocketServer({ server })
+wss.on("connection", setupConnection)
+
+server.listen(port, host, () => {
+  console.log(`Sync server running at ws://${host}:${port}`)
+  if (!supabaseUrl || !supabaseKey) {
+    console.warn("Supabase is not configured: access checks are disabled and every client can edit.")
+  } else if (!serviceClient) {
+    console.warn("SUPABASE_SERVICE_ROLE_KEY is not set: commenters' suggestions are relayed but not stored.")
+  }
+})
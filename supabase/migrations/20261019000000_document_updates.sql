@@ -0,0 +1,46 @@
+-- Append-only log of Yjs updates backing collaborative editing.
+-- Each client writes the updates it produced; readers replay the log in id order.
+create table if not exists public.document_updates (
+  id bigint generated always as identity primary key,
+  document_id uuid not null references public.documents (id) on delete cascade,
+  author_id uuid references auth.users (id) on delete set null,
+  payload text not null, -- base64 encoded Yjs update
+  created_at timestamptz not null default now()
+);
+
+create index if not exists document_updates_document_id_idx
+  on public.document_updates (document_id, id);
+
+alter table public.document_updates enable row level security;
+
+create policy "Collaborators can read document updates"
+  on public.document_updates for select
+  using (
+    exists (
+      select 1 from public.documents d
+      where d.id = document_id
+        and (d.owner_id = auth.uid() or auth.uid()::text = any (d.collaborators))
+    )
+  );
+
+create policy "Collaborators can append document updates"
+  on public.document_updates for insert
+  with check (
+    author_id = auth.uid()
+    and exists (
+      select 1 from public.documents d
+      where d.id = document_id
+        and (d.owner_id = auth.uid() or auth.uid()::text = any (d.collaborators))
+    )
+  );
+
+-- Compaction replaces a prefix of the log with a single merged update.
+create policy "Collaborators can compact document updates"
+  on public.document_updates for delete
+  using (
+    exists (
+      select 1 from public.documents d
+      where d.id = document_id
+        and (d.owner_id = auth.uid() or auth.uid()::text = any (d.collaborators))
+    )
+  );
@@ -0,0 +1,29 @@
+-- Last heartbeat per user and document, used for "last seen" once a
+-- collaborator closes the document. Live presence itself goes through the
+-- sync server's awareness channel and is never stored.
+create table if not exists public.document_presence (
+  document_id uuid not null references public.documents (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  last_seen_at timestamptz not null default now(),
+  primary key (document_id, user_id)
+);
+
+alter table public.document_presence enable row level security;
+
+create policy "Collaborators can read presence"
+  on public.document_presence for select
+  using (
+    exists (
+      select 1 from public.documents d
+      where d.id = document_id
+        and (d.owner_id = auth.uid() or auth.uid()::text = any (d.collaborators))
+    )
+  );
+
+create policy "Users can record their own heartbeat"
+  on public.document_presence for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can refresh their own heartbeat"
+  on public.document_presence for update
+  using (user_id = auth.uid());
@@ -0,0 +1,146 @@
+-- Per-document roles. This table is the source of truth for who may read or
+-- write a document; `documents.collaborators` is kept as a denormalized list
+-- of member ids for cheap counts and filtering.
+create table if not exists public.document_permissions (
+  document_id uuid not null references public.documents (id) on delete cascade,
+  user_id uuid not null references public.users_data (id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (document_id, user_id)
+);
+
+create unique index if not exists document_permissions_single_owner_idx
+  on public.document_permissions (document_id) where role = 'owner';
+
+-- Backfill from the existing owner and collaborator columns
+insert into public.document_permissions (document_id, user_id, role)
+select d.id, d.owner_id, 'owner' from public.documents d
+on conflict do nothing;
+
+insert into public.document_permissions (document_id, user_id, role)
+select d.id, c::uuid, 'editor'
+from public.documents d, unnest(d.collaborators) as c
+where c <> '' and c::uuid <> d.owner_id
+  and exists (select 1 from public.users_data u where u.id = c::uuid)
+on conflict do nothing;
+
+-- Role of the calling user on a document, or null. Security definer so that
+-- policies can call it without recursing into this table's own policies.
+create or replace function public.document_role(doc uuid)
+returns text
+language sql stable security definer set search_path = public
+as $$
+  select role from public.document_permissions
+  where document_id = doc and user_id = auth.uid()
+$$;
+
+create or replace function public.grant_document_owner()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  insert into public.document_permissions (document_id, user_id, role)
+  values (new.id, new.owner_id, 'owner')
+  on conflict do nothing;
+  return new;
+end;
+$$;
+
+create trigger documents_grant_owner
+  after insert on public.documents
+  for each row execute function public.grant_document_owner();
+
+create or replace function public.sync_document_collaborators()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  doc uuid := coalesce(new.document_id, old.document_id);
+begin
+  update public.documents
+  set collaborators = coalesce(
+    (select array_agg(p.user_id::text order by p.created_at)
+     from public.document_permissions p where p.document_id = doc),
+    '{}'
+  )
+  where id = doc;
+  return null;
+end;
+$$;
+
+create trigger document_permissions_sync_collaborators
+  after insert or update or delete on public.document_permissions
+  for each row execute function public.sync_document_collaborators();
+
+alter table public.document_permissions enable row level security;
+
+create policy "Members can see who has access"
+  on public.document_permissions for select
+  using (public.document_role(document_id) is not null);
+
+create policy "Owners can share documents"
+  on public.document_permissions for insert
+  with check (public.document_role(document_id) = 'owner' and role <> 'owner');
+
+create policy "Owners can change roles"
+  on public.document_permissions for update
+  using (public.document_role(document_id) = 'owner' and role <> 'owner')
+  with check (role <> 'owner');
+
+create policy "Owners can revoke access and members can leave"
+  on public.document_permissions for delete
+  using (
+    role <> 'owner'
+    and (public.document_role(document_id) = 'owner' or user_id = auth.uid())
+  );
+
+-- Documents: readable by any member, writable by owners and editors only
+alter table public.documents enable row level security;
+
+create policy "Members can read documents"
+  on public.documents for select
+  using (owner_id = auth.uid() or public.document_role(id) is not null);
+
+create policy "Users can create their own documents"
+  on public.documents for insert
+  with check (owner_id = auth.uid());
+
+create policy "Editors can update documents"
+  on public.documents for update
+  using (public.document_role(id) in ('owner', 'editor'));
+
+create policy "Owners can delete documents"
+  on public.documents for delete
+  using (public.document_role(id) = 'owner');
+
+-- Ownership and membership only change through document_permissions
+revoke update on public.documents from authenticated;
+grant update (title, content, "updatedAt") on public.documents to authenticated;
+
+-- Collaboration log and presence follow the same roles
+drop policy if exists "Collaborators can read document updates" on public.document_updates;
+drop policy if exists "Collaborators can append document updates" on public.document_updates;
+drop policy if exists "Collaborators can compact document updates" on public.document_updates;
+
+create policy "Members can read document updates"
+  on public.document_updates for select
+  using (public.document_role(document_id) is not null);
+
+create policy "Editors can append document updates"
+  on public.document_updates for insert
+  with check (author_id = auth.uid() and public.document_role(document_id) in ('owner', 'editor'));
+
+create policy "Editors can compact document updates"
+  on public.document_updates for delete
+  using (public.document_role(document_id) in ('owner', 'editor'));
+
+drop policy if exists "Collaborators can read presence" on public.document_presence;
+drop policy if exists "Users can record their own heartbeat" on public.document_presence;
+
+create policy "Members can read presence"
+  on public.document_presence for select
+  using (public.document_role(document_id) is not null);
+
+create policy "Members can record their own heartbeat"
+  on public.document_presence for insert
+  with check (user_id = auth.uid() and public.document_role(document_id) is not null);
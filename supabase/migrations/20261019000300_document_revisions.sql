@@ -0,0 +1,32 @@
+-- Append-only history of saved document content. Rows are never edited apart
+-- from giving them a name, and are only removed with their document or when
+-- a newer autosave replaces them (20261019001700_revision_merging.sql).
+create table if not exists public.document_revisions (
+  id bigint generated always as identity primary key,
+  document_id uuid not null references public.documents (id) on delete cascade,
+  author_id uuid references public.users_data (id) on delete set null,
+  title text not null,
+  content text not null,
+  name text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists document_revisions_document_id_idx
+  on public.document_revisions (document_id, created_at desc);
+
+alter table public.document_revisions enable row level security;
+
+create policy "Members can read revisions"
+  on public.document_revisions for select
+  using (public.document_role(document_id) is not null);
+
+create policy "Editors can record revisions"
+  on public.document_revisions for insert
+  with check (author_id = auth.uid() and public.document_role(document_id) in ('owner', 'editor'));
+
+create policy "Editors can name revisions"
+  on public.document_revisions for update
+  using (public.document_role(document_id) in ('owner', 'editor'));
+
+revoke update on public.document_revisions from authenticated;
+grant update (name) on public.document_revisions to authenticated;
@@ -0,0 +1,12 @@
+-- Commenters may only suggest changes. Suggestions are ordinary document
+-- updates carrying tracked-change marks, but commenters cannot append to the
+-- collaboration log themselves: the sync server (scripts/sync-server.mjs)
+-- checks that each of their updates only adds or removes suggestions and
+-- comment anchors, then stores it with the service role. They cannot rename
+-- the document or write its content snapshot.
+alter table public.document_permissions
+  drop constraint if exists document_permissions_role_check;
+
+alter table public.document_permissions
+  add constraint document_permissions_role_check
+  check (role in ('owner', 'editor', 'commenter', 'viewer'));
@@ -0,0 +1,77 @@
+-- Discussion threads anchored to a range of document text. The anchor itself
+-- is a `comment` mark inside the collaborative document carrying the thread
+-- id, so it moves with the text it covers; these tables hold the discussion.
+create table if not exists public.comment_threads (
+  id uuid primary key,
+  document_id uuid not null references public.documents (id) on delete cascade,
+  author_id uuid references public.users_data (id) on delete set null,
+  -- The text that was selected, kept for threads whose anchor was deleted
+  quote text not null,
+  resolved_at timestamptz,
+  resolved_by uuid references public.users_data (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists comment_threads_document_id_idx
+  on public.comment_threads (document_id, created_at);
+
+create table if not exists public.comments (
+  id bigint generated always as identity primary key,
+  thread_id uuid not null references public.comment_threads (id) on delete cascade,
+  -- Duplicated from the thread so policies and change feeds can filter on it
+  document_id uuid not null references public.documents (id) on delete cascade,
+  author_id uuid references public.users_data (id) on delete set null,
+  body text not null check (length(trim(body)) > 0),
+  mentions uuid[] not null default '{}',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists comments_thread_id_idx
+  on public.comments (thread_id, created_at);
+
+alter table public.comment_threads enable row level security;
+alter table public.comments enable row level security;
+
+create policy "Members can read comment threads"
+  on public.comment_threads for select
+  using (public.document_role(document_id) is not null);
+
+create policy "Contributors can start comment threads"
+  on public.comment_threads for insert
+  with check (
+    author_id = auth.uid()
+    and public.document_role(document_id) in ('owner', 'editor', 'commenter')
+  );
+
+create policy "Contributors can resolve comment threads"
+  on public.comment_threads for update
+  using (public.document_role(document_id) in ('owner', 'editor', 'commenter'));
+
+revoke update on public.comment_threads from authenticated;
+grant update (resolved_at, resolved_by) on public.comment_threads to authenticated;
+
+create policy "Members can read comments"
+  on public.comments for select
+  using (public.document_role(document_id) is not null);
+
+create policy "Contributors can reply"
+  on public.comments for insert
+  with check (
+    author_id = auth.uid()
+    and public.document_role(document_id) in ('owner', 'editor', 'commenter')
+    and exists (
+      select 1 from public.comment_threads t
+      where t.id = thread_id and t.document_id = comments.document_id
+    )
+  );
+
+revoke update on public.comments from authenticated;
+
+-- Stream changes to open editors; row level security still applies
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    alter publication supabase_realtime add table public.comment_threads, public.comments;
+  end if;
+end
+$$;
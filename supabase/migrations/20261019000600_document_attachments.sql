@@ -0,0 +1,29 @@
+-- Files embedded in documents. Objects live under "<document id>/<file>" so
+-- access follows the document's roles. The bucket is public for reads: object
+-- names are random and the URLs are stored in the document content, where
+-- signed URLs would expire.
+insert into storage.buckets (id, name, public, file_size_limit)
+values ('document-attachments', 'document-attachments', true, 20971520)
+on conflict (id) do nothing;
+
+create policy "Contributors can upload document attachments"
+  on storage.objects for insert
+  with check (
+    bucket_id = 'document-attachments'
+    and public.document_role(((storage.foldername(name))[1])::uuid) in ('owner', 'editor', 'commenter')
+  );
+
+-- Owners clear out a document's attachments before deleting it
+create policy "Owners can delete document attachments"
+  on storage.objects for delete
+  using (
+    bucket_id = 'document-attachments'
+    and public.document_role(((storage.foldername(name))[1])::uuid) = 'owner'
+  );
+
+create policy "Members can list document attachments"
+  on storage.objects for select
+  using (
+    bucket_id = 'document-attachments'
+    and public.document_role(((storage.foldername(name))[1])::uuid) is not null
+  );
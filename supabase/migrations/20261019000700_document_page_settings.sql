@@ -0,0 +1,6 @@
+-- Page layout of a document: pageless or paged, page size, orientation,
+-- margins and the header and footer templates. Null means the defaults.
+alter table public.documents
+  add column if not exists page_settings jsonb;
+
+grant update (page_settings) on public.documents to authenticated;
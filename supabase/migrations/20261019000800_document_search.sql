@@ -0,0 +1,54 @@
+-- Full-text search over document titles and content. Content is stored as
+-- HTML, so tags are dropped (and common entities decoded) before indexing.
+create or replace function public.document_plain_text(html text)
+returns text
+language sql immutable
+as $$
+  select replace(replace(replace(replace(replace(replace(
+    regexp_replace(coalesce(html, ''), '<[^>]*>', ' ', 'g'),
+    '&nbsp;', ' '), '&lt;', '<'), '&gt;', '>'), '&quot;', '"'), '&#39;', ''''), '&amp;', '&')
+$$;
+
+-- Title matches rank above content matches
+alter table public.documents
+  add column if not exists search_vector tsvector
+  generated always as (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', public.document_plain_text(content)), 'B')
+  ) stored;
+
+create index if not exists documents_search_vector_idx
+  on public.documents using gin (search_vector);
+
+-- Ranked matches for a web-style query ("quoted phrases", -exclusions, or).
+-- Matched words in the headlines are wrapped in U+E000 and U+E001, which
+-- cannot come from typed text. Security invoker, so only documents the caller
+-- can read are returned.
+create or replace function public.search_documents(query text, max_results int default 30, skip int default 0)
+returns table (id uuid, rank real, title_headline text, content_headline text)
+language sql stable security invoker set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', query) as tsq
+  ),
+  ranked as (
+    select d.id, d.title, d.content, d."updatedAt", ts_rank_cd(d.search_vector, q.tsq) as rank
+    from public.documents d, q
+    where d.search_vector @@ q.tsq
+    order by rank desc, d."updatedAt" desc
+    limit max_results offset skip
+  )
+  -- Headlines only for the page being returned; they read the whole text
+  select
+    r.id,
+    r.rank,
+    ts_headline('english', r.title, q.tsq,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', HighlightAll=true'),
+    ts_headline('english', public.document_plain_text(r.content), q.tsq,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) ||
+      ', MaxFragments=2, MinWords=8, MaxWords=24, FragmentDelimiter=" … "')
+  from ranked r, q
+  order by r.rank desc, r."updatedAt" desc
+$$;
+
+grant execute on function public.search_documents(text, int, int) to authenticated;
@@ -0,0 +1,213 @@
+-- Folders organize an owner's documents and nest to any depth. Sharing a
+-- folder gives its members access to every document inside it, including
+-- those in subfolders: their roles are copied into document_permissions and
+-- marked with the folder they came from, so the rest of the app keeps
+-- reading a single permissions table.
+create table if not exists public.folders (
+  id uuid primary key default gen_random_uuid(),
+  owner_id uuid not null references public.users_data (id) on delete cascade,
+  parent_id uuid references public.folders (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists folders_owner_parent_idx
+  on public.folders (owner_id, parent_id);
+
+-- Deleting a folder moves its documents back to the top level
+alter table public.documents
+  add column if not exists folder_id uuid references public.folders (id) on delete set null;
+
+create index if not exists documents_folder_id_idx
+  on public.documents (folder_id);
+
+grant update (folder_id) on public.documents to authenticated;
+
+create table if not exists public.folder_permissions (
+  folder_id uuid not null references public.folders (id) on delete cascade,
+  user_id uuid not null references public.users_data (id) on delete cascade,
+  role text not null check (role in ('editor', 'commenter', 'viewer')),
+  created_at timestamptz not null default now(),
+  primary key (folder_id, user_id)
+);
+
+alter table public.document_permissions
+  add column if not exists inherited_from uuid references public.folders (id) on delete cascade;
+
+-- The folder and every folder below it
+create or replace function public.folder_subtree(root uuid)
+returns setof uuid
+language sql stable security definer set search_path = public
+as $$
+  with recursive tree as (
+    select id from public.folders where id = root
+    union
+    select f.id from public.folders f join tree t on f.parent_id = t.id
+  )
+  select id from tree
+$$;
+
+create or replace function public.owns_folder(folder uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select exists (select 1 from public.folders where id = folder and owner_id = auth.uid())
+$$;
+
+-- Rebuilds the roles a document inherits from its folder and the folders
+-- above it. The nearest folder sharing with a user decides their role, and a
+-- role granted on the document itself always wins.
+create or replace function public.sync_inherited_permissions(doc uuid)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  delete from public.document_permissions
+  where document_id = doc and inherited_from is not null;
+
+  insert into public.document_permissions (document_id, user_id, role, inherited_from)
+  select distinct on (p.user_id) doc, p.user_id, p.role, p.folder_id
+  from (
+    with recursive ancestors as (
+      select f.id, f.parent_id, 0 as depth
+      from public.folders f join public.documents d on d.folder_id = f.id
+      where d.id = doc
+      union all
+      select f.id, f.parent_id, a.depth + 1
+      from public.folders f join ancestors a on f.id = a.parent_id
+    )
+    select fp.user_id, fp.role, fp.folder_id, a.depth
+    from public.folder_permissions fp join ancestors a on a.id = fp.folder_id
+  ) p
+  where p.user_id <> (select owner_id from public.documents where id = doc)
+  order by p.user_id, p.depth
+  on conflict (document_id, user_id) do nothing;
+end;
+$$;
+
+create or replace function public.sync_folder_documents(folder uuid)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+declare
+  doc uuid;
+begin
+  for doc in
+    select id from public.documents where folder_id in (select public.folder_subtree(folder))
+  loop
+    perform public.sync_inherited_permissions(doc);
+  end loop;
+end;
+$$;
+
+-- Folders hold only their owner's folders and documents, and never themselves
+create or replace function public.check_folder_placement()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if new.parent_id is null then
+    return new;
+  end if;
+  if not exists (select 1 from public.folders where id = new.parent_id and owner_id = new.owner_id) then
+    raise exception 'Folders can only be placed in your own folders';
+  end if;
+  if tg_op = 'UPDATE' and new.parent_id in (select public.folder_subtree(new.id)) then
+    raise exception 'A folder cannot be moved into itself';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger folders_check_placement
+  before insert or update of parent_id, owner_id on public.folders
+  for each row execute function public.check_folder_placement();
+
+create or replace function public.check_document_folder()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if tg_op = 'UPDATE' then
+    if new.folder_id is not distinct from old.folder_id then
+      return new;
+    end if;
+    -- Cleared by the foreign key when the folder is deleted
+    if new.folder_id is null and not exists (select 1 from public.folders where id = old.folder_id) then
+      return new;
+    end if;
+    if public.document_role(new.id) is distinct from 'owner' then
+      raise exception 'Only the owner can move a document';
+    end if;
+  end if;
+  if new.folder_id is not null
+    and not exists (select 1 from public.folders where id = new.folder_id and owner_id = new.owner_id) then
+    raise exception 'Documents can only be moved into your own folders';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger documents_check_folder
+  before insert or update of folder_id on public.documents
+  for each row execute function public.check_document_folder();
+
+create or replace function public.documents_folder_changed()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  perform public.sync_inherited_permissions(new.id);
+  return null;
+end;
+$$;
+
+create trigger documents_sync_inherited_permissions
+  after insert or update of folder_id on public.documents
+  for each row execute function public.documents_folder_changed();
+
+create or replace function public.folder_sharing_changed()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if tg_table_name = 'folders' then
+    perform public.sync_folder_documents(new.id);
+  else
+    perform public.sync_folder_documents(coalesce(new.folder_id, old.folder_id));
+  end if;
+  return null;
+end;
+$$;
+
+create trigger folders_sync_inherited_permissions
+  after update of parent_id on public.folders
+  for each row execute function public.folder_sharing_changed();
+
+create trigger folder_permissions_sync_inherited_permissions
+  after insert or update or delete on public.folder_permissions
+  for each row execute function public.folder_sharing_changed();
+
+alter table public.folders enable row level security;
+alter table public.folder_permissions enable row level security;
+
+create policy "Owners manage their folders"
+  on public.folders for all
+  using (owner_id = auth.uid())
+  with check (owner_id = auth.uid());
+
+create policy "Owners and members can see who has access"
+  on public.folder_permissions for select
+  using (public.owns_folder(folder_id) or user_id = auth.uid());
+
+create policy "Owners can share folders"
+  on public.folder_permissions for insert
+  with check (public.owns_folder(folder_id));
+
+create policy "Owners can change folder roles"
+  on public.folder_permissions for update
+  using (public.owns_folder(folder_id));
+
+create policy "Owners can revoke folder access and members can leave"
+  on public.folder_permissions for delete
+  using (public.owns_folder(folder_id) or user_id = auth.uid());
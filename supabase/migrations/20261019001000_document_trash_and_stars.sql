@@ -0,0 +1,103 @@
+-- Trash. Deleting a document from the dashboard only stamps `deleted_at`;
+-- the owner can restore it or delete it for good (attachments first, as
+-- storage policies need the document to still exist). Documents that have been
+-- in the trash for 30 days are purged by a nightly job, see
+-- 20261019001600_trash_purge.sql. Trashed documents are hidden from everyone
+-- but their owner: `document_role` gives other members no role while a
+-- document is in the trash, so every policy built on it (update log,
+-- revisions, comments, stars, the sync server) shuts them out too.
+alter table public.documents
+  add column if not exists deleted_at timestamptz;
+
+create index if not exists documents_deleted_at_idx
+  on public.documents (owner_id, deleted_at)
+  where deleted_at is not null;
+
+grant update (deleted_at) on public.documents to authenticated;
+
+create or replace function public.document_role(doc uuid)
+returns text
+language sql stable security definer set search_path = public
+as $$
+  select p.role from public.document_permissions p
+  where p.document_id = doc and p.user_id = auth.uid()
+    and (
+      p.role = 'owner'
+      or not exists (select 1 from public.documents d where d.id = doc and d.deleted_at is not null)
+    )
+$$;
+
+create or replace function public.check_document_trash()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if new.deleted_at is distinct from old.deleted_at
+    and public.document_role(new.id) is distinct from 'owner' then
+    raise exception 'Only the owner can move a document to the trash or restore it';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger documents_check_trash
+  before update of deleted_at on public.documents
+  for each row execute function public.check_document_trash();
+
+drop policy if exists "Members can read documents" on public.documents;
+
+create policy "Members can read documents"
+  on public.documents for select
+  using (
+    owner_id = auth.uid()
+    or (deleted_at is null and public.document_role(id) is not null)
+  );
+
+-- Search skips the trash, even for the owner
+create or replace function public.search_documents(query text, max_results int default 30, skip int default 0)
+returns table (id uuid, rank real, title_headline text, content_headline text)
+language sql stable security invoker set search_path = public
+as $$
+  with q as (
+    select websearch_to_tsquery('english', query) as tsq
+  ),
+  ranked as (
+    select d.id, d.title, d.content, d."updatedAt", ts_rank_cd(d.search_vector, q.tsq) as rank
+    from public.documents d, q
+    where d.search_vector @@ q.tsq and d.deleted_at is null
+    order by rank desc, d."updatedAt" desc
+    limit max_results offset skip
+  )
+  select
+    r.id,
+    r.rank,
+    ts_headline('english', r.title, q.tsq,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) || ', HighlightAll=true'),
+    ts_headline('english', public.document_plain_text(r.content), q.tsq,
+      'StartSel=' || chr(57344) || ', StopSel=' || chr(57345) ||
+      ', MaxFragments=2, MinWords=8, MaxWords=24, FragmentDelimiter=" … "')
+  from ranked r, q
+  order by r.rank desc, r."updatedAt" desc
+$$;
+
+-- Stars are personal: anyone with access can star a document for themselves
+create table if not exists public.document_stars (
+  user_id uuid not null references public.users_data (id) on delete cascade,
+  document_id uuid not null references public.documents (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (user_id, document_id)
+);
+
+alter table public.document_stars enable row level security;
+
+create policy "Users can see their stars"
+  on public.document_stars for select
+  using (user_id = auth.uid());
+
+create policy "Users can star documents they can read"
+  on public.document_stars for insert
+  with check (user_id = auth.uid() and public.document_role(document_id) is not null);
+
+create policy "Users can unstar documents"
+  on public.document_stars for delete
+  using (user_id = auth.uid());
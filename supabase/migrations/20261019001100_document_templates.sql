@@ -0,0 +1,64 @@
+-- Team templates. A template is visible to the person who saved it and to
+-- the people they work with: anyone who shares a document or a folder with
+-- them. Only people who can edit a document may save it as a template, and
+-- only the person who saved a template can change or remove it. Built-in
+-- templates ship with the app and are not stored here.
+create table if not exists public.document_templates (
+  id uuid primary key default gen_random_uuid(),
+  created_by uuid references public.users_data (id) on delete set null,
+  -- Document the template was saved from
+  document_id uuid references public.documents (id) on delete set null,
+  name text not null check (length(trim(name)) > 0),
+  description text not null default '',
+  -- Title of documents created from the template; may contain placeholders
+  title_pattern text not null default '',
+  content text not null default '',
+  created_at timestamptz not null default now()
+);
+
+create index if not exists document_templates_created_at_idx
+  on public.document_templates (created_at desc);
+
+-- Whether the signed-in user and `other` are the same person or members of
+-- a common document or shared folder
+create or replace function public.is_teammate(other uuid)
+returns boolean
+language sql stable security definer set search_path = public
+as $$
+  select other = auth.uid()
+    or exists (
+      select 1
+      from public.document_permissions mine
+      join public.document_permissions theirs on theirs.document_id = mine.document_id
+      where mine.user_id = auth.uid() and theirs.user_id = other
+    )
+    or exists (
+      select 1
+      from public.folders f
+      join public.folder_permissions fp on fp.folder_id = f.id
+      where (f.owner_id = auth.uid() and fp.user_id = other)
+         or (f.owner_id = other and fp.user_id = auth.uid())
+    )
+$$;
+
+alter table public.document_templates enable row level security;
+
+create policy "Users can read their teammates' templates"
+  on public.document_templates for select
+  using (created_by is not null and public.is_teammate(created_by));
+
+create policy "Editors can save documents as templates"
+  on public.document_templates for insert
+  with check (
+    created_by = auth.uid()
+    and public.document_role(document_id) in ('owner', 'editor')
+  );
+
+create policy "Authors can update their templates"
+  on public.document_templates for update
+  using (created_by = auth.uid())
+  with check (created_by = auth.uid());
+
+create policy "Authors can delete their templates"
+  on public.document_templates for delete
+  using (created_by = auth.uid());
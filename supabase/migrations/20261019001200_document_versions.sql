@@ -0,0 +1,37 @@
+-- Optimistic concurrency for document saves. Every change to the title,
+-- content snapshot or page setup bumps `version`. Such writes must send the
+-- version they produce, one more than the version the change was based on. If
+-- someone else saved in the meantime, or the write leaves `version` out, it is
+-- rejected with PT409 (HTTP 409 through PostgREST) and the editor asks the
+-- user how to resolve it. Other writes (trash, moves) may leave `version` out.
+alter table public.documents
+  add column if not exists version integer not null default 1;
+
+grant update (version) on public.documents to authenticated;
+
+create or replace function public.check_document_version()
+returns trigger
+language plpgsql set search_path = public
+as $$
+declare
+  changed boolean := new.title is distinct from old.title
+    or new.content is distinct from old.content
+    or new.page_settings is distinct from old.page_settings;
+begin
+  if (changed or new.version is distinct from old.version)
+    and new.version is distinct from old.version + 1 then
+    raise exception 'Document % was changed by someone else', old.id
+      using errcode = 'PT409', hint = 'Reload the document and reapply your changes';
+  end if;
+
+  -- A checked write that turned out to change nothing keeps its version
+  if not changed then
+    new.version := old.version;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger documents_check_version
+  before update on public.documents
+  for each row execute function public.check_document_version();
@@ -0,0 +1,145 @@
+-- Link sharing. A document has at most one link; without one, access is
+-- restricted to its members. Signed-in users who open a link are recorded as
+-- visitors of its token and get the link's role through `document_role`, so
+-- changing the role, expiring, regenerating or removing the link takes effect
+-- immediately for everyone who joined through it.
+create extension if not exists pgcrypto with schema extensions;
+
+create table if not exists public.document_links (
+  document_id uuid primary key references public.documents (id) on delete cascade,
+  token text not null unique default encode(extensions.gen_random_bytes(16), 'hex'),
+  role text not null check (role in ('editor', 'commenter', 'viewer')),
+  expires_at timestamptz,
+  -- bcrypt hash; only ever compared by join_document_link
+  password_hash text,
+  has_password boolean generated always as (password_hash is not null) stored,
+  created_by uuid default auth.uid() references public.users_data (id) on delete set null,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.document_link_visitors (
+  document_id uuid not null references public.documents (id) on delete cascade,
+  user_id uuid not null references public.users_data (id) on delete cascade,
+  token text not null,
+  joined_at timestamptz not null default now(),
+  primary key (document_id, user_id)
+);
+
+-- The strongest of the user's own role and the role of a link they joined
+-- through, as long as that link is still the current one and has not expired.
+-- Only the owner keeps their role while the document is in the trash.
+create or replace function public.document_role(doc uuid)
+returns text
+language sql stable security definer set search_path = public
+as $$
+  select role from (
+    select p.role from public.document_permissions p
+    where p.document_id = doc and p.user_id = auth.uid()
+    union all
+    select l.role from public.document_links l
+    join public.document_link_visitors v on v.document_id = l.document_id and v.token = l.token
+    where l.document_id = doc and v.user_id = auth.uid()
+      and (l.expires_at is null or l.expires_at > now())
+  ) roles
+  where role = 'owner'
+    or not exists (select 1 from public.documents d where d.id = doc and d.deleted_at is not null)
+  order by case role when 'owner' then 0 when 'editor' then 1 when 'commenter' then 2 else 3 end
+  limit 1
+$$;
+
+create or replace function public.join_document_link(link_token text, password text default null)
+returns uuid
+language plpgsql security definer set search_path = public
+as $$
+declare
+  link public.document_links;
+begin
+  if auth.uid() is null then
+    raise exception 'Sign in to open this document';
+  end if;
+
+  select * into link from public.document_links where token = link_token;
+  if not found or (link.expires_at is not null and link.expires_at <= now()) then
+    raise exception 'This link is invalid or has expired';
+  end if;
+
+  if link.password_hash is not null
+    and (password is null or extensions.crypt(password, link.password_hash) <> link.password_hash) then
+    raise exception 'A password is required to open this document' using errcode = '28P01';
+  end if;
+
+  insert into public.document_link_visitors (document_id, user_id, token)
+  values (link.document_id, auth.uid(), link.token)
+  on conflict (document_id, user_id) do update set token = excluded.token, joined_at = now();
+
+  return link.document_id;
+end;
+$$;
+
+-- An empty password removes it
+create or replace function public.set_document_link_password(doc uuid, password text)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if public.document_role(doc) is distinct from 'owner' then
+    raise exception 'Only the owner can change link settings';
+  end if;
+
+  update public.document_links
+  set password_hash = case
+    when coalesce(password, '') = '' then null
+    else extensions.crypt(password, extensions.gen_salt('bf'))
+  end
+  where document_id = doc;
+end;
+$$;
+
+-- Replaces the token; everyone who joined through the old link loses access
+create or replace function public.regenerate_document_link(doc uuid)
+returns text
+language plpgsql security definer set search_path = public
+as $$
+declare
+  new_token text;
+begin
+  if public.document_role(doc) is distinct from 'owner' then
+    raise exception 'Only the owner can change link settings';
+  end if;
+
+  update public.document_links
+  set token = encode(extensions.gen_random_bytes(16), 'hex')
+  where document_id = doc
+  returning token into new_token;
+
+  return new_token;
+end;
+$$;
+
+alter table public.document_links enable row level security;
+alter table public.document_link_visitors enable row level security;
+
+create policy "Members can see the link"
+  on public.document_links for select
+  using (public.document_role(document_id) is not null);
+
+create policy "Owners can create a link"
+  on public.document_links for insert
+  with check (public.document_role(document_id) = 'owner');
+
+create policy "Owners can change the link"
+  on public.document_links for update
+  using (public.document_role(document_id) = 'owner');
+
+create policy "Owners can remove the link"
+  on public.document_links for delete
+  using (public.document_role(document_id) = 'owner');
+
+-- The password hash and token go through the functions above
+revoke select, insert, update on public.document_links from authenticated;
+grant select (document_id, token, role, expires_at, has_password, created_at) on public.document_links to authenticated;
+grant insert (document_id, role, expires_at) on public.document_links to authenticated;
+grant update (role, expires_at) on public.document_links to authenticated;
+
+-- Visitors are only written by join_document_link
+revoke all on public.document_link_visitors from authenticated;
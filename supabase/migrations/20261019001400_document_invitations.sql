@@ -0,0 +1,42 @@
+-- Email invitations. The owner invites an address with a role; the invitee
+-- follows a signed link from the email and, once signed in with that address,
+-- is added to `document_permissions` by the accept route. Acceptance runs on
+-- the server with the service role, since the invitee is not a member yet.
+create table if not exists public.document_invitations (
+  id uuid primary key default gen_random_uuid(),
+  document_id uuid not null references public.documents (id) on delete cascade,
+  email text not null check (position('@' in email) > 1),
+  role text not null check (role in ('editor', 'commenter', 'viewer')),
+  invited_by uuid default auth.uid() references public.users_data (id) on delete set null,
+  created_at timestamptz not null default now(),
+  sent_at timestamptz not null default now(),
+  expires_at timestamptz not null default now() + interval '14 days',
+  accepted_by uuid references public.users_data (id) on delete set null,
+  accepted_at timestamptz
+);
+
+-- One open invitation per address and document
+create unique index if not exists document_invitations_pending_idx
+  on public.document_invitations (document_id, lower(email))
+  where accepted_at is null;
+
+alter table public.document_invitations enable row level security;
+
+create policy "Owners can see invitations"
+  on public.document_invitations for select
+  using (public.document_role(document_id) = 'owner');
+
+create policy "Owners can invite"
+  on public.document_invitations for insert
+  with check (public.document_role(document_id) = 'owner' and invited_by = auth.uid());
+
+create policy "Owners can resend invitations"
+  on public.document_invitations for update
+  using (public.document_role(document_id) = 'owner' and accepted_at is null);
+
+create policy "Owners can revoke invitations"
+  on public.document_invitations for delete
+  using (public.document_role(document_id) = 'owner');
+
+revoke update on public.document_invitations from authenticated;
+grant update (role, sent_at, expires_at) on public.document_invitations to authenticated;
@@ -0,0 +1,231 @@
+-- In-app notifications. Rows are written by triggers when a document or
+-- folder is shared with someone, when an existing account is invited by
+-- email, when someone is @-mentioned in a comment, and when a discussion
+-- someone took part in gets a reply. Each user can turn shares (invitations
+-- included), mentions and replies off in `notification_preferences`; no row
+-- there means everything is on.
+create table if not exists public.notifications (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references public.users_data (id) on delete cascade,
+  type text not null check (type in ('share', 'invitation', 'mention', 'reply')),
+  document_id uuid references public.documents (id) on delete cascade,
+  folder_id uuid references public.folders (id) on delete cascade,
+  -- Revoking the invitation removes its notification
+  invitation_id uuid references public.document_invitations (id) on delete cascade,
+  -- Signed invitation token for the accept link, filled in by the app server,
+  -- which holds the signing secret
+  link_token text,
+  thread_id uuid references public.comment_threads (id) on delete cascade,
+  comment_id bigint references public.comments (id) on delete cascade,
+  actor_id uuid references public.users_data (id) on delete set null,
+  -- Document title or folder name when the notification was written, for
+  -- invitees who cannot read the document yet
+  subject text,
+  created_at timestamptz not null default now(),
+  read_at timestamptz,
+  check (document_id is not null or folder_id is not null)
+);
+
+create index if not exists notifications_user_id_idx
+  on public.notifications (user_id, created_at desc);
+
+create table if not exists public.notification_preferences (
+  user_id uuid primary key default auth.uid() references public.users_data (id) on delete cascade,
+  share boolean not null default true,
+  mention boolean not null default true,
+  reply boolean not null default true,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.notifications enable row level security;
+alter table public.notification_preferences enable row level security;
+
+create policy "Users can read their notifications"
+  on public.notifications for select
+  using (user_id = auth.uid());
+
+create policy "Users can mark their notifications read"
+  on public.notifications for update
+  using (user_id = auth.uid());
+
+create policy "Users can clear their notifications"
+  on public.notifications for delete
+  using (user_id = auth.uid());
+
+revoke insert, update on public.notifications from authenticated;
+grant update (read_at) on public.notifications to authenticated;
+
+create policy "Users can read their notification preferences"
+  on public.notification_preferences for select
+  using (user_id = auth.uid());
+
+create policy "Users can set their notification preferences"
+  on public.notification_preferences for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can change their notification preferences"
+  on public.notification_preferences for update
+  using (user_id = auth.uid());
+
+-- Folder members can see the name of the folder, so the dashboard can label
+-- the documents it gave them
+create policy "Members can see folders shared with them"
+  on public.folders for select
+  using (exists (
+    select 1 from public.folder_permissions fp
+    where fp.folder_id = folders.id and fp.user_id = auth.uid()
+  ));
+
+-- Writes a notification unless the recipient is the actor, has turned this
+-- kind off, or cannot open the document or folder (so titles never leak to
+-- outsiders). Invitations are the exception: they name the document the
+-- owner chose to invite the recipient to.
+create or replace function public.notify(
+  recipient uuid,
+  kind text,
+  doc uuid default null,
+  thread uuid default null,
+  comment bigint default null,
+  folder uuid default null,
+  invitation uuid default null
+)
+returns void
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if recipient is null or recipient = auth.uid() then
+    return;
+  end if;
+
+  if exists (
+    select 1 from public.notification_preferences p
+    where p.user_id = recipient
+      and case kind when 'mention' then not p.mention when 'reply' then not p.reply else not p.share end
+  ) then
+    return;
+  end if;
+
+  if folder is not null and not exists (
+    select 1 from public.folder_permissions where folder_id = folder and user_id = recipient
+  ) then
+    return;
+  end if;
+
+  if doc is not null and invitation is null and not exists (
+    select 1 from public.document_permissions where document_id = doc and user_id = recipient
+    union all
+    select 1 from public.document_links l
+    join public.document_link_visitors v on v.document_id = l.document_id and v.token = l.token
+    where l.document_id = doc and v.user_id = recipient
+      and (l.expires_at is null or l.expires_at > now())
+  ) then
+    return;
+  end if;
+
+  insert into public.notifications (
+    user_id, type, document_id, folder_id, invitation_id, thread_id, comment_id, actor_id, subject
+  )
+  values (
+    recipient, kind, doc, folder, invitation, thread, comment, auth.uid(),
+    coalesce(
+      (select title from public.documents where id = doc),
+      (select name from public.folders where id = folder)
+    )
+  );
+end;
+$$;
+
+revoke execute on function public.notify(uuid, text, uuid, uuid, bigint, uuid, uuid) from public, anon, authenticated;
+
+-- Direct grants only: folder shares notify once for the folder below, and
+-- people accepting an email invitation added themselves
+create or replace function public.notify_document_shared()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  if new.role <> 'owner' and new.inherited_from is null and auth.uid() is not null then
+    perform public.notify(new.user_id, 'share', new.document_id);
+  end if;
+  return new;
+end;
+$$;
+
+create trigger document_permissions_notify_shared
+  after insert on public.document_permissions
+  for each row execute function public.notify_document_shared();
+
+create or replace function public.notify_folder_shared()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  perform public.notify(new.user_id, 'share', folder => new.folder_id);
+  return new;
+end;
+$$;
+
+create trigger folder_permissions_notify_shared
+  after insert on public.folder_permissions
+  for each row execute function public.notify_folder_shared();
+
+-- Addresses that already have an account also hear about the invitation in
+-- the app; the notification opens the same accept page as the email
+create or replace function public.notify_document_invited()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  perform public.notify(
+    (select id from public.users_data where lower(email) = lower(new.email) limit 1),
+    'invitation',
+    new.document_id,
+    invitation => new.id
+  );
+  return new;
+end;
+$$;
+
+create trigger document_invitations_notify_invited
+  after insert on public.document_invitations
+  for each row execute function public.notify_document_invited();
+
+-- Mentioned people get a mention; everyone else who started or replied to the
+-- thread gets a reply, so nobody is told twice about the same comment
+create or replace function public.notify_comment_added()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+declare
+  recipient uuid;
+begin
+  foreach recipient in array new.mentions loop
+    perform public.notify(recipient, 'mention', new.document_id, new.thread_id, new.id);
+  end loop;
+
+  for recipient in
+    select t.author_id from public.comment_threads t where t.id = new.thread_id
+    union
+    select c.author_id from public.comments c where c.thread_id = new.thread_id and c.id <> new.id
+  loop
+    if not recipient = any (new.mentions) then
+      perform public.notify(recipient, 'reply', new.document_id, new.thread_id, new.id);
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+create trigger comments_notify_added
+  after insert on public.comments
+  for each row execute function public.notify_comment_added();
+
+-- Stream new notifications to the bell menu; row level security still applies
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime') then
+    alter publication supabase_realtime add table public.notifications;
+  end if;
+end
+$$;
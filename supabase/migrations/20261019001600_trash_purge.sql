@@ -0,0 +1,35 @@
+-- Nightly trash purge. Documents stay in the trash for 30 days; afterwards
+-- pg_cron calls the app's /api/trash/purge route through pg_net, which deletes
+-- their attachments and then the documents. The app's address and CRON_SECRET
+-- are read from Vault as `app_url` and `cron_secret`:
+--
+--   select vault.create_secret('https://docs.example.com', 'app_url');
+--   select vault.create_secret('<CRON_SECRET>', 'cron_secret');
+--
+-- Until a document is purged it is already out of reach: its owner no longer
+-- sees it once its time in the trash is up.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'purge-expired-trash',
+  '0 3 * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'app_url') || '/api/trash/purge',
+    headers := jsonb_build_object(
+      'Authorization',
+      'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'cron_secret')
+    )
+  )
+  $$
+);
+
+drop policy if exists "Members can read documents" on public.documents;
+
+create policy "Members can read documents"
+  on public.documents for select
+  using (
+    (owner_id = auth.uid() and (deleted_at is null or deleted_at > now() - interval '30 days'))
+    or (deleted_at is null and public.document_role(id) is not null)
+  );
@@ -0,0 +1,26 @@
+-- Autosave records a revision every few seconds while someone types. Keep one
+-- per author every ten minutes: a new revision replaces the latest one when
+-- that is by the same author, unnamed, and from the same ten-minute window.
+create or replace function public.merge_document_revisions()
+returns trigger
+language plpgsql security definer set search_path = public
+as $$
+begin
+  delete from public.document_revisions r
+  where r.id = (
+      select id from public.document_revisions
+      where document_id = new.document_id
+      order by created_at desc, id desc
+      limit 1
+    )
+    and r.author_id = new.author_id
+    and r.name is null
+    and date_bin('10 minutes', r.created_at, timestamptz '2000-01-01')
+      = date_bin('10 minutes', new.created_at, timestamptz '2000-01-01');
+  return new;
+end;
+$$;
+
+create trigger document_revisions_merge
+  before insert on public.document_revisions
+  for each row execute function public.merge_document_revisions();